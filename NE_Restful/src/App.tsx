@@ -4,11 +4,18 @@ import { UserProvider } from './context/UserContext';
 import Navbar from './components/Navbar';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
+import AcceptInvitation from './pages/AcceptInvitation';
 import Dashboard from './pages/Dashboard';
 import ParkingManagement from './pages/ParkingManagement';
 import VehicleManagement from './pages/VehicleManagement';
 import Reports from './pages/Reports';
+import Reservations from './pages/Reservations';
+import AuditLog from './pages/AuditLog';
 import ProtectedRoute from './components/ProtectedRoute';
+import AdminRoute from './components/AdminRoute';
 
 function App() {
   return (
@@ -21,6 +28,10 @@ function App() {
             <Routes>
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/verify-email" element={<VerifyEmail />} />
+              <Route path="/accept-invitation" element={<AcceptInvitation />} />
               <Route 
                 path="/dashboard" 
                 element={
@@ -45,6 +56,14 @@ function App() {
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/reservations" 
+                element={
+                  <ProtectedRoute>
+                    <Reservations />
+                  </ProtectedRoute>
+                } 
+              />
               <Route 
                 path="/reports" 
                 element={
@@ -53,6 +72,14 @@ function App() {
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/audit" 
+                element={
+                  <AdminRoute>
+                    <AuditLog />
+                  </AdminRoute>
+                } 
+              />
               <Route path="/" element={<Navigate to="/login" replace />} />
             </Routes>
           </div>
@@ -1,10 +1,10 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useUser } from '../context/UserContext';
-import { Car, LogOut, ParkingCircle, BarChart3, Home } from 'lucide-react';
+import { Car, LogOut, ParkingCircle, BarChart3, Home, History, CalendarClock } from 'lucide-react';
 
 const Navbar: React.FC = () => {
-  const { user, isAuthenticated, logout } = useUser();
+  const { user, isAuthenticated, isAdmin, logout, hasPermission } = useUser();
   const navigate = useNavigate();
 
   const handleLogout = () => {
@@ -32,14 +32,28 @@ const Navbar: React.FC = () => {
               <ParkingCircle size={18} />
               <span>Parking</span>
             </Link>
-            <Link to="/vehicles" className="flex items-center space-x-1 hover:text-gray-300">
-              <Car size={18} />
-              <span>Vehicles</span>
-            </Link>
-            <Link to="/reports" className="flex items-center space-x-1 hover:text-gray-300">
-              <BarChart3 size={18} />
-              <span>Reports</span>
+            <Link to="/reservations" className="flex items-center space-x-1 hover:text-gray-300">
+              <CalendarClock size={18} />
+              <span>Bookings</span>
             </Link>
+            {hasPermission('entry:read') && (
+              <Link to="/vehicles" className="flex items-center space-x-1 hover:text-gray-300">
+                <Car size={18} />
+                <span>Vehicles</span>
+              </Link>
+            )}
+            {(hasPermission('report:entries') || hasPermission('report:revenue')) && (
+              <Link to="/reports" className="flex items-center space-x-1 hover:text-gray-300">
+                <BarChart3 size={18} />
+                <span>Reports</span>
+              </Link>
+            )}
+            {isAdmin && (
+              <Link to="/audit" className="flex items-center space-x-1 hover:text-gray-300">
+                <History size={18} />
+                <span>Audit</span>
+              </Link>
+            )}
           </div>
           
           <div className="flex items-center space-x-4">
@@ -37,23 +37,75 @@ authorizedAPI.interceptors.request.use(
   }
 );
 
-// Response interceptor for both instances to handle errors
+// Clear the stored session and send the user back to the login page
+const endSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  window.location.href = '/login';
+};
+
+// Refresh tokens are rotated on every use, so concurrent 401s must share a single refresh call
+let refreshPromise: Promise<string> | null = null;
+
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refreshToken');
+
+    refreshPromise = (refreshToken
+      ? axios
+          .post(`${API_URL}/auth/refresh`, { refreshToken }, { headers: commonHeaders })
+          .then((response) => {
+            const { token, refreshToken: rotatedRefreshToken } = response.data.data;
+            localStorage.setItem('token', token);
+            localStorage.setItem('refreshToken', rotatedRefreshToken);
+            return token as string;
+          })
+      : Promise.reject(new Error('No refresh token available'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+// Response error handler for the authorized instance
 const handleResponseError = (error: any) => {
   if (error.response && error.response.status === 401) {
-    // Clear localStorage and redirect to login
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    window.location.href = '/login';
+    endSession();
   }
   return Promise.reject(error);
 };
 
+// On a 401 the authorized instance refreshes the access token once and replays the request
+const handleAuthorizedResponseError = async (error: any) => {
+  const originalRequest = error.config;
+
+  if (error.response && error.response.status === 401 && originalRequest && !originalRequest._retry) {
+    originalRequest._retry = true;
+
+    try {
+      const token = await refreshAccessToken();
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return authorizedAPI(originalRequest);
+    } catch {
+      endSession();
+      return Promise.reject(error);
+    }
+  }
+
+  return handleResponseError(error);
+};
+
+// The unauthorized instance sends no credentials, so its 401s (wrong password, invalid
+// two-factor code...) are plain errors for the caller and never end the session
 unauthorizedAPI.interceptors.response.use(
   (response) => response,
-  handleResponseError
+  (error) => Promise.reject(error)
 );
 
 authorizedAPI.interceptors.response.use(
   (response) => response,
-  handleResponseError
-);
\ No newline at end of file
+  handleAuthorizedResponseError
+);
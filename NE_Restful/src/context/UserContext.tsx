@@ -4,26 +4,45 @@
 import React, { createContext, useState, useEffect, useContext } from 'react';
 import axios from 'axios';
 import { jwtDecode } from 'jwt-decode';
-import { unauthorizedAPI } from '../constants/api';
+import { unauthorizedAPI, refreshAccessToken } from '../constants/api';
 // import { log } from 'console';
 
+type Role = 'ADMIN' | 'MANAGER' | 'ATTENDANT' | 'AUDITOR' | 'USER';
+
 interface User {
   id: string;
   firstname: string;
   lastname: string;
   email: string;
-  role: 'USER' | 'ADMIN';
+  role: Role;
+  permissions: string[];
   token: string
 }
 
+// Returned by login when a second factor is still needed before the session starts
+interface LoginResult {
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken?: string;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
 interface UserContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, credentials: { code?: string; recoveryCode?: string }) => Promise<void>;
+  setupTwoFactor: (challengeToken: string) => Promise<TwoFactorSetup>;
+  enableTwoFactor: (challengeToken: string, code: string) => Promise<{ recoveryCodes: string[]; finishLogin: () => void }>;
   register: (userData: RegisterData) => Promise<void>;
   logout: () => void;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  hasPermission: (permission: string) => boolean;
 }
 
 interface RegisterData {
@@ -31,7 +50,6 @@ interface RegisterData {
   lastName: string;
   email: string;
   password: string;
-  role: "USER" 
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
@@ -42,58 +60,103 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
+    const restoreSession = async () => {
+      let token = localStorage.getItem('token');
+      if (!token) {
+        setLoading(false);
+        return;
+      }
+
       try {
-        const decoded = jwtDecode<User & { exp: number }>(token);
+        let decoded = jwtDecode<User & { exp: number }>(token);
         const currentTime = Date.now() / 1000;
-        
+
+        // An expired access token is renewed silently while the refresh token is still valid
         if (decoded.exp < currentTime) {
-          localStorage.removeItem('token');
-          setUser(null);
-        } else {
-          setUser({
-            id: decoded.id,
-            firstname: decoded.firstname,
-            lastname: decoded.lastname,
-            email: decoded.email,
-            role: decoded.role,
-            token
-          });
-          
-          // Set authorization header for all future requests
-          axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+          token = await refreshAccessToken();
+          decoded = jwtDecode<User & { exp: number }>(token);
         }
+
+        setUser({
+          id: decoded.id,
+          firstname: decoded.firstname,
+          lastname: decoded.lastname,
+          email: decoded.email,
+          role: decoded.role,
+          permissions: decoded.permissions || [],
+          token
+        });
+
+        // Set authorization header for all future requests
+        axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
       } catch (error) {
         localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
         setUser(null);
+      } finally {
+        setLoading(false);
       }
-    }
-    setLoading(false);
+    };
+
+    restoreSession();
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const startSession = (token: string, refreshToken: string) => {
+    localStorage.setItem('token', token);
+    localStorage.setItem('refreshToken', refreshToken);
+    axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+
+    const decoded = jwtDecode<User>(token);
+
+    setUser({
+      id: decoded.id,
+      firstname: decoded.firstname,
+      lastname: decoded.lastname,
+      email: decoded.email,
+      role: decoded.role,
+      permissions: decoded.permissions || [],
+      token
+    });
+  };
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const response = await unauthorizedAPI.post(`/auth/login`, { email, password });
-      const { token } = response.data.data;      
-      localStorage.setItem('token', token);
-      axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-      
-      const decoded = jwtDecode<User>(token);
-       
-      setUser({
-        id: decoded.id,
-        firstname: decoded.firstname,
-        lastname: decoded.lastname,
-        email: decoded.email,
-        role: decoded.role,
-        token
-      });
+      const { token, refreshToken, challengeToken, twoFactorRequired, twoFactorSetupRequired } = response.data.data;
+
+      if (challengeToken) {
+        return { challengeToken, twoFactorRequired, twoFactorSetupRequired };
+      }
+
+      startSession(token, refreshToken);
+      return {};
     } catch (error) {
       throw error;
     }
   };
 
+  const verifyTwoFactor = async (challengeToken: string, credentials: { code?: string; recoveryCode?: string }) => {
+    const response = await unauthorizedAPI.post(`/auth/2fa/verify`, { challengeToken, ...credentials });
+    const { token, refreshToken } = response.data.data;
+    startSession(token, refreshToken);
+  };
+
+  const setupTwoFactor = async (challengeToken: string): Promise<TwoFactorSetup> => {
+    const response = await unauthorizedAPI.post(`/auth/2fa/setup`, { challengeToken });
+    return response.data.data;
+  };
+
+  // The session only starts once the recovery codes have been shown to the user
+  const enableTwoFactor = async (challengeToken: string, code: string) => {
+    const response = await unauthorizedAPI.post(`/auth/2fa/enable`, { challengeToken, code });
+    const { recoveryCodes, token, refreshToken } = response.data.data;
+
+    return {
+      recoveryCodes: recoveryCodes as string[],
+      finishLogin: () => startSession(token, refreshToken)
+    };
+  };
+
   const register = async (userData: RegisterData) => {
     try {
       
@@ -105,7 +168,14 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const logout = () => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      // Revoke the refresh token server-side; the local session is cleared regardless
+      unauthorizedAPI.post(`/auth/logout`, { refreshToken }).catch(() => undefined);
+    }
+
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     delete axios.defaults.headers.common['Authorization'];
     setUser(null);
   };
@@ -113,15 +183,22 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const isAuthenticated = !!user;
   const isAdmin = user?.role === 'ADMIN';
 
+  // Only drives what the UI shows, the API enforces permissions itself
+  const hasPermission = (permission: string) => !!user?.permissions.includes(permission);
+
   return (
     <UserContext.Provider value={{ 
       user, 
       loading, 
       login, 
+      verifyTwoFactor,
+      setupTwoFactor,
+      enableTwoFactor,
       register, 
       logout, 
       isAuthenticated, 
-      isAdmin 
+      isAdmin,
+      hasPermission
     }}>
       {children}
     </UserContext.Provider>
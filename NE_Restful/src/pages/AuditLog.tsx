@@ -0,0 +1,444 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { ChevronDown, ChevronRight, Download, Search, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { authorizedAPI } from '../constants/api';
+
+interface AuditLog {
+  id: string;
+  userId: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  ipAddress: string | null;
+  requestId: string | null;
+  apiKeyId: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    role: string;
+  } | null;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const FILTER_KEYS = ['actorId', 'action', 'targetType', 'targetId', 'from', 'to'] as const;
+type Filters = Record<typeof FILTER_KEYS[number], string>;
+
+const TARGET_TYPES = ['User', 'Parking', 'Entry', 'Vehicle', 'Invitation', 'ApiKey', 'Setting', 'Session', 'ParkingSpace', 'Reservation', 'Tariff', 'Holiday', 'PlateAlert', 'Payment'];
+const PAGE_SIZE = 25;
+const EXPORT_PAGE_SIZE = 200;
+
+// The API expects timestamps, the date inputs cover whole local days
+const toQueryParams = (filters: Filters) => {
+  const params: Record<string, string> = {};
+
+  FILTER_KEYS.forEach((key) => {
+    if (filters[key]) {
+      params[key] = filters[key];
+    }
+  });
+
+  if (filters.from) {
+    params.from = new Date(`${filters.from}T00:00:00`).toISOString();
+  }
+  if (filters.to) {
+    params.to = new Date(`${filters.to}T23:59:59.999`).toISOString();
+  }
+
+  return params;
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const describeActor = (log: AuditLog) => {
+  if (log.user) return `${log.user.firstName} ${log.user.lastName} (${log.user.email})`;
+  if (log.apiKeyId) return `API key ${log.apiKeyId.substring(0, 8)}`;
+  return log.userId ? 'Deleted user' : 'System';
+};
+
+// Where the affected record can be looked at. Users have no page of their own, so their activity is shown here.
+const targetLink = (log: AuditLog) => {
+  if (!log.targetId) return null;
+
+  switch (log.targetType) {
+    case 'Parking':
+      return `/parking?code=${encodeURIComponent(log.targetId)}`;
+    case 'Entry':
+      return `/vehicles?entry=${encodeURIComponent(log.targetId)}`;
+    case 'User':
+      return `/audit?actorId=${encodeURIComponent(log.targetId)}`;
+    default:
+      return null;
+  }
+};
+
+const escapeCsv = (value: string) => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const AuditLogPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  // Filters live in the URL so that filtered views can be linked to
+  const appliedFilters = useMemo(() => FILTER_KEYS.reduce((acc, key) => {
+    acc[key] = searchParams.get(key) || '';
+    return acc;
+  }, {} as Filters), [searchParams]);
+  const page = parseInt(searchParams.get('page') || '1');
+  const [filters, setFilters] = useState<Filters>(appliedFilters);
+
+  const fetchLogs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await authorizedAPI.get('/logs', {
+        params: { ...toQueryParams(appliedFilters), page, limit: PAGE_SIZE }
+      });
+      setLogs(response.data.data.logs);
+      setPagination(response.data.data.pagination);
+    } catch (error: any) {
+      console.error('Error fetching audit logs:', error);
+      toast.error(error.response?.data?.message || 'Failed to load audit logs');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    setFilters(appliedFilters);
+    fetchLogs();
+  }, [appliedFilters, fetchLogs]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params: Record<string, string> = {};
+    FILTER_KEYS.forEach((key) => {
+      if (filters[key].trim()) {
+        params[key] = filters[key].trim();
+      }
+    });
+    setSearchParams(params);
+  };
+
+  const clearFilters = () => {
+    setSearchParams({});
+  };
+
+  const goToPage = (newPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('page', String(newPage));
+    setSearchParams(params);
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  // Exports every event matching the applied filters, not only the current page
+  const exportToCsv = async () => {
+    try {
+      setExporting(true);
+      const allLogs: AuditLog[] = [];
+      let exportPage = 1;
+      let totalPages = 1;
+
+      do {
+        const response = await authorizedAPI.get('/logs', {
+          params: { ...toQueryParams(appliedFilters), page: exportPage, limit: EXPORT_PAGE_SIZE }
+        });
+        allLogs.push(...response.data.data.logs);
+        totalPages = response.data.data.pagination.totalPages;
+        exportPage++;
+      } while (exportPage <= totalPages);
+
+      if (!allLogs.length) {
+        toast.error('No data to export');
+        return;
+      }
+
+      const headers = ['Time', 'Action', 'Actor', 'Target Type', 'Target ID', 'Changes', 'IP Address', 'Request ID'];
+      const csvRows = [
+        headers.join(','),
+        ...allLogs.map(log => [
+          format(new Date(log.createdAt), 'yyyy-MM-dd HH:mm:ss'),
+          log.action,
+          describeActor(log),
+          log.targetType || '',
+          log.targetId || '',
+          log.changes ? JSON.stringify(log.changes) : '',
+          log.ipAddress || '',
+          log.requestId || ''
+        ].map(escapeCsv).join(','))
+      ];
+
+      const blob = new Blob([csvRows.join('\n')], { type: 'text/csv;charset=utf-8;' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `audit-log-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.csv`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error: any) {
+      console.error('Error exporting audit logs:', error);
+      toast.error(error.response?.data?.message || 'Failed to export audit logs');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Audit Log</h1>
+          <p className="text-gray-600">Who changed what, and when</p>
+        </div>
+        <button
+          onClick={exportToCsv}
+          disabled={exporting}
+          className="flex items-center text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          <Download size={18} className="mr-1" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      <form onSubmit={applyFilters} className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label htmlFor="action" className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+            <input
+              type="text"
+              id="action"
+              name="action"
+              value={filters.action}
+              onChange={handleChange}
+              placeholder="e.g. PARKING_UPDATED"
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="targetType" className="block text-sm font-medium text-gray-700 mb-1">Target Type</label>
+            <select
+              id="targetType"
+              name="targetType"
+              value={filters.targetType}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All</option>
+              {TARGET_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="targetId" className="block text-sm font-medium text-gray-700 mb-1">Target ID</label>
+            <input
+              type="text"
+              id="targetId"
+              name="targetId"
+              value={filters.targetId}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="actorId" className="block text-sm font-medium text-gray-700 mb-1">Actor ID</label>
+            <input
+              type="text"
+              id="actorId"
+              name="actorId"
+              value={filters.actorId}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              id="from"
+              name="from"
+              value={filters.from}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              id="to"
+              name="to"
+              value={filters.to}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            Clear
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-black text-white rounded-lg flex items-center"
+          >
+            <Search size={18} className="mr-1" />
+            Apply Filters
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : logs.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {logs.map(log => {
+              const isExpanded = expanded.includes(log.id);
+              const changes = log.changes ? Object.entries(log.changes) : [];
+              const link = targetLink(log);
+
+              return (
+                <li key={log.id} className="px-6 py-4">
+                  <div className="flex items-start">
+                    <button
+                      onClick={() => toggleExpanded(log.id)}
+                      disabled={changes.length === 0}
+                      className="mr-3 mt-1 text-gray-500 hover:text-gray-800 disabled:invisible"
+                    >
+                      {isExpanded ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+                    </button>
+                    <div className="flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                          {log.action}
+                        </span>
+                        {log.targetType && (
+                          <span className="text-sm text-gray-700">
+                            {log.targetType}{' '}
+                            {link ? (
+                              <Link to={link} className="text-blue-600 hover:underline">{log.targetId}</Link>
+                            ) : (
+                              log.targetId
+                            )}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500 mt-1">
+                        {format(new Date(log.createdAt), 'PPpp')} by{' '}
+                        {log.userId ? (
+                          <Link to={`/audit?actorId=${log.userId}`} className="text-blue-600 hover:underline">
+                            {describeActor(log)}
+                          </Link>
+                        ) : (
+                          describeActor(log)
+                        )}
+                        {log.ipAddress && <> from {log.ipAddress}</>}
+                      </div>
+                      {log.requestId && (
+                        <div className="text-xs text-gray-400 mt-1">Request {log.requestId}</div>
+                      )}
+
+                      {isExpanded && changes.length > 0 && (
+                        <table className="min-w-full divide-y divide-gray-200 mt-3 border rounded-lg">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {changes.map(([field, change]) => (
+                              <tr key={field}>
+                                <td className="px-4 py-2 text-sm font-medium text-gray-900">{field}</td>
+                                <td className="px-4 py-2 text-sm text-red-700 bg-red-50 break-all">{formatValue(change.before)}</td>
+                                <td className="px-4 py-2 text-sm text-green-700 bg-green-50 break-all">{formatValue(change.after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="flex flex-col items-center justify-center h-64 text-gray-500">
+            <History size={32} className="mb-2" />
+            No audit events found
+          </div>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="px-6 py-4 border-t flex justify-between items-center">
+            <span className="text-sm text-gray-600">
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} events)
+            </span>
+            <div className="space-x-3">
+              <button
+                onClick={() => goToPage(page - 1)}
+                disabled={page <= 1}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => goToPage(page + 1)}
+                disabled={page >= pagination.totalPages}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogPage;
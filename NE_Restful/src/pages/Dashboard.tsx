@@ -41,17 +41,19 @@ interface User {
   firstName: string;
   lastName: string;
   email: string;
-  role: 'ADMIN' | 'USER';
+  role: 'ADMIN' | 'MANAGER' | 'ATTENDANT' | 'AUDITOR' | 'USER';
   createdAt: string;
   updatedAt: string;
 }
 
 const Dashboard: React.FC = () => {
-  const { user } = useUser();
+  const { user, hasPermission } = useUser();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
 
   const isAdmin = user?.role === 'ADMIN';
+  const canReadEntries = hasPermission('entry:read');
+  const canReadUsers = hasPermission('user:read');
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -61,17 +63,20 @@ const Dashboard: React.FC = () => {
         const parkingsResponse = await authorizedAPI.get('/parkings');
         const parkings = parkingsResponse.data.data;
 
-        // Fetch active entries
-        const activeEntriesResponse = await authorizedAPI.get('/entries/active');
-        const activeEntries = activeEntriesResponse.data.data;
+        // Fetch active and all entries (limited for recent entries) for staff who can see them
+        let activeEntries: VehicleEntry[] = [];
+        let allEntries: VehicleEntry[] = [];
+        if (canReadEntries) {
+          const activeEntriesResponse = await authorizedAPI.get('/entries/active');
+          activeEntries = activeEntriesResponse.data.data;
 
-        // Fetch all entries (limited for recent entries)
-        const entriesResponse = await authorizedAPI.get('/entries');
-        const allEntries = entriesResponse.data.data;
+          const entriesResponse = await authorizedAPI.get('/entries');
+          allEntries = entriesResponse.data.data;
+        }
 
-        // Fetch users (admin only)
+        // Fetch users
         let totalUsers = 0;
-        if (isAdmin) {
+        if (canReadUsers) {
           try {
             const usersResponse = await authorizedAPI.get<User[]>('/users');
             totalUsers = usersResponse.data.length;
@@ -99,7 +104,7 @@ const Dashboard: React.FC = () => {
           availableSpaces,
           occupiedSpaces,
           totalVehicles,
-          totalUsers: isAdmin ? totalUsers : undefined,
+          totalUsers: canReadUsers ? totalUsers : undefined,
           recentEntries,
         });
       } catch (error: any) {
@@ -115,7 +120,7 @@ const Dashboard: React.FC = () => {
     } else {
       setLoading(false);
     }
-  }, [user?.token, isAdmin]);
+  }, [user?.token, canReadEntries, canReadUsers]);
 
   // Wrap all JSX in a single parent element
   return (
@@ -186,7 +191,7 @@ const Dashboard: React.FC = () => {
                   </div>
                 </div>
 
-                {isAdmin && (
+                {canReadUsers && (
                   <div className="bg-white rounded-lg shadow p-6">
                     <div className="flex justify-between items-start">
                       <div>
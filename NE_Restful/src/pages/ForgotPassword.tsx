@@ -0,0 +1,78 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { Car } from 'lucide-react';
+import { unauthorizedAPI } from '../constants/api';
+
+const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await unauthorizedAPI.post(`/auth/forgot-password`, { email });
+      setSubmitted(true);
+    } catch (error: any) {
+      console.error('Forgot password error:', error);
+      toast.error(error.response?.data?.message || 'Failed to send reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-8">
+      <div className="w-full max-w-md bg-white shadow-md rounded-lg p-6">
+        <div className="flex justify-center mb-4">
+          <Car className="h-10 w-10" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-800 text-center">Forgot your password?</h2>
+
+        {submitted ? (
+          <p className="text-gray-600 text-center mt-4">
+            If an account exists for <span className="font-medium">{email}</span>, we have sent a link to reset your password.
+            The link expires in one hour.
+          </p>
+        ) : (
+          <>
+            <p className="text-gray-600 text-center mb-6">Enter your email and we will send you a reset link</p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Email Address</label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-2 mt-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition disabled:bg-gray-400"
+              >
+                {loading ? 'Sending...' : 'Send Reset Link'}
+              </button>
+            </form>
+          </>
+        )}
+
+        <div className="text-center mt-4">
+          <Link to="/login" className="text-sm text-blue-600 hover:underline">
+            Back to Sign In
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
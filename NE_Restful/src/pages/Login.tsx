@@ -1,14 +1,24 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
 import React, { useState, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useUser } from '../context/UserContext';
 import { toast } from 'react-hot-toast';
 import { Car } from 'lucide-react';
 
+type LoginStep = 'credentials' | 'twoFactor' | 'twoFactorSetup' | 'recoveryCodes';
+
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login, isAuthenticated } = useUser();
+  const [step, setStep] = useState<LoginStep>('credentials');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [finishLogin, setFinishLogin] = useState<(() => void) | null>(null);
+  const { login, verifyTwoFactor, setupTwoFactor, enableTwoFactor, isAuthenticated } = useUser();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -22,17 +32,82 @@ const Login: React.FC = () => {
     setLoading(true);
 
     try {
-      await login(email, password);
+      const result = await login(email, password);
+
+      if (result.twoFactorRequired && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        setStep('twoFactor');
+        return;
+      }
+
+      if (result.twoFactorSetupRequired && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        setSetup(await setupTwoFactor(result.challengeToken));
+        setStep('twoFactorSetup');
+        return;
+      }
+
       toast.success('Login successful!');
       navigate('/dashboard');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Login error:', error);
-      toast.error('Invalid email or password');
+      toast.error(error.response?.data?.message || 'Invalid email or password');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleVerifyTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await verifyTwoFactor(challengeToken, useRecoveryCode ? { recoveryCode: code } : { code });
+      toast.success('Login successful!');
+      navigate('/dashboard');
+    } catch (error: any) {
+      console.error('Two-factor verification error:', error);
+      toast.error(error.response?.data?.message || 'Invalid two-factor code');
+      // An expired challenge can't be retried: start again from the password step
+      if (error.response?.data?.message?.includes('challenge')) {
+        resetToCredentials();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const result = await enableTwoFactor(challengeToken, code);
+      setRecoveryCodes(result.recoveryCodes);
+      setFinishLogin(() => result.finishLogin);
+      setStep('recoveryCodes');
+    } catch (error: any) {
+      console.error('Two-factor setup error:', error);
+      toast.error(error.response?.data?.message || 'Invalid two-factor code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFinishLogin = () => {
+    finishLogin?.();
+    toast.success('Login successful!');
+    navigate('/dashboard');
+  };
+
+  const resetToCredentials = () => {
+    setStep('credentials');
+    setChallengeToken('');
+    setCode('');
+    setUseRecoveryCode(false);
+    setSetup(null);
+  };
+
   return (
  <div className="min-h-screen flex bg-gray-50">
       {/* Left side with background image and overlay */}
@@ -60,52 +135,174 @@ const Login: React.FC = () => {
       {/* Right: Login form */}
         <div className="w-full lg:w-1/2 flex items-center justify-center p-8">
         <div className="w-full max-w-md">
-          <h2 className="text-2xl font-bold text-gray-800 text-center">Welcome Back</h2>
-          <p className="text-gray-600 text-center mb-6">Sign in to continue</p>
-
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="text-sm font-medium text-gray-700">Email Address</label>
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-2 mt-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-              />
-            </div>
+          {step === 'credentials' && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-800 text-center">Welcome Back</h2>
+              <p className="text-gray-600 text-center mb-6">Sign in to continue</p>
 
-            <div>
-              <label className="text-sm font-medium text-gray-700">Password</label>
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="w-full px-4 py-2 mt-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-              />
-            </div>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Email Address</label>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full px-4 py-2 mt-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Password</label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="w-full px-4 py-2 mt-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition disabled:bg-gray-400"
+                >
+                  {loading ? 'Signing in...' : 'Sign In'}
+                </button>
+              </form>
+            </>
+          )}
+
+          {step === 'twoFactor' && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-800 text-center">Two-Factor Authentication</h2>
+              <p className="text-gray-600 text-center mb-6">
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes'
+                  : 'Enter the 6-digit code from your authenticator app'}
+              </p>
+
+              <form onSubmit={handleVerifyTwoFactor} className="space-y-4">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  autoFocus
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-center tracking-widest focus:ring-2 focus:ring-blue-500 outline-none"
+                />
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition disabled:bg-gray-400"
-            >
-              {loading ? 'Signing in...' : 'Sign In'}
-            </button>
-          </form>
-
-          <div className="text-center mt-4">
-            <a href="/forgotPassword" className="text-sm text-blue-600 hover:underline block">
-              Forgot password?
-            </a>
-            <p className="text-sm text-gray-600 mt-2">
-              Don’t have an account?{' '}
-              <Link to="/register" className="text-blue-600 font-medium hover:underline">
-                Register
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition disabled:bg-gray-400"
+                >
+                  {loading ? 'Verifying...' : 'Verify'}
+                </button>
+              </form>
+
+              <div className="flex justify-between mt-4 text-sm">
+                <button
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                  }}
+                  className="text-blue-600 hover:underline"
+                >
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </button>
+                <button onClick={resetToCredentials} className="text-gray-600 hover:underline">
+                  Back
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'twoFactorSetup' && setup && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-800 text-center">Set Up Two-Factor Authentication</h2>
+              <p className="text-gray-600 text-center mb-6">
+                Two-factor authentication is required for your account. Add this key to your authenticator app,
+                then enter the code it shows.
+              </p>
+
+              <div className="bg-gray-100 rounded-lg p-4 mb-4 text-center">
+                <p className="text-xs text-gray-500 mb-1">Setup key</p>
+                <p className="font-mono font-semibold break-all">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+                <a href={setup.otpauthUrl} className="text-sm text-blue-600 hover:underline block mt-2">
+                  Open in authenticator app
+                </a>
+              </div>
+
+              <form onSubmit={handleEnableTwoFactor} className="space-y-4">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-center tracking-widest focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition disabled:bg-gray-400"
+                >
+                  {loading ? 'Enabling...' : 'Enable Two-Factor Authentication'}
+                </button>
+              </form>
+
+              <div className="text-center mt-4">
+                <button onClick={resetToCredentials} className="text-sm text-gray-600 hover:underline">
+                  Back
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'recoveryCodes' && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-800 text-center">Save Your Recovery Codes</h2>
+              <p className="text-gray-600 text-center mb-6">
+                Each code can be used once to sign in if you lose access to your authenticator app.
+                They will not be shown again.
+              </p>
+
+              <div className="grid grid-cols-2 gap-2 bg-gray-100 rounded-lg p-4 mb-4 font-mono text-center">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+
+              <button
+                onClick={handleFinishLogin}
+                className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition"
+              >
+                I have saved my codes
+              </button>
+            </>
+          )}
+
+          {step === 'credentials' && (
+            <div className="text-center mt-4">
+              <Link to="/forgot-password" className="text-sm text-blue-600 hover:underline block">
+                Forgot password?
               </Link>
-            </p>
-          </div>
+              <p className="text-sm text-gray-600 mt-2">
+                Don’t have an account?{' '}
+                <Link to="/register" className="text-blue-600 font-medium hover:underline">
+                  Register
+                </Link>
+              </p>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import { useUser } from '../context/UserContext';
-import {  Plus, Edit, Trash2 } from 'lucide-react';
+import {  Plus, Edit, Trash2, RotateCcw, RefreshCw } from 'lucide-react';
 import { authorizedAPI } from '../constants/api';
 
 interface Parking {
@@ -12,6 +13,7 @@ interface Parking {
   totalSpaces: number;
   availableSpaces: number;
   hourlyFee: number;
+  deletedAt: string | null;
 }
 
 interface ParkingFormData {
@@ -24,7 +26,15 @@ interface ParkingFormData {
 
 
 const ParkingManagement: React.FC = () => {
-  const { isAdmin } = useUser();
+  const { hasPermission } = useUser();
+  const canCreate = hasPermission('parking:create');
+  const canUpdate = hasPermission('parking:update');
+  const canDelete = hasPermission('parking:delete');
+  const canReconcile = hasPermission('parking:reconcile');
+  const canManage = canUpdate || canDelete || canReconcile;
+  // Parking highlighted by links from the audit log
+  const [searchParams] = useSearchParams();
+  const highlightedCode = searchParams.get('code');
   const [parkings, setParkings] = useState<Parking[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -35,16 +45,16 @@ const ParkingManagement: React.FC = () => {
     totalSpaces: 0,
     hourlyFee: 0
   });
-  const [editingId, setEditingId] = useState<string | null>(null);
+  // Parkings are addressed by their code in the API
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
 
-  useEffect(() => {
-    fetchParkings();
-  }, []);
-
-  const fetchParkings = async () => {
+  const fetchParkings = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await authorizedAPI.get(`/parkings`);
+      const response = await authorizedAPI.get(`/parkings`, {
+        params: showDeleted ? { includeDeleted: true } : undefined
+      });
       setParkings(response.data.data);
     } catch (error) {
       console.error('Error fetching parkings:', error);
@@ -52,7 +62,11 @@ const ParkingManagement: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [showDeleted]);
+
+  useEffect(() => {
+    fetchParkings();
+  }, [fetchParkings]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -66,8 +80,8 @@ const ParkingManagement: React.FC = () => {
     e.preventDefault();
     
     try {
-      if (editingId) {
-        await authorizedAPI.put(`/parkings/${editingId}`, formData);
+      if (editingCode) {
+        await authorizedAPI.put(`/parkings/${editingCode}`, formData);
         toast.success('Parking updated successfully');
       } else {
         await authorizedAPI.post(`/parkings`, formData);
@@ -90,14 +104,14 @@ const ParkingManagement: React.FC = () => {
       totalSpaces: parking.totalSpaces,
       hourlyFee: parking.hourlyFee
     });
-    setEditingId(parking.id);
+    setEditingCode(parking.code);
     setShowForm(true);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (code: string) => {
     if (window.confirm('Are you sure you want to delete this parking?')) {
       try {
-        await authorizedAPI.delete(`/parkings/${id}`);
+        await authorizedAPI.delete(`/parkings/${code}`);
         toast.success('Parking deleted successfully');
         fetchParkings();
       } catch (error) {
@@ -107,6 +121,34 @@ const ParkingManagement: React.FC = () => {
     }
   };
 
+  const handleRestore = async (code: string) => {
+    try {
+      await authorizedAPI.post(`/parkings/${code}/restore`);
+      toast.success('Parking restored successfully');
+      fetchParkings();
+    } catch (error) {
+      console.error('Error restoring parking:', error);
+      toast.error('Failed to restore parking');
+    }
+  };
+
+  // Recount the free spaces from the vehicles parked, after a counter drifted
+  const handleReconcile = async (code: string) => {
+    try {
+      const response = await authorizedAPI.post(`/parkings/${code}/reconcile-capacity`);
+      const { parking, previousAvailableSpaces } = response.data.data;
+      toast.success(
+        parking.availableSpaces === previousAvailableSpaces
+          ? 'Available spaces were already correct'
+          : `Available spaces corrected from ${previousAvailableSpaces} to ${parking.availableSpaces}`
+      );
+      fetchParkings();
+    } catch (error) {
+      console.error('Error reconciling parking capacity:', error);
+      toast.error('Failed to reconcile parking capacity');
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       code: '',
@@ -115,7 +157,7 @@ const ParkingManagement: React.FC = () => {
       totalSpaces: 0,
       hourlyFee: 0
     });
-    setEditingId(null);
+    setEditingCode(null);
     setShowForm(false);
   };
 
@@ -134,24 +176,37 @@ const ParkingManagement: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-800">Parking Management</h1>
           <p className="text-gray-600">Manage parking locations and spaces</p>
         </div>
-        {isAdmin && (
-          <button
-            onClick={() => setShowForm(!showForm)}
-            className="bg-black text-white px-4 py-2 rounded-lg flex items-center"
-          >
-            {showForm ? 'Cancel' : (
-              <>
-                <Plus size={18} className="mr-1" />
-                Add Parking
-              </>
-            )}
-          </button>
-        )}
+        <div className="flex items-center space-x-4">
+          {canDelete && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showDeleted}
+                onChange={(e) => setShowDeleted(e.target.checked)}
+                className="mr-2"
+              />
+              Show deleted
+            </label>
+          )}
+          {canCreate && (
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="bg-black text-white px-4 py-2 rounded-lg flex items-center"
+            >
+              {showForm ? 'Cancel' : (
+                <>
+                  <Plus size={18} className="mr-1" />
+                  Add Parking
+                </>
+              )}
+            </button>
+          )}
+        </div>
       </div>
 
-      {showForm && isAdmin && (
+      {showForm && (canCreate || canUpdate) && (
         <div className="bg-white rounded-lg shadow p-6 mb-6">
-          <h2 className="text-lg font-semibold mb-4">{editingId ? 'Edit Parking' : 'Add New Parking'}</h2>
+          <h2 className="text-lg font-semibold mb-4">{editingCode ? 'Edit Parking' : 'Add New Parking'}</h2>
           <form onSubmit={handleSubmit}>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
               <div>
@@ -162,6 +217,7 @@ const ParkingManagement: React.FC = () => {
                   name="code"
                   value={formData.code}
                   onChange={handleChange}
+                  disabled={!!editingCode}
                   className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   required
                 />
@@ -237,7 +293,7 @@ const ParkingManagement: React.FC = () => {
                 type="submit"
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
               >
-                {editingId ? 'Update Parking' : 'Add Parking'}
+                {editingCode ? 'Update Parking' : 'Add Parking'}
               </button>
             </div>
           </form>
@@ -255,7 +311,7 @@ const ParkingManagement: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Spaces</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Available</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fee/Hour</th>
-                {isAdmin && (
+                {canManage && (
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                 )}
               </tr>
@@ -263,8 +319,18 @@ const ParkingManagement: React.FC = () => {
             <tbody className="bg-white divide-y divide-gray-200">
               {parkings.length > 0 ? (
                 parkings.map((parking) => (
-                  <tr key={parking.id}>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{parking.code}</td>
+                  <tr
+                    key={parking.id}
+                    className={parking.deletedAt ? 'bg-gray-50 opacity-60' : parking.code === highlightedCode ? 'bg-yellow-50' : undefined}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {parking.code}
+                      {parking.deletedAt && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-200 text-gray-700">
+                          Deleted
+                        </span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{parking.name}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{parking.location}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{parking.totalSpaces}</td>
@@ -276,27 +342,54 @@ const ParkingManagement: React.FC = () => {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${parking.hourlyFee}</td>
-                    {isAdmin && (
+                    {canManage && (
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <button
-                          onClick={() => handleEdit(parking)}
-                          className="text-blue-600 hover:text-blue-900 mr-3"
-                        >
-                          <Edit size={18} />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(parking.id)}
-                          className="text-red-600 hover:text-red-900"
-                        >
-                          <Trash2 size={18} />
-                        </button>
+                        {parking.deletedAt ? (
+                          canDelete && (
+                            <button
+                              onClick={() => handleRestore(parking.code)}
+                              className="text-green-600 hover:text-green-900"
+                              title="Restore"
+                            >
+                              <RotateCcw size={18} />
+                            </button>
+                          )
+                        ) : (
+                          <>
+                            {canUpdate && (
+                              <button
+                                onClick={() => handleEdit(parking)}
+                                className="text-blue-600 hover:text-blue-900 mr-3"
+                              >
+                                <Edit size={18} />
+                              </button>
+                            )}
+                            {canReconcile && (
+                              <button
+                                onClick={() => handleReconcile(parking.code)}
+                                className="text-gray-600 hover:text-gray-900 mr-3"
+                                title="Reconcile capacity"
+                              >
+                                <RefreshCw size={18} />
+                              </button>
+                            )}
+                            {canDelete && (
+                              <button
+                                onClick={() => handleDelete(parking.code)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                <Trash2 size={18} />
+                              </button>
+                            )}
+                          </>
+                        )}
                       </td>
                     )}
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={isAdmin ? 7 : 6} className="px-6 py-4 text-center text-sm text-gray-500">
+                  <td colSpan={canManage ? 7 : 6} className="px-6 py-4 text-center text-sm text-gray-500">
                     No parking locations found
                   </td>
                 </tr>
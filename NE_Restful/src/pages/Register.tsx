@@ -45,10 +45,9 @@ const Register: React.FC = () => {
         lastName: formData.lastname,
         email: formData.email,
         password: formData.password,
-        role: 'USER',
       });
 
-      toast.success('Registration successful! Please login.');
+      toast.success('Registration successful! Check your email to verify your account.');
       navigate('/login');
     } catch (error: any) {
       console.error('Registration error:', error);
@@ -0,0 +1,343 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { useUser } from '../context/UserContext';
+import { Plus, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { authorizedAPI } from '../constants/api';
+
+interface Parking {
+  id: string;
+  code: string;
+  name: string;
+  totalSpaces: number;
+}
+
+type ReservationStatus = 'BOOKED' | 'FULFILLED' | 'CANCELLED' | 'NO_SHOW';
+
+interface Reservation {
+  id: string;
+  code: string;
+  userId: string | null;
+  parkingCode: string;
+  plateNumber: string;
+  startTime: string;
+  endTime: string;
+  status: ReservationStatus;
+  noShowFee: string | null;
+  capacityHoldFailedAt: string | null;
+  parking: { code: string; name: string; location: string };
+}
+
+interface ReservationFormData {
+  parkingCode: string;
+  plateNumber: string;
+  startTime: string;
+  endTime: string;
+}
+
+const STATUS_STYLES: Record<ReservationStatus, string> = {
+  BOOKED: 'bg-blue-100 text-blue-800',
+  FULFILLED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+  NO_SHOW: 'bg-red-100 text-red-800'
+};
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  BOOKED: 'Booked',
+  FULFILLED: 'Arrived',
+  CANCELLED: 'Cancelled',
+  NO_SHOW: 'No-show'
+};
+
+const emptyForm: ReservationFormData = {
+  parkingCode: '',
+  plateNumber: '',
+  startTime: '',
+  endTime: ''
+};
+
+const Reservations: React.FC = () => {
+  const { user, hasPermission } = useUser();
+  // Staff see every reservation of their parkings, other users only their own
+  const canReadAll = hasPermission('reservation:read');
+  const canManage = hasPermission('reservation:manage');
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [parkings, setParkings] = useState<Parking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<ReservationFormData>(emptyForm);
+  const [statusFilter, setStatusFilter] = useState('');
+
+  const fetchReservations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await authorizedAPI.get(`/reservations`, {
+        params: statusFilter ? { status: statusFilter } : undefined
+      });
+      setReservations(response.data.data);
+    } catch (error) {
+      console.error('Error fetching reservations:', error);
+      toast.error('Failed to load reservations');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchReservations();
+  }, [fetchReservations]);
+
+  useEffect(() => {
+    fetchParkings();
+  }, []);
+
+  const fetchParkings = async () => {
+    try {
+      const response = await authorizedAPI.get(`/parkings`);
+      setParkings(response.data.data);
+    } catch (error) {
+      console.error('Error fetching parkings:', error);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      // datetime-local values are in the browser's time zone
+      const response = await authorizedAPI.post(`/reservations`, {
+        ...formData,
+        startTime: new Date(formData.startTime).toISOString(),
+        endTime: new Date(formData.endTime).toISOString()
+      });
+      toast.success(`Reservation ${response.data.data.code} booked`);
+      resetForm();
+      fetchReservations();
+    } catch (error: any) {
+      console.error('Error creating reservation:', error);
+      toast.error(error.response?.data?.message || 'Failed to book reservation');
+    }
+  };
+
+  const handleCancel = async (reservation: Reservation) => {
+    if (!window.confirm(`Cancel reservation ${reservation.code}?`)) {
+      return;
+    }
+
+    try {
+      await authorizedAPI.post(`/reservations/${reservation.id}/cancel`);
+      toast.success('Reservation cancelled');
+      fetchReservations();
+    } catch (error: any) {
+      console.error('Error cancelling reservation:', error);
+      toast.error(error.response?.data?.message || 'Failed to cancel reservation');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setShowForm(false);
+  };
+
+  if (loading && reservations.length === 0) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Bookings</h1>
+          <p className="text-gray-600">
+            {canReadAll ? 'Reservations at your parkings' : 'Reserve a space ahead of your arrival'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(STATUS_LABELS) as ReservationStatus[]).map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="bg-black text-white px-4 py-2 rounded-lg flex items-center"
+          >
+            {showForm ? 'Cancel' : (
+              <>
+                <Plus size={18} className="mr-1" />
+                New Booking
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">Book a Space</h2>
+          <form onSubmit={handleSubmit}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label htmlFor="parkingCode" className="block text-sm font-medium text-gray-700 mb-1">Parking Location</label>
+                <select
+                  id="parkingCode"
+                  name="parkingCode"
+                  value={formData.parkingCode}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                >
+                  <option value="">Select Parking</option>
+                  {parkings.map(parking => (
+                    <option key={parking.id} value={parking.code}>{parking.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="plateNumber" className="block text-sm font-medium text-gray-700 mb-1">Plate Number</label>
+                <input
+                  type="text"
+                  id="plateNumber"
+                  name="plateNumber"
+                  value={formData.plateNumber}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="startTime" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="datetime-local"
+                  id="startTime"
+                  name="startTime"
+                  value={formData.startTime}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="endTime" className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+                <input
+                  type="datetime-local"
+                  id="endTime"
+                  name="endTime"
+                  value={formData.endTime}
+                  min={formData.startTime || undefined}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Book
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parking</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plate Number</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Until</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reservations.length > 0 ? (
+                reservations.map((reservation) => (
+                  <tr key={reservation.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono font-medium text-gray-900">{reservation.code}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{reservation.parking.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{reservation.plateNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(reservation.startTime), 'PPp')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(reservation.endTime), 'PPp')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[reservation.status]}`}>
+                        {STATUS_LABELS[reservation.status]}
+                      </span>
+                      {reservation.noShowFee && (
+                        <span className="ml-2 text-xs text-red-700">Fee ${reservation.noShowFee}</span>
+                      )}
+                      {reservation.status === 'BOOKED' && reservation.capacityHoldFailedAt && (
+                        <span
+                          className="ml-2 text-xs text-amber-700"
+                          title={`The parking was full when the reservation started (${format(new Date(reservation.capacityHoldFailedAt), 'PPp')})`}
+                        >
+                          No space held
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {reservation.status === 'BOOKED' && (reservation.userId === user?.id || canManage) && (
+                        <button
+                          onClick={() => handleCancel(reservation)}
+                          className="text-red-600 hover:text-red-900 inline-flex items-center"
+                        >
+                          <XCircle size={16} className="mr-1" />
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No reservations found
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Reservations;
@@ -0,0 +1,98 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { Car } from 'lucide-react';
+import { unauthorizedAPI } from '../constants/api';
+
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await unauthorizedAPI.post(`/auth/reset-password`, { token, newPassword });
+      toast.success('Password reset successfully! Please login.');
+      navigate('/login');
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      toast.error(error.response?.data?.message || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-8">
+      <div className="w-full max-w-md bg-white shadow-md rounded-lg p-6">
+        <div className="flex justify-center mb-4">
+          <Car className="h-10 w-10" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-800 text-center">Choose a new password</h2>
+
+        {!token ? (
+          <p className="text-gray-600 text-center mt-4">
+            This password reset link is invalid. Please request a new one.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 mt-6">
+            <div>
+              <label className="text-sm font-medium text-gray-700">New Password</label>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+                minLength={6}
+                className="w-full px-4 py-2 mt-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-gray-700">Confirm Password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+                minLength={6}
+                className="w-full px-4 py-2 mt-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition disabled:bg-gray-400"
+            >
+              {loading ? 'Resetting...' : 'Reset Password'}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center mt-4">
+          <Link to={token ? '/login' : '/forgot-password'} className="text-sm text-blue-600 hover:underline">
+            {token ? 'Back to Sign In' : 'Request a new link'}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
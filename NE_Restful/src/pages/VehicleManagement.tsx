@@ -1,4 +1,6 @@
-import React, { useState, useEffect } from 'react';
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 
 import { toast } from 'react-hot-toast';
 import { useUser } from '../context/UserContext';
@@ -14,6 +16,12 @@ interface Parking {
   chargingFeePerHour: number;
 }
 
+interface ParkingSpace {
+  number: string;
+  level: string | null;
+  zone: string | null;
+}
+
 interface Vehicle {
   id: string;
   plateNumber: string;
@@ -21,27 +29,118 @@ interface Vehicle {
   parkingName: string;
   entryDateTime: string;
   exitDateTime: string | null;
+  chargedAmount?: string | null;
   hourlyFee: number;
+  space?: ParkingSpace | null;
+}
+
+type PaymentMethod = 'CASH' | 'CARD' | 'MOBILE_MONEY' | 'WALLET';
+
+const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'CASH', label: 'Cash' },
+  { value: 'CARD', label: 'Card' },
+  { value: 'MOBILE_MONEY', label: 'Mobile money' },
+  { value: 'WALLET', label: 'Wallet' }
+];
+
+const paymentMethodLabel = (method: PaymentMethod) =>
+  PAYMENT_METHODS.find(option => option.value === method)?.label ?? method;
+
+interface PaymentFormData {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
+}
+
+interface BillLine {
+  description: string;
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+interface Payment {
+  id: string;
+  method: PaymentMethod;
+  amount: number;
+  status: string;
+  reference: string | null;
+}
+
+// Itemised bill returned by the exit, priced by the parking's tariff on the server
+interface Bill {
+  billNumber: string;
+  plateNumber: string;
+  parkingName: string;
+  spaceNumber: string | null;
+  entryDateTime: string;
+  exitDateTime: string;
+  durationInHours: number;
+  tariffName: string | null;
+  lines: BillLine[];
+  totalAmount: string;
+  payments: Payment[];
+  amountPaid: number;
+  balanceDue: number;
+  exitOverrideReason: string | null;
 }
 
+// Amount due for a parked vehicle, priced by the server exactly like its exit would be
+interface Quote {
+  entryId: string;
+  durationMinutes: number;
+  billableHours: number;
+  tariffName: string;
+  lines: BillLine[];
+  total: number;
+  amountPaid: number;
+  amountDue: number;
+}
+
+const QUOTE_REFRESH_MS = 60 * 1000;
+
 interface VehicleEntryFormData {
   plateNumber: string;
   parkingCode: string;
+  spaceType: string;
+  reservationCode: string;
 }
 
+const SPACE_TYPES = [
+  { value: 'STANDARD', label: 'Standard' },
+  { value: 'EV', label: 'Electric vehicle' },
+  { value: 'DISABLED', label: 'Disabled' },
+  { value: 'MOTORCYCLE', label: 'Motorcycle' }
+];
+
+// e.g. "Level 2 · Zone B · Bay 14"
+const formatSpace = (space: ParkingSpace) =>
+  [space.level && `Level ${space.level}`, space.zone && `Zone ${space.zone}`, `Bay ${space.number}`]
+    .filter(Boolean)
+    .join(' · ');
+
 const VehicleManagement: React.FC = () => {
-  const { user } = useUser();
+  const { hasPermission } = useUser();
+  // Entry highlighted by links from the audit log
+  const [searchParams] = useSearchParams();
+  const highlightedEntryId = searchParams.get('entry');
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [parkings, setParkings] = useState<Parking[]>([]);
   const [loading, setLoading] = useState(true);
   const [showEntryForm, setShowEntryForm] = useState(false);
   const [formData, setFormData] = useState<VehicleEntryFormData>({
     plateNumber: '',
-    parkingCode: ''
+    parkingCode: '',
+    spaceType: 'STANDARD',
+    reservationCode: ''
   });
   const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
   const [showTicket, setShowTicket] = useState(false);
-  const [showBill, setShowBill] = useState(false);
+  const [bill, setBill] = useState<Bill | null>(null);
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [exitCandidate, setExitCandidate] = useState<{ vehicle: Vehicle; quote: Quote } | null>(null);
+  const [paymentForm, setPaymentForm] = useState<PaymentFormData>({ method: 'CASH', amount: '', reference: '' });
+  const [overrideReason, setOverrideReason] = useState('');
 
   useEffect(() => {
     fetchVehicles();
@@ -61,6 +160,25 @@ const VehicleManagement: React.FC = () => {
     }
   };
 
+  // The quotes of all parked vehicles come in one request, whatever their number
+  const fetchQuotes = useCallback(async () => {
+    try {
+      const response = await authorizedAPI.get(`/entries/active/quotes`);
+      const activeQuotes: Quote[] = response.data.data;
+      setQuotes(Object.fromEntries(activeQuotes.map(quote => [quote.entryId, quote])));
+    } catch (error) {
+      console.error('Error fetching quotes:', error);
+    }
+  }, []);
+
+  // Amounts of parked vehicles grow with time, so their quotes are refreshed every minute,
+  // and straight away when the list of vehicles changes
+  useEffect(() => {
+    fetchQuotes();
+    const interval = setInterval(fetchQuotes, QUOTE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [vehicles, fetchQuotes]);
+
   const fetchParkings = async () => {
     try {
       const response = await authorizedAPI.get(`/parkings`);      
@@ -79,71 +197,108 @@ const VehicleManagement: React.FC = () => {
     e.preventDefault();
     
     try {
-      const response = await authorizedAPI.post(`/entries`, formData);
+      const { reservationCode, ...entryData } = formData;
+      const response = await authorizedAPI.post(`/entries`, reservationCode ? formData : entryData);
+      const { entry, ticket, plateAlert } = response.data.data;
       toast.success('Vehicle entry recorded successfully');
-      setSelectedVehicle(response.data);
+      // The plate was still parked at another parking; the entry was let in and flagged for review
+      if (plateAlert) {
+        toast(
+          plateAlert.action === 'AUTO_CLOSED'
+            ? 'This plate was still parked at another parking, that entry was closed and flagged for review'
+            : 'This plate is still parked at another parking, the entry was flagged for review',
+          { icon: '⚠️', duration: 6000 }
+        );
+      }
+      setSelectedVehicle({
+        ...entry,
+        parkingName: ticket.parkingName,
+        hourlyFee: Number(ticket.hourlyFee),
+        space: ticket.spaceNumber
+          ? { number: ticket.spaceNumber, level: ticket.spaceLevel, zone: ticket.spaceZone }
+          : null
+      });
       setShowTicket(true);
       resetForm();
       fetchVehicles();
       fetchParkings(); // Refresh parking data to update available spaces
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error recording vehicle entry:', error);
-      toast.error('Failed to record vehicle entry');
+      toast.error(error.response?.data?.message || 'Failed to record vehicle entry');
+    }
+  };
+
+  // The exit is confirmed against a fresh quote of what the driver owes
+  const confirmExit = async (vehicle: Vehicle) => {
+    try {
+      const response = await authorizedAPI.get(`/entries/${vehicle.id}/quote`);
+      const quote: Quote = response.data.data;
+      setExitCandidate({ vehicle, quote });
+      setPaymentForm({ method: 'CASH', amount: quote.amountDue.toFixed(2), reference: '' });
+      setOverrideReason('');
+    } catch (error: any) {
+      console.error('Error fetching quote:', error);
+      toast.error(error.response?.data?.message || 'Failed to calculate the amount due');
+    }
+  };
+
+  // Payments can be split across methods, the dialog's quote shows what is left after each one
+  const handlePayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!exitCandidate) return;
+
+    try {
+      await authorizedAPI.post(`/entries/${exitCandidate.vehicle.id}/payments`, {
+        method: paymentForm.method,
+        amount: Number(paymentForm.amount),
+        reference: paymentForm.reference || undefined
+      });
+      toast.success('Payment recorded');
+      confirmExit(exitCandidate.vehicle);
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      toast.error(error.response?.data?.message || 'Failed to record payment');
     }
   };
 
   const handleExit = async (id: string) => {
+    setExitCandidate(null);
+
     try {
-      const response = await authorizedAPI.put(`/entries/${id}/exit`);
+      // An unpaid balance is only let through with a reason, by staff allowed to waive it
+      const response = await authorizedAPI.put(`/entries/${id}/exit`, overrideReason ? { exitOverrideReason: overrideReason } : {});
       toast.success('Vehicle exit recorded successfully');
-      setSelectedVehicle(response.data);
-      setShowBill(true);
+      setBill(response.data.data.bill);
       fetchVehicles();
       fetchParkings(); // Refresh parking data to update available spaces
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error recording vehicle exit:', error);
-      toast.error('Failed to record vehicle exit');
+      toast.error(error.response?.data?.message || 'Failed to record vehicle exit');
+    }
+  };
+
+  // Bills of closed entries are rebuilt by the server from the charge stored at exit
+  const showEntryBill = async (id: string) => {
+    try {
+      const response = await authorizedAPI.get(`/entries/${id}/bill`);
+      setBill(response.data.data);
+    } catch (error: any) {
+      console.error('Error fetching bill:', error);
+      toast.error(error.response?.data?.message || 'Failed to load bill');
     }
   };
 
   const resetForm = () => {
     setFormData({
       plateNumber: '',
-      parkingCode: ''
+      parkingCode: '',
+      spaceType: 'STANDARD',
+      reservationCode: ''
     });
     setShowEntryForm(false);
   };
 
 
- function calculateParkingFee(
-  hourlyFee: number,
-  entryDateTime: string | Date,
-  exitDateTime?: string | Date | null
-): number {
-  // Handle invalid inputs
-  if (!hourlyFee || hourlyFee <= 0 || !entryDateTime) {
-    return 0;
-  }
-
-  // Convert to Date objects
-  const entry = new Date(entryDateTime);
-  const exit = exitDateTime ? new Date(exitDateTime) : new Date();
-
-  // Validate dates
-  if (isNaN(entry.getTime()) || isNaN(exit.getTime()) || exit < entry) {
-    return 0;
-  }
-
-  // Calculate duration in minutes
-  const durationMinutes = (exit.getTime() - entry.getTime()) / (1000 * 60);
-
-  // Round up to the nearest hour (e.g., 5 mins → 1 hour, 61 mins → 2 hours)
-  const hoursCharged = Math.ceil(durationMinutes / 60);
-
-  // Calculate fee
-  return hoursCharged * hourlyFee;
-}
-
   const printTicket = () => {
     const printWindow = window.open('', '_blank');
     if (printWindow) {
@@ -181,6 +336,11 @@ const VehicleManagement: React.FC = () => {
                     <td><strong>Parking:</strong></td>
                     <td>${selectedVehicle?.parkingName}</td>
                   </tr>
+                  ${selectedVehicle?.space ? `
+                  <tr>
+                    <td><strong>Space:</strong></td>
+                    <td>${formatSpace(selectedVehicle.space)}</td>
+                  </tr>` : ''}
                   <tr>
                     <td><strong>Entry Time:</strong></td>
                     <td>${format(new Date(selectedVehicle?.entryDateTime || ''), 'PPpp')}</td>
@@ -207,10 +367,10 @@ const VehicleManagement: React.FC = () => {
   };
 
   const printBill = () => {
-    if (!selectedVehicle || !selectedVehicle.exitDateTime) return;
+    if (!bill) return;
     
-    const entryTime = new Date(selectedVehicle.entryDateTime);
-    const exitTime = new Date(selectedVehicle.exitDateTime);
+    const entryTime = new Date(bill.entryDateTime);
+    const exitTime = new Date(bill.exitDateTime);
     const duration = formatDistanceStrict(exitTime, entryTime);
     
     const printWindow = window.open('', '_blank');
@@ -240,16 +400,21 @@ const VehicleManagement: React.FC = () => {
                 <table>
                   <tr>
                     <td><strong>Bill #:</strong></td>
-                    <td>${selectedVehicle.id.substring(0, 8)}</td>
+                    <td>${bill.billNumber.substring(0, 8)}</td>
                   </tr>
                   <tr>
                     <td><strong>Plate Number:</strong></td>
-                    <td>${selectedVehicle.plateNumber}</td>
+                    <td>${bill.plateNumber}</td>
                   </tr>
                   <tr>
                     <td><strong>Parking:</strong></td>
-                    <td>${selectedVehicle.parkingName}</td>
+                    <td>${bill.parkingName}</td>
                   </tr>
+                  ${bill.spaceNumber ? `
+                  <tr>
+                    <td><strong>Space:</strong></td>
+                    <td>${bill.spaceNumber}</td>
+                  </tr>` : ''}
                   <tr>
                     <td><strong>Entry Time:</strong></td>
                     <td>${format(entryTime, 'PPpp')}</td>
@@ -264,8 +429,36 @@ const VehicleManagement: React.FC = () => {
                   </tr>
                 </table>
               </div>
+              <div class="details">
+                <p><strong>${bill.tariffName ?? 'Charges'}</strong></p>
+                <table>
+                  ${bill.lines.map(line => `
+                  <tr>
+                    <td>${line.description}${line.hours > 0 ? ` (${line.hours} h)` : ''}</td>
+                    <td style="text-align: right">$${line.amount.toFixed(2)}</td>
+                  </tr>`).join('')}
+                </table>
+              </div>
               <div class="amount">
-                TOTAL: $${selectedVehicle.hourlyFee}
+                TOTAL: $${Number(bill.totalAmount).toFixed(2)}
+              </div>
+              <div class="details">
+                <p><strong>Payments</strong></p>
+                <table>
+                  ${bill.payments.map(payment => `
+                  <tr>
+                    <td>${paymentMethodLabel(payment.method)}${payment.reference ? ` (${payment.reference})` : ''}${payment.status !== 'COMPLETED' ? ` - ${payment.status.toLowerCase()}` : ''}</td>
+                    <td style="text-align: right">$${payment.amount.toFixed(2)}</td>
+                  </tr>`).join('')}
+                  <tr>
+                    <td><strong>Paid</strong></td>
+                    <td style="text-align: right">$${bill.amountPaid.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td><strong>Balance due</strong></td>
+                    <td style="text-align: right">$${bill.balanceDue.toFixed(2)}</td>
+                  </tr>
+                </table>
               </div>
               <div class="footer">
                 <p>Thank you for choosing XWYZ Parking!</p>
@@ -278,7 +471,7 @@ const VehicleManagement: React.FC = () => {
       printWindow.document.close();
       printWindow.print();
     }
-    setShowBill(false);
+    setBill(null);
   };
 
   if (loading && vehicles.length === 0) {
@@ -296,17 +489,19 @@ const VehicleManagement: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-800">Vehicle Management</h1>
           <p className="text-gray-600">Record vehicle entries and exits</p>
         </div>
-        <button
-          onClick={() => setShowEntryForm(!showEntryForm)}
-          className="bg-black text-white px-4 py-2 rounded-lg flex items-center"
-        >
-          {showEntryForm ? 'Cancel' : (
-            <>
-              <Plus size={18} className="mr-1" />
-              New Entry
-            </>
-          )}
-        </button>
+        {hasPermission('entry:create') && (
+          <button
+            onClick={() => setShowEntryForm(!showEntryForm)}
+            className="bg-black text-white px-4 py-2 rounded-lg flex items-center"
+          >
+            {showEntryForm ? 'Cancel' : (
+              <>
+                <Plus size={18} className="mr-1" />
+                New Entry
+              </>
+            )}
+          </button>
+        )}
       </div>
 
       {showEntryForm && (
@@ -349,6 +544,33 @@ const VehicleManagement: React.FC = () => {
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label htmlFor="spaceType" className="block text-sm font-medium text-gray-700 mb-1">Space Type</label>
+                <select
+                  id="spaceType"
+                  name="spaceType"
+                  value={formData.spaceType}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {SPACE_TYPES.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="reservationCode" className="block text-sm font-medium text-gray-700 mb-1">Reservation Code (optional)</label>
+                <input
+                  type="text"
+                  id="reservationCode"
+                  name="reservationCode"
+                  value={formData.reservationCode}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border rounded-lg uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
             </div>
             
             <div className="flex justify-end space-x-3">
@@ -385,6 +607,13 @@ const VehicleManagement: React.FC = () => {
                 <div className="text-gray-600">Parking:</div>
                 <div>{selectedVehicle.parkingName}</div>
                 
+                {selectedVehicle.space && (
+                  <>
+                    <div className="text-gray-600">Space:</div>
+                    <div className="font-semibold">{formatSpace(selectedVehicle.space)}</div>
+                  </>
+                )}
+                
                 <div className="text-gray-600">Entry Time:</div>
                 <div>{format(new Date(selectedVehicle.entryDateTime), 'PPpp')}</div>
               </div>
@@ -408,40 +637,227 @@ const VehicleManagement: React.FC = () => {
         </div>
       )}
 
-      {showBill && selectedVehicle && selectedVehicle.exitDateTime && (
+      {exitCandidate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h2 className="text-xl font-bold mb-4">Confirm Exit</h2>
+            <div className="border rounded-lg p-4 mb-4">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="text-gray-600">Plate Number:</div>
+                <div>{exitCandidate.vehicle.plateNumber}</div>
+
+                <div className="text-gray-600">Entry Time:</div>
+                <div>{format(new Date(exitCandidate.vehicle.entryDateTime), 'PPpp')}</div>
+
+                <div className="text-gray-600">Duration:</div>
+                <div>{formatDistanceStrict(0, exitCandidate.quote.durationMinutes * 60 * 1000)}</div>
+
+                <div className="text-gray-600">Billable Hours:</div>
+                <div>{exitCandidate.quote.billableHours}</div>
+              </div>
+
+              <div className="mt-4 pt-4 border-t">
+                <div className="text-sm font-medium text-gray-700 mb-2">{exitCandidate.quote.tariffName}</div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {exitCandidate.quote.lines.map((line, index) => (
+                      <tr key={index}>
+                        <td className="py-1 text-gray-600">
+                          {line.description}
+                          {line.hours > 0 && <span className="text-gray-400"> ({line.hours} h × ${line.rate.toFixed(2)})</span>}
+                        </td>
+                        <td className={`py-1 text-right ${line.amount < 0 ? 'text-green-700' : ''}`}>
+                          ${line.amount.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 mt-4 pt-4 border-t">
+                <div className="text-gray-600">Total:</div>
+                <div>${exitCandidate.quote.total.toFixed(2)}</div>
+
+                <div className="text-gray-600">Paid:</div>
+                <div>${exitCandidate.quote.amountPaid.toFixed(2)}</div>
+
+                <div className="text-gray-600 font-bold">Amount Due:</div>
+                <div className="font-bold">${exitCandidate.quote.amountDue.toFixed(2)}</div>
+              </div>
+            </div>
+
+            {exitCandidate.quote.amountDue > 0 && hasPermission('payment:collect') && (
+              <form onSubmit={handlePayment} className="border rounded-lg p-4 mb-4">
+                <div className="text-sm font-medium text-gray-700 mb-2">Take Payment</div>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <select
+                    value={paymentForm.method}
+                    onChange={(e) => setPaymentForm(prev => ({ ...prev, method: e.target.value as PaymentMethod }))}
+                    className="px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {PAYMENT_METHODS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    max={exitCandidate.quote.amountDue}
+                    value={paymentForm.amount}
+                    onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))}
+                    className="px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <input
+                  type="text"
+                  placeholder="Reference (optional)"
+                  value={paymentForm.reference}
+                  onChange={(e) => setPaymentForm(prev => ({ ...prev, reference: e.target.value }))}
+                  className="w-full px-3 py-2 border rounded-lg mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Record Payment
+                </button>
+              </form>
+            )}
+
+            {exitCandidate.quote.amountDue > 0 && hasPermission('payment:override') && (
+              <div className="mb-4">
+                <label htmlFor="overrideReason" className="block text-sm font-medium text-gray-700 mb-1">
+                  Override reason (lets the vehicle out unpaid)
+                </label>
+                <input
+                  type="text"
+                  id="overrideReason"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setExitCandidate(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleExit(exitCandidate.vehicle.id)}
+                disabled={exitCandidate.quote.amountDue > 0 && !overrideReason.trim()}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <LogOut size={18} className="mr-1" />
+                Record Exit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {bill && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full">
             <h2 className="text-xl font-bold mb-4">Parking Bill</h2>
             <div className="border rounded-lg p-4 mb-4">
               <div className="grid grid-cols-2 gap-2">
                 <div className="text-gray-600">Bill #:</div>
-                <div>{selectedVehicle.id.substring(0, 8)}</div>
+                <div>{bill.billNumber.substring(0, 8)}</div>
                 
                 <div className="text-gray-600">Plate Number:</div>
-                <div>{selectedVehicle.plateNumber}</div>
+                <div>{bill.plateNumber}</div>
                 
                 <div className="text-gray-600">Parking:</div>
-                <div>{selectedVehicle.parkingName}</div>
+                <div>{bill.parkingName}</div>
+                
+                {bill.spaceNumber && (
+                  <>
+                    <div className="text-gray-600">Space:</div>
+                    <div>{bill.spaceNumber}</div>
+                  </>
+                )}
                 
                 <div className="text-gray-600">Entry Time:</div>
-                <div>{format(new Date(selectedVehicle.entryDateTime), 'PPpp')}</div>
+                <div>{format(new Date(bill.entryDateTime), 'PPpp')}</div>
                 
                 <div className="text-gray-600">Exit Time:</div>
-                <div>{format(new Date(selectedVehicle.exitDateTime), 'PPpp')}</div>
+                <div>{format(new Date(bill.exitDateTime), 'PPpp')}</div>
                 
                 <div className="text-gray-600">Duration:</div>
                 <div>{formatDistanceStrict(
-                  new Date(selectedVehicle.exitDateTime),
-                  new Date(selectedVehicle.entryDateTime)
+                  new Date(bill.exitDateTime),
+                  new Date(bill.entryDateTime)
                 )}</div>
-                
+              </div>
+
+              {bill.lines.length > 0 && (
+                <div className="mt-4 pt-4 border-t">
+                  {bill.tariffName && <div className="text-sm font-medium text-gray-700 mb-2">{bill.tariffName}</div>}
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {bill.lines.map((line, index) => (
+                        <tr key={index}>
+                          <td className="py-1 text-gray-600">
+                            {line.description}
+                            {line.hours > 0 && <span className="text-gray-400"> ({line.hours} h × ${line.rate.toFixed(2)})</span>}
+                          </td>
+                          <td className={`py-1 text-right ${line.amount < 0 ? 'text-green-700' : ''}`}>
+                            ${line.amount.toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2 mt-4 pt-4 border-t">
                 <div className="text-gray-600 font-bold">Total Amount:</div>
-                <div className="font-bold">${calculateParkingFee(selectedVehicle.hourlyFee , selectedVehicle.entryDateTime, selectedVehicle.exitDateTime)}</div>
+                <div className="font-bold">${Number(bill.totalAmount).toFixed(2)}</div>
               </div>
+
+              {bill.payments.length > 0 && (
+                <div className="mt-4 pt-4 border-t">
+                  <div className="text-sm font-medium text-gray-700 mb-2">Payments</div>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {bill.payments.map(payment => (
+                        <tr key={payment.id}>
+                          <td className="py-1 text-gray-600">
+                            {paymentMethodLabel(payment.method)}
+                            {payment.reference && <span className="text-gray-400"> ({payment.reference})</span>}
+                            {payment.status !== 'COMPLETED' && <span className="text-gray-400"> · {payment.status.toLowerCase()}</span>}
+                          </td>
+                          <td className="py-1 text-right">${payment.amount.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2 mt-4 pt-4 border-t">
+                <div className="text-gray-600">Paid:</div>
+                <div>${bill.amountPaid.toFixed(2)}</div>
+
+                <div className="text-gray-600 font-bold">Balance Due:</div>
+                <div className={`font-bold ${bill.balanceDue > 0 ? 'text-red-700' : ''}`}>${bill.balanceDue.toFixed(2)}</div>
+              </div>
+
+              {bill.exitOverrideReason && (
+                <div className="mt-2 text-sm text-red-700">Exit allowed unpaid: {bill.exitOverrideReason}</div>
+              )}
             </div>
             <div className="flex justify-end space-x-3">
               <button
-                onClick={() => setShowBill(false)}
+                onClick={() => setBill(null)}
                 className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
               >
                 Close
@@ -465,6 +881,7 @@ const VehicleManagement: React.FC = () => {
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plate Number</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parking</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Space</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entry Time</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exit Time</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
@@ -475,9 +892,12 @@ const VehicleManagement: React.FC = () => {
             <tbody className="bg-white divide-y divide-gray-200">
               {vehicles.length > 0 ? (
                 vehicles.map((vehicle) => (
-                  <tr key={vehicle.id}>
+                  <tr key={vehicle.id} className={vehicle.id === highlightedEntryId ? 'bg-yellow-50' : undefined}>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{vehicle.plateNumber}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{vehicle.parkingName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {vehicle.space ? formatSpace(vehicle.space) : '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {format(new Date(vehicle.entryDateTime), 'PPpp')}
                     </td>
@@ -496,12 +916,18 @@ const VehicleManagement: React.FC = () => {
                       )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {vehicle.hourlyFee ? `$${vehicle.hourlyFee}` : '-'}
+                      {vehicle.exitDateTime ? (
+                        vehicle.chargedAmount ? `$${Number(vehicle.chargedAmount).toFixed(2)}` : '-'
+                      ) : quotes[vehicle.id] ? (
+                        <span title="Amount due if the vehicle left now">
+                          ${quotes[vehicle.id].amountDue.toFixed(2)} <span className="text-xs text-gray-400">so far</span>
+                        </span>
+                      ) : '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       {!vehicle.exitDateTime ? (
-                        <button
-                          onClick={() => handleExit(vehicle.id)}
+                        hasPermission('entry:exit') && <button
+                          onClick={() => confirmExit(vehicle)}
                           className="text-green-600 hover:text-green-900 flex items-center justify-end"
                         >
                           <LogOut size={18} className="mr-1" />
@@ -509,10 +935,7 @@ const VehicleManagement: React.FC = () => {
                         </button>
                       ) : (
                         <button
-                          onClick={() => {
-                            setSelectedVehicle(vehicle);
-                            setShowBill(true);
-                          }}
+                          onClick={() => showEntryBill(vehicle.id)}
                           className="text-blue-600 hover:text-blue-900 flex items-center justify-end"
                         >
                           <Printer size={18} className="mr-1" />
@@ -524,7 +947,7 @@ const VehicleManagement: React.FC = () => {
                 ))
               ) : (
                 <tr>
-                  <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
                     No vehicle entries found
                   </td>
                 </tr>
@@ -0,0 +1,103 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { Car } from 'lucide-react';
+import { unauthorizedAPI } from '../constants/api';
+
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState('');
+  const [email, setEmail] = useState('');
+  const [resending, setResending] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const verify = async () => {
+      try {
+        const response = await unauthorizedAPI.post(`/auth/verify-email`, { token });
+        setMessage(response.data.message);
+        setStatus('verified');
+      } catch (error: any) {
+        console.error('Verify email error:', error);
+        setMessage(error.response?.data?.message || 'Failed to verify email address');
+        setStatus('failed');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setResending(true);
+
+    try {
+      const response = await unauthorizedAPI.post(`/auth/resend-verification`, { email });
+      toast.success(response.data.message);
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+      toast.error(error.response?.data?.message || 'Failed to resend verification email');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-8">
+      <div className="w-full max-w-md bg-white shadow-md rounded-lg p-6">
+        <div className="flex justify-center mb-4">
+          <Car className="h-10 w-10" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-800 text-center">Email Verification</h2>
+
+        {status === 'verifying' && (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        )}
+
+        {status === 'verified' && (
+          <>
+            <p className="text-gray-600 text-center mt-4">{message}</p>
+            <div className="text-center mt-4">
+              <Link to="/login" className="text-blue-600 font-medium hover:underline">
+                Continue to Sign In
+              </Link>
+            </div>
+          </>
+        )}
+
+        {status === 'failed' && (
+          <>
+            <p className="text-gray-600 text-center mt-4 mb-6">
+              {message || 'This verification link is invalid.'} Enter your email to receive a new link.
+            </p>
+            <form onSubmit={handleResend} className="space-y-4">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email Address"
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <button
+                type="submit"
+                disabled={resending}
+                className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2 rounded-lg transition disabled:bg-gray-400"
+              >
+                {resending ? 'Sending...' : 'Resend Verification Email'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
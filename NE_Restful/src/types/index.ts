@@ -4,7 +4,7 @@ export interface User {
   firstname: string;
   lastname: string;
   email: string;
-  role: 'USER' | 'ADMIN';
+  role: 'ADMIN' | 'MANAGER' | 'ATTENDANT' | 'AUDITOR' | 'USER';
 }
 
 export interface LoginCredentials {
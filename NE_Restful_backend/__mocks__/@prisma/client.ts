@@ -0,0 +1,10 @@
+// Every `new PrismaClient()` in the code under test gets the shared in-memory stand-in,
+// the rest of the generated client (enums, error classes, Prisma namespace) is the real one
+import { prismaMock } from '../../src/test/prismaMock';
+
+const actual = jest.requireActual('@prisma/client');
+
+module.exports = {
+  ...actual,
+  PrismaClient: jest.fn(() => prismaMock)
+};
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "lastTotpStep" INTEGER;
+
+-- CreateTable
+CREATE TABLE "used_challenge_tokens" (
+    "jti" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "used_challenge_tokens_pkey" PRIMARY KEY ("jti")
+);
+
+-- CreateIndex
+CREATE INDEX "used_challenge_tokens_expiresAt_idx" ON "used_challenge_tokens"("expiresAt");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastActiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing refresh token families become sessions
+INSERT INTO "sessions" ("id", "userId", "createdAt", "lastActiveAt", "revokedAt")
+SELECT "familyId",
+       MIN("userId"),
+       MIN("createdAt"),
+       MAX("createdAt"),
+       CASE WHEN BOOL_AND("revokedAt" IS NOT NULL) THEN MAX("revokedAt") END
+FROM "refresh_tokens"
+GROUP BY "familyId";
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" RENAME COLUMN "familyId" TO "sessionId";
+
+-- RenameIndex
+ALTER INDEX "refresh_tokens_familyId_idx" RENAME TO "refresh_tokens_sessionId_idx";
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_idx" ON "sessions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Log" ADD COLUMN     "apiKeyId" TEXT,
+ADD COLUMN     "changes" JSONB,
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "requestId" TEXT,
+ADD COLUMN     "targetId" TEXT,
+ADD COLUMN     "targetType" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Log_userId_idx" ON "Log"("userId");
+
+-- CreateIndex
+CREATE INDEX "Log_action_idx" ON "Log"("action");
+
+-- CreateIndex
+CREATE INDEX "Log_targetType_targetId_idx" ON "Log"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "Log_createdAt_idx" ON "Log"("createdAt");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "userId" TEXT;
+
+-- Existing stays belong to the user with the plate among their vehicles, when exactly one user has it
+UPDATE "entries" e
+SET "userId" = v."userId"
+FROM "vehicles" v
+WHERE UPPER(e."plateNumber") = v."plateNumber"
+  AND (SELECT COUNT(*) FROM "vehicles" o WHERE o."plateNumber" = v."plateNumber") = 1;
+
+-- CreateIndex
+CREATE INDEX "entries_userId_idx" ON "entries"("userId");
+
+-- AddForeignKey
+ALTER TABLE "entries" ADD CONSTRAINT "entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "parkings" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deletedAt" TIMESTAMP(3);
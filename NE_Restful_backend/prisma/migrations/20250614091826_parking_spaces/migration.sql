@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "SpaceType" AS ENUM ('STANDARD', 'EV', 'DISABLED', 'MOTORCYCLE');
+
+-- CreateEnum
+CREATE TYPE "SpaceStatus" AS ENUM ('AVAILABLE', 'OCCUPIED', 'OUT_OF_SERVICE');
+
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "spaceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "parking_spaces" (
+    "id" TEXT NOT NULL,
+    "parkingCode" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "level" TEXT,
+    "zone" TEXT,
+    "type" "SpaceType" NOT NULL DEFAULT 'STANDARD',
+    "status" "SpaceStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "parking_spaces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "parking_spaces_parkingCode_type_status_idx" ON "parking_spaces"("parkingCode", "type", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "parking_spaces_parkingCode_number_key" ON "parking_spaces"("parkingCode", "number");
+
+-- AddForeignKey
+ALTER TABLE "parking_spaces" ADD CONSTRAINT "parking_spaces_parkingCode_fkey" FOREIGN KEY ("parkingCode") REFERENCES "parkings"("code") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entries" ADD CONSTRAINT "entries_spaceId_fkey" FOREIGN KEY ("spaceId") REFERENCES "parking_spaces"("id") ON DELETE SET NULL ON UPDATE CASCADE;
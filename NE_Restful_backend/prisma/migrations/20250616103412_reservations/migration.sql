@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('BOOKED', 'FULFILLED', 'CANCELLED', 'NO_SHOW');
+
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "reservationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "reservations" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "userId" TEXT,
+    "parkingCode" TEXT NOT NULL,
+    "plateNumber" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'BOOKED',
+    "capacityHeld" BOOLEAN NOT NULL DEFAULT false,
+    "noShowFee" DECIMAL(10,2),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reservations_code_key" ON "reservations"("code");
+
+-- CreateIndex
+CREATE INDEX "reservations_parkingCode_status_startTime_idx" ON "reservations"("parkingCode", "status", "startTime");
+
+-- CreateIndex
+CREATE INDEX "reservations_userId_idx" ON "reservations"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entries_reservationId_key" ON "entries"("reservationId");
+
+-- AddForeignKey
+ALTER TABLE "entries" ADD CONSTRAINT "entries_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "reservations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_parkingCode_fkey" FOREIGN KEY ("parkingCode") REFERENCES "parkings"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
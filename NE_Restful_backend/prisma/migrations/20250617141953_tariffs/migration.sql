@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "chargeBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "tariffs" (
+    "id" TEXT NOT NULL,
+    "parkingCode" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "graceMinutes" INTEGER NOT NULL DEFAULT 0,
+    "hourlyRate" DECIMAL(10,2) NOT NULL,
+    "firstHourRate" DECIMAL(10,2),
+    "bands" JSONB,
+    "dailyCap" DECIMAL(10,2),
+    "nightRate" DECIMAL(10,2),
+    "nightStart" TEXT,
+    "nightEnd" TEXT,
+    "weekendRate" DECIMAL(10,2),
+    "holidayRate" DECIMAL(10,2),
+    "holidayCalendar" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tariffs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "holidays" (
+    "id" TEXT NOT NULL,
+    "calendar" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "holidays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tariffs_parkingCode_key" ON "tariffs"("parkingCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "holidays_calendar_date_key" ON "holidays"("calendar", "date");
+
+-- AddForeignKey
+ALTER TABLE "tariffs" ADD CONSTRAINT "tariffs_parkingCode_fkey" FOREIGN KEY ("parkingCode") REFERENCES "parkings"("code") ON DELETE CASCADE ON UPDATE CASCADE;
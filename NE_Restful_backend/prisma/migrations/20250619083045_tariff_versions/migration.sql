@@ -0,0 +1,22 @@
+-- DropIndex
+DROP INDEX "tariffs_parkingCode_key";
+
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "tariffId" TEXT;
+
+-- AlterTable
+ALTER TABLE "tariffs" ADD COLUMN     "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "effectiveTo" TIMESTAMP(3);
+
+-- Existing tariffs have been in force since they were created
+UPDATE "tariffs" SET "effectiveFrom" = "createdAt";
+
+-- Entries already billed under a tariff keep a link to it
+UPDATE "entries" SET "tariffId" = "chargeBreakdown"->>'tariffId'
+WHERE "chargeBreakdown"->>'tariffId' IN (SELECT "id" FROM "tariffs");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tariffs_parkingCode_effectiveFrom_key" ON "tariffs"("parkingCode", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "entries" ADD CONSTRAINT "entries_tariffId_fkey" FOREIGN KEY ("tariffId") REFERENCES "tariffs"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
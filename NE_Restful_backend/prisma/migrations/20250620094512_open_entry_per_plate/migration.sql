@@ -0,0 +1,17 @@
+-- Close duplicates left by concurrent gate requests before enforcing a single open entry per plate
+-- and parking. The latest entry of each plate stays open.
+UPDATE "entries" SET "exitDateTime" = "entryDateTime", "chargedAmount" = 0
+WHERE "exitDateTime" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "entries" AS "newer"
+    WHERE "newer"."plateNumber" = "entries"."plateNumber"
+      AND "newer"."parkingCode" = "entries"."parkingCode"
+      AND "newer"."exitDateTime" IS NULL
+      AND ("newer"."entryDateTime", "newer"."id") > ("entries"."entryDateTime", "entries"."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entries_open_plate_key" ON "entries"("plateNumber", "parkingCode") WHERE "exitDateTime" IS NULL;
+
+-- Counters pushed out of range by the same races
+UPDATE "parkings" SET "availableSpaces" = GREATEST(0, LEAST("availableSpaces", "totalSpaces"));
@@ -0,0 +1,41 @@
+-- The partial unique index on open entries is replaced by a plain one on a column Prisma knows about
+DROP INDEX "entries_open_plate_key";
+
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "openPlateNumber" TEXT;
+
+-- Entries closed by 20250620094512_open_entry_per_plate as duplicates were closed at their entry time,
+-- free and without a bill. They are reported in the audit log for staff to review what they owe.
+INSERT INTO "Log" ("id", "action", "targetType", "targetId", "changes")
+SELECT gen_random_uuid()::text, 'ENTRY_DUPLICATE_CLOSED', 'Entry', "id",
+  jsonb_build_object(
+    'exitDateTime', jsonb_build_object('before', NULL, 'after', to_jsonb("exitDateTime")),
+    'chargedAmount', jsonb_build_object('before', NULL, 'after', to_jsonb("chargedAmount"))
+  )
+FROM "entries"
+WHERE "exitDateTime" = "entryDateTime"
+  AND "chargedAmount" = 0
+  AND "chargeBreakdown" IS NULL;
+
+-- Plates are stored upper-cased, like those of vehicles and reservations
+UPDATE "entries" SET "plateNumber" = UPPER(TRIM("plateNumber")) WHERE "plateNumber" <> UPPER(TRIM("plateNumber"));
+
+-- The latest open entry of each plate and parking takes the plate. Open duplicates that only differed
+-- by case are left open, to be exited and billed as usual, and reported in the audit log for review.
+UPDATE "entries" SET "openPlateNumber" = "plateNumber"
+WHERE "exitDateTime" IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "entries" AS "newer"
+    WHERE "newer"."plateNumber" = "entries"."plateNumber"
+      AND "newer"."parkingCode" = "entries"."parkingCode"
+      AND "newer"."exitDateTime" IS NULL
+      AND ("newer"."entryDateTime", "newer"."id") > ("entries"."entryDateTime", "entries"."id")
+  );
+
+INSERT INTO "Log" ("id", "action", "targetType", "targetId")
+SELECT gen_random_uuid()::text, 'ENTRY_DUPLICATE_OPEN', 'Entry', "id"
+FROM "entries"
+WHERE "exitDateTime" IS NULL AND "openPlateNumber" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entries_open_plate_key" ON "entries"("openPlateNumber", "parkingCode");
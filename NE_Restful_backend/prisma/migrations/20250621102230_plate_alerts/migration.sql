@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "PlateAlertAction" AS ENUM ('REJECTED', 'WARNED', 'AUTO_CLOSED');
+
+-- CreateEnum
+CREATE TYPE "PlateAlertStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "plate_alerts" (
+    "id" TEXT NOT NULL,
+    "plateNumber" TEXT NOT NULL,
+    "parkingCode" TEXT NOT NULL,
+    "conflictingEntryId" TEXT NOT NULL,
+    "entryId" TEXT,
+    "action" "PlateAlertAction" NOT NULL,
+    "status" "PlateAlertStatus" NOT NULL DEFAULT 'OPEN',
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolution" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plate_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "plate_alerts_status_createdAt_idx" ON "plate_alerts"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "plate_alerts_plateNumber_idx" ON "plate_alerts"("plateNumber");
+
+-- AddForeignKey
+ALTER TABLE "plate_alerts" ADD CONSTRAINT "plate_alerts_parkingCode_fkey" FOREIGN KEY ("parkingCode") REFERENCES "parkings"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plate_alerts" ADD CONSTRAINT "plate_alerts_conflictingEntryId_fkey" FOREIGN KEY ("conflictingEntryId") REFERENCES "entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plate_alerts" ADD CONSTRAINT "plate_alerts_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plate_alerts" ADD CONSTRAINT "plate_alerts_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'CARD', 'MOBILE_MONEY', 'WALLET');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "exitOverrideById" TEXT,
+ADD COLUMN     "exitOverrideReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'COMPLETED',
+    "reference" TEXT,
+    "collectedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- Stays closed before payments were recorded were settled at the exit
+INSERT INTO "payments" ("id", "entryId", "method", "amount", "status", "reference", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'CASH', "chargedAmount", 'COMPLETED', 'Recorded before payment tracking', CURRENT_TIMESTAMP
+FROM "entries"
+WHERE "exitDateTime" IS NOT NULL AND "chargedAmount" > 0;
+
+-- CreateIndex
+CREATE INDEX "payments_entryId_idx" ON "payments"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "entries" ADD CONSTRAINT "entries_exitOverrideById_fkey" FOREIGN KEY ("exitOverrideById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_collectedById_fkey" FOREIGN KEY ("collectedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
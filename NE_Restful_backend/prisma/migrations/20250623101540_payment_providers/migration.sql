@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "settledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "providerPaymentId" TEXT,
+ADD COLUMN     "refundedAt" TIMESTAMP(3),
+ADD COLUMN     "reservationId" TEXT,
+ALTER COLUMN "entryId" DROP NOT NULL;
+
+-- Every payment is towards a stay or a reservation
+ALTER TABLE "payments" ADD CONSTRAINT "payments_target_check" CHECK ("entryId" IS NOT NULL OR "reservationId" IS NOT NULL);
+
+-- Closed entries whose completed payments cover their charge are settled as of their exit
+UPDATE "entries" e
+SET "settledAt" = e."exitDateTime"
+WHERE e."exitDateTime" IS NOT NULL
+  AND COALESCE(e."chargedAmount", 0) <= (
+    SELECT COALESCE(SUM(p."amount"), 0)
+    FROM "payments" p
+    WHERE p."entryId" = e."id" AND p."status" = 'COMPLETED'
+  );
+
+-- CreateTable
+CREATE TABLE "payment_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_reservationId_idx" ON "payments"("reservationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_provider_providerPaymentId_key" ON "payments"("provider", "providerPaymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_events_provider_eventId_key" ON "payment_events"("provider", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "reservations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "refundedAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Payments refunded so far were refunded in full
+UPDATE "payments" SET "refundedAmount" = "amount" WHERE "status" = 'REFUNDED';
@@ -17,7 +17,9 @@ async function seed() {
         lastName: 'User',
         email: 'irisarolande25@example.com',
         password: adminPassword,
-        role: 'ADMIN'
+        role: 'ADMIN',
+        emailVerified: true,
+        emailVerifiedAt: new Date()
       }
     });
 
@@ -31,7 +33,9 @@ async function seed() {
         lastName: 'User',
         email: 'user@example.com',
         password: userPassword,
-        role: 'USER'
+        role: 'USER',
+        emailVerified: true,
+        emailVerifiedAt: new Date()
       }
     });
 
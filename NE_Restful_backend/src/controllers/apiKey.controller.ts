@@ -0,0 +1,180 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { generateToken, hashToken } from '../utils/token';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  parkingCodes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+// Returns the first unknown parking code, if any
+const findUnknownParkingCode = async (parkingCodes: string[]): Promise<string | undefined> => {
+  const parkings = await prisma.parking.findMany({
+    where: { code: { in: parkingCodes }, deletedAt: null },
+    select: { code: true }
+  });
+
+  return parkingCodes.find((code) => !parkings.some((parking) => parking.code === code));
+};
+
+export const createApiKey = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { name, scopes, parkingCodes = [], expiresAt } = req.body;
+
+    const unknownCode = await findUnknownParkingCode(parkingCodes);
+    if (unknownCode) {
+      return ServerResponse.notFound(res, `Parking with code '${unknownCode}' not found`);
+    }
+
+    // The key itself is only returned once, in this response
+    const key = `pk_${generateToken(24)}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name,
+        keyHash: hashToken(key),
+        prefix: key.slice(0, 11),
+        scopes,
+        parkingCodes,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+        createdById: req.user.id
+      },
+      select: apiKeySelect
+    });
+
+    await recordAudit(req, { action: 'API_KEY_CREATED', targetType: 'ApiKey', targetId: apiKey.id, after: apiKey });
+
+    return ServerResponse.created(res, { ...apiKey, key }, 'API key created successfully. Store the key now, it will not be shown again');
+  } catch (error) {
+    console.error('Create API key error:', error);
+    return ServerResponse.error(res, 'Failed to create API key');
+  }
+};
+
+export const getAllApiKeys = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return ServerResponse.success(res, apiKeys, 'API keys retrieved successfully');
+  } catch (error) {
+    console.error('Get all API keys error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve API keys');
+  }
+};
+
+export const getApiKeyById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id },
+      select: apiKeySelect
+    });
+
+    if (!apiKey) {
+      return ServerResponse.notFound(res, 'API key not found');
+    }
+
+    return ServerResponse.success(res, apiKey, 'API key retrieved successfully');
+  } catch (error) {
+    console.error('Get API key by ID error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve API key');
+  }
+};
+
+export const updateApiKey = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+    const { name, scopes, parkingCodes, expiresAt } = req.body;
+
+    // Check if API key exists
+    const existingApiKey = await prisma.apiKey.findUnique({
+      where: { id }
+    });
+
+    if (!existingApiKey) {
+      return ServerResponse.notFound(res, 'API key not found');
+    }
+
+    if (existingApiKey.revokedAt) {
+      return ServerResponse.conflict(res, 'API key has been revoked');
+    }
+
+    if (parkingCodes) {
+      const unknownCode = await findUnknownParkingCode(parkingCodes);
+      if (unknownCode) {
+        return ServerResponse.notFound(res, `Parking with code '${unknownCode}' not found`);
+      }
+    }
+
+    // expiresAt: null removes the expiry
+    const updatedApiKey = await prisma.apiKey.update({
+      where: { id },
+      data: {
+        name: name || existingApiKey.name,
+        scopes: scopes || existingApiKey.scopes,
+        parkingCodes: parkingCodes || existingApiKey.parkingCodes,
+        expiresAt: expiresAt === undefined ? existingApiKey.expiresAt : expiresAt && new Date(expiresAt)
+      },
+      select: apiKeySelect
+    });
+
+    await recordAudit(req, { action: 'API_KEY_UPDATED', targetType: 'ApiKey', targetId: id, before: existingApiKey, after: updatedApiKey });
+
+    return ServerResponse.success(res, updatedApiKey, 'API key updated successfully');
+  } catch (error) {
+    console.error('Update API key error:', error);
+    return ServerResponse.error(res, 'Failed to update API key');
+  }
+};
+
+export const revokeApiKey = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    // Check if API key exists
+    const existingApiKey = await prisma.apiKey.findUnique({
+      where: { id }
+    });
+
+    if (!existingApiKey) {
+      return ServerResponse.notFound(res, 'API key not found');
+    }
+
+    // Keys are revoked rather than deleted so their history stays available
+    const revokedApiKey = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: existingApiKey.revokedAt || new Date() },
+      select: apiKeySelect
+    });
+
+    await recordAudit(req, {
+      action: 'API_KEY_REVOKED',
+      targetType: 'ApiKey',
+      targetId: id,
+      before: { revokedAt: existingApiKey.revokedAt },
+      after: { revokedAt: revokedApiKey.revokedAt }
+    });
+
+    return ServerResponse.success(res, revokedApiKey, 'API key revoked successfully');
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    return ServerResponse.error(res, 'Failed to revoke API key');
+  }
+};
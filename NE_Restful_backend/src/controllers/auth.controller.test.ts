@@ -0,0 +1,305 @@
+import bcrypt from 'bcrypt';
+import { login, refreshToken, resetPassword, verifyTwoFactor } from './auth.controller';
+import { generateChallengeToken, hashToken } from '../utils/token';
+import { generateTotp, generateTotpSecret } from '../utils/totp';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+jest.mock('../utils/email');
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+const user = { id: 'user-1', role: 'USER', email: 'jane@example.com' };
+
+const storedRefreshToken = (overrides: Record<string, unknown> = {}) => ({
+  id: 'token-1',
+  userId: user.id,
+  sessionId: 'session-1',
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + HOUR_IN_MS),
+  user,
+  session: { id: 'session-1', revokedAt: null },
+  ...overrides
+});
+
+describe('login', () => {
+  const loginRequest = (password: string) => mockRequest({ body: { email: user.email, password } });
+
+  const registeredUser = async (overrides: Record<string, unknown> = {}) => ({
+    ...user,
+    firstName: 'Jane',
+    password: await bcrypt.hash('Corr3ct-password', 4),
+    emailVerified: true,
+    twoFactorEnabled: false,
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    prismaMock.loginAttempt.findMany.mockResolvedValue([]);
+  });
+
+  it('answers a locked account like wrong credentials', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(await registeredUser({ lockedUntil: new Date(Date.now() + HOUR_IN_MS) }));
+    const locked = mockResponse();
+    await login(loginRequest('Corr3ct-password'), locked);
+
+    prismaMock.user.findUnique.mockResolvedValue(null);
+    const unknown = mockResponse();
+    await login(loginRequest('Corr3ct-password'), unknown);
+
+    expect(locked.statusCode).toBe(401);
+    expect(locked.body).toEqual(unknown.body);
+    expect(prismaMock.session.create).not.toHaveBeenCalled();
+  });
+
+  it('answers the failure that locks the account like any wrong password', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(await registeredUser({ failedLoginAttempts: 4 }));
+    prismaMock.user.update.mockResolvedValueOnce({ failedLoginAttempts: 5 }).mockResolvedValueOnce({});
+    prismaMock.log.create.mockResolvedValue({});
+
+    const res = mockResponse();
+    await login(loginRequest('wrong-password'), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(res.body.message).toBe('Invalid email or password');
+    expect(prismaMock.user.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ lockedUntil: expect.any(Date) }) })
+    );
+  });
+
+  it('clears earlier failures on a successful login', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(await registeredUser({ failedLoginAttempts: 2 }));
+    prismaMock.session.create.mockResolvedValue({ id: 'session-1' });
+    prismaMock.refreshToken.create.mockResolvedValue({ id: 'token-1' });
+    prismaMock.log.create.mockResolvedValue({});
+
+    const res = mockResponse();
+    await login(loginRequest('Corr3ct-password'), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.user.update).toHaveBeenCalledWith({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null }
+    });
+  });
+
+  it('throttles with Retry-After before looking the user up', async () => {
+    prismaMock.loginAttempt.findMany.mockResolvedValueOnce(Array.from({ length: 6 }, () => ({ successful: false, createdAt: new Date() })));
+
+    const res = mockResponse();
+    await login(loginRequest('Corr3ct-password'), res);
+
+    expect(res.statusCode).toBe(429);
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '8');
+    expect(prismaMock.user.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('refreshToken', () => {
+  it('revokes the presented token and issues its replacement in the same session', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken());
+    prismaMock.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.refreshToken.create.mockResolvedValue({ id: 'token-2' });
+
+    const res = mockResponse();
+    await refreshToken(mockRequest({ body: { refreshToken: 'old-token' } }), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.refreshToken.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tokenHash: hashToken('old-token') } })
+    );
+    expect(prismaMock.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'token-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) }
+    });
+    expect(prismaMock.refreshToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: user.id, sessionId: 'session-1' })
+    });
+    expect(prismaMock.refreshToken.update).toHaveBeenCalledWith({
+      where: { id: 'token-1' },
+      data: { replacedById: 'token-2' }
+    });
+
+    const issued = res.body.data.refreshToken;
+    expect(issued).not.toBe('old-token');
+    expect(prismaMock.refreshToken.create.mock.calls[0][0].data.tokenHash).toBe(hashToken(issued));
+  });
+
+  it('revokes the whole session when a rotated token is presented again', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken({ revokedAt: new Date() }));
+    prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+    const res = mockResponse();
+    await refreshToken(mockRequest({ body: { refreshToken: 'old-token' } }), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) }
+    });
+    expect(prismaMock.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('issues nothing and revokes the session when a concurrent refresh rotated the token first', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken());
+    // The conditional revoke finds the token already revoked by the other request
+    prismaMock.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+
+    const res = mockResponse();
+    await refreshToken(mockRequest({ body: { refreshToken: 'old-token' } }), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.refreshToken.create).not.toHaveBeenCalled();
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'session-1', revokedAt: null } })
+    );
+  });
+
+  it('refuses expired tokens without rotating them', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedRefreshToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+    const res = mockResponse();
+    await refreshToken(mockRequest({ body: { refreshToken: 'old-token' } }), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('resetPassword', () => {
+  const resetToken = (overrides: Record<string, unknown> = {}) => ({
+    id: 'reset-1',
+    userId: user.id,
+    usedAt: null,
+    expiresAt: new Date(Date.now() + HOUR_IN_MS),
+    ...overrides
+  });
+
+  const resetRequest = () => mockRequest({ body: { token: 'reset-token', newPassword: 'N3w-password!' } });
+
+  it('consumes the token, changes the password, lifts a lockout and signs out every session', async () => {
+    prismaMock.passwordResetToken.findUnique.mockResolvedValue(resetToken());
+    prismaMock.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.log.create.mockResolvedValue({});
+
+    const res = mockResponse();
+    await resetPassword(resetRequest(), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.passwordResetToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'reset-1', usedAt: null },
+      data: { usedAt: expect.any(Date) }
+    });
+    expect(prismaMock.user.update).toHaveBeenCalledWith({
+      where: { id: user.id },
+      data: { password: expect.any(String), failedLoginAttempts: 0, lockedUntil: null }
+    });
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: user.id, revokedAt: null } }));
+    expect(prismaMock.refreshToken.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: user.id, revokedAt: null } }));
+  });
+
+  it('changes nothing when a concurrent request consumed the token first', async () => {
+    prismaMock.passwordResetToken.findUnique.mockResolvedValue(resetToken());
+    prismaMock.passwordResetToken.updateMany.mockResolvedValue({ count: 0 });
+
+    const res = mockResponse();
+    await resetPassword(resetRequest(), res);
+
+    expect(res.statusCode).toBe(400);
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+    expect(prismaMock.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses used and expired tokens', async () => {
+    for (const token of [resetToken({ usedAt: new Date() }), resetToken({ expiresAt: new Date(Date.now() - 1000) })]) {
+      prismaMock.passwordResetToken.findUnique.mockResolvedValue(token);
+
+      const res = mockResponse();
+      await resetPassword(resetRequest(), res);
+
+      expect(res.statusCode).toBe(400);
+    }
+
+    expect(prismaMock.passwordResetToken.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyTwoFactor', () => {
+  const secret = generateTotpSecret();
+  const twoFactorUser = {
+    ...user,
+    firstName: 'Jane',
+    twoFactorEnabled: true,
+    twoFactorSecret: secret,
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+    lastTotpStep: null
+  };
+
+  const twoFactorRequest = (code: string) =>
+    mockRequest({ body: { challengeToken: generateChallengeToken(user.id, 'two-factor'), code } });
+
+  beforeEach(() => {
+    prismaMock.usedChallengeToken.findUnique.mockResolvedValue(null);
+    prismaMock.user.findUnique.mockResolvedValue(twoFactorUser);
+    prismaMock.session.create.mockResolvedValue({ id: 'session-1' });
+    prismaMock.refreshToken.create.mockResolvedValue({ id: 'token-1' });
+  });
+
+  it('records the step of the accepted code and uses up the challenge', async () => {
+    prismaMock.user.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.usedChallengeToken.createMany.mockResolvedValue({ count: 1 });
+
+    const res = mockResponse();
+    await verifyTwoFactor(twoFactorRequest(generateTotp(secret)), res);
+
+    expect(res.statusCode).toBe(200);
+    const step = Math.floor(Date.now() / 30000);
+    expect(prismaMock.user.updateMany).toHaveBeenCalledWith({
+      where: { id: user.id, OR: [{ lastTotpStep: null }, { lastTotpStep: { lt: step } }] },
+      data: { lastTotpStep: step }
+    });
+    expect(prismaMock.usedChallengeToken.createMany).toHaveBeenCalledWith({
+      data: { jti: expect.any(String), userId: user.id, expiresAt: expect.any(Date) },
+      skipDuplicates: true
+    });
+  });
+
+  it('refuses a code whose step was already used', async () => {
+    // lastTotpStep is already at or past the code's step
+    prismaMock.user.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.user.update.mockResolvedValue({ failedLoginAttempts: 1 });
+
+    const res = mockResponse();
+    await verifyTwoFactor(twoFactorRequest(generateTotp(secret)), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.session.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a challenge that already completed a login', async () => {
+    prismaMock.usedChallengeToken.findUnique.mockResolvedValue({ jti: 'used' });
+
+    const res = mockResponse();
+    await verifyTwoFactor(twoFactorRequest(generateTotp(secret)), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.user.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.session.create).not.toHaveBeenCalled();
+  });
+
+  it('starts no session when a concurrent request used the challenge first', async () => {
+    prismaMock.user.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.usedChallengeToken.createMany.mockResolvedValue({ count: 0 });
+
+    const res = mockResponse();
+    await verifyTwoFactor(twoFactorRequest(generateTotp(secret)), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.session.create).not.toHaveBeenCalled();
+  });
+});
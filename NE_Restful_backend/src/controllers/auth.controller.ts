@@ -1,15 +1,79 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, User } from '@prisma/client';
 import bcrypt from 'bcrypt';
-import jwt, { Secret } from 'jsonwebtoken';
 import ServerResponse from '../utils/response';
 import { sendEmail } from '../utils/email';
+import {
+  generateToken,
+  hashToken,
+  generateAccessToken,
+  issueAuthTokens,
+  issueRefreshToken,
+  revokeSession,
+  generateChallengeToken,
+  verifyChallengeToken,
+  consumeChallengeToken,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from '../utils/token';
+import { generateTotpSecret, findTotpStep, buildOtpAuthUrl } from '../utils/totp';
+import { getSetting } from '../utils/settings';
+import { getRolePermissions } from '../utils/permissions';
+import { getLoginRetryAfter, recordLoginAttempt, isAccountLocked, registerFailedLogin, resetFailedLogins } from '../utils/lockout';
+import { recordAudit } from '../utils/audit';
 
 const prisma = new PrismaClient();
 
+// Device details recorded with the session started by a login
+const getSessionClient = (req: Request) => ({
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip
+});
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+// A TOTP code is only accepted once: its time step has to be later than the last one the user used,
+// so a code seen over someone's shoulder can't be replayed while it is still valid
+const consumeTotpCode = async (user: Pick<User, 'id' | 'twoFactorSecret'>, code: string): Promise<boolean> => {
+  const step = user.twoFactorSecret ? findTotpStep(user.twoFactorSecret, code) : null;
+  if (step === null) {
+    return false;
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, OR: [{ lastTotpStep: null }, { lastTotpStep: { lt: step } }] },
+    data: { lastTotpStep: step }
+  });
+
+  return count === 1;
+};
+
+// Create a fresh verification token for the user and email the link to them
+const sendVerificationEmail = async (user: { id: string; email: string; firstName: string }) => {
+  const token = generateToken();
+  const expiresInHours = parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '24');
+
+  await prisma.emailVerificationToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + expiresInHours * HOUR_IN_MS)
+    }
+  });
+
+  const verificationLink = `${process.env.CLIENT_URL || 'http://localhost:5173'}/verify-email?token=${token}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Verify your XWYZ Parking email address',
+    text: `Hello ${user.firstName}, please confirm your email address by opening the following link: ${verificationLink}. The link expires in ${expiresInHours} hours.`,
+    html: `<p>Hello ${user.firstName},</p><p>Please confirm your email address by opening the following link:</p><p><a href="${verificationLink}">${verificationLink}</a></p><p>The link expires in ${expiresInHours} hours.</p>`
+  });
+};
+
 export const register = async (req: Request, res: Response): Promise<Response> => {
   try {
-    const { firstName, lastName, email, password, role } = req.body;
+    const { firstName, lastName, email, password } = req.body;
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
@@ -24,33 +88,37 @@ export const register = async (req: Request, res: Response): Promise<Response> =
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
 
-    // Create user
+    // Create user. Public registration always creates USER accounts,
+    // elevated roles are only granted through staff invitations
     const user = await prisma.user.create({
       data: {
         firstName,
         lastName,
         email,
         password: hashedPassword,
-        role: role || 'USER'
+        role: 'USER'
       }
     });
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    // Remove password and two-factor secret from response
+    const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
 
-    // Send welcome email
+    await recordAudit(req, {
+      action: 'USER_REGISTERED',
+      targetType: 'User',
+      targetId: user.id,
+      actorId: user.id,
+      after: userWithoutPassword
+    });
+
+    // Send verification email
     try {
-      await sendEmail({
-        to: email,
-        subject: 'Welcome to XWYZ Parking Management System',
-        text: `Hello ${firstName}, your account has been created successfully.`,
-        html: `<p>Hello ${firstName},</p><p>Your account has been created successfully.</p>`
-      });
+      await sendVerificationEmail(user);
     } catch (emailError) {
-      console.error('Error sending welcome email:', emailError);
+      console.error('Error sending verification email:', emailError);
     }
 
-    return ServerResponse.created(res, userWithoutPassword, 'User registered successfully');
+    return ServerResponse.created(res, userWithoutPassword, 'User registered successfully. Please check your email to verify your account');
 
   } catch (error) {
     console.error('Register error:', error);
@@ -62,29 +130,69 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
   try {
     const { email, password } = req.body;
 
+    // Throttle repeated failures for this email or IP address
+    const retryAfter = await getLoginRetryAfter(email, req.ip);
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return ServerResponse.tooManyRequests(res, 'Too many failed login attempts. Please try again later');
+    }
+
     // Check if user exists
     const user = await prisma.user.findUnique({
-      where: { email }
+      where: { email, deletedAt: null }
     });
 
     if (!user) {
+      await recordLoginAttempt(email, req.ip, false);
+      return ServerResponse.unauthorized(res, 'Invalid email or password');
+    }
+
+    // Locked accounts are refused before the password is checked. The answer is the same as for wrong
+    // credentials, a distinct one would tell which emails are registered; the owner is told by email.
+    if (isAccountLocked(user)) {
+      await recordLoginAttempt(email, req.ip, false);
       return ServerResponse.unauthorized(res, 'Invalid email or password');
     }
 
     // Check password
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await recordLoginAttempt(email, req.ip, false);
+      await registerFailedLogin(req, user);
+
       return ServerResponse.unauthorized(res, 'Invalid email or password');
     }
 
+    await recordLoginAttempt(email, req.ip, true);
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await resetFailedLogins(user.id);
+    }
 
-          const token = jwt.sign({ id: user.id, role: user.role , email: user.email }, process.env.JWT_SECRET as string, { expiresIn: '1d' });
+    // Check email verification
+    if (!user.emailVerified) {
+      return ServerResponse.forbidden(res, 'Please verify your email address before logging in');
+    }
 
+    // Second factor: the real tokens are only issued once a TOTP code has been verified
+    if (user.twoFactorEnabled) {
+      const challengeToken = generateChallengeToken(user.id, 'two-factor');
+      return ServerResponse.success(res, { twoFactorRequired: true, challengeToken }, 'Two-factor authentication required');
+    }
+
+    if (user.role === 'ADMIN' && await getSetting('requireAdminTwoFactor')) {
+      const challengeToken = generateChallengeToken(user.id, 'two-factor-setup');
+      return ServerResponse.success(res, { twoFactorSetupRequired: true, challengeToken }, 'Two-factor authentication must be set up before logging in');
+    }
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    // Start a session with a short-lived access token and a rotating refresh token
+    const { token, refreshToken, sessionId } = await issueAuthTokens(user, getSessionClient(req));
 
-    return ServerResponse.success(res, { user: userWithoutPassword, token }, 'Login successful');
+    await recordAudit(req, { action: 'LOGIN', targetType: 'Session', targetId: sessionId, actorId: user.id });
+
+    // Remove password and two-factor secret from response
+    const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+
+    return ServerResponse.success(res, { user: userWithoutPassword, token, refreshToken }, 'Login successful');
 
   } catch (error) {
     console.error('Login error:', error);
@@ -92,6 +200,698 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
   }
 };
 
+export const acceptInvitation = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { token, firstName, lastName, password } = req.body;
+
+    const invitation = await prisma.invitation.findUnique({
+      where: { tokenHash: hashToken(token) }
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt < new Date()) {
+      return ServerResponse.badRequest(res, 'Invitation is invalid or has expired');
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: invitation.email }
+    });
+
+    if (existingUser) {
+      return ServerResponse.conflict(res, 'User with this email already exists');
+    }
+
+    // Parkings deleted since the invitation was sent are skipped
+    const parkings = await prisma.parking.findMany({
+      where: { code: { in: invitation.parkingCodes }, deletedAt: null },
+      select: { code: true }
+    });
+
+    // Hash password
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    // The emailed link proves the address, so the account is verified straight away
+    const [user] = await prisma.$transaction([
+      prisma.user.create({
+        data: {
+          firstName,
+          lastName,
+          email: invitation.email,
+          password: hashedPassword,
+          role: invitation.role,
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+          parkingAssignments: {
+            create: parkings.map((parking) => ({ parkingCode: parking.code }))
+          }
+        }
+      }),
+      prisma.invitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() }
+      })
+    ]);
+
+    // Remove password and two-factor secret from response
+    const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+
+    await recordAudit(req, {
+      action: 'INVITATION_ACCEPTED',
+      targetType: 'User',
+      targetId: user.id,
+      actorId: user.id,
+      after: { ...userWithoutPassword, invitationId: invitation.id, parkingCodes: parkings.map((parking) => parking.code) }
+    });
+
+    return ServerResponse.created(res, userWithoutPassword, 'Invitation accepted successfully');
+
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    return ServerResponse.error(res, 'Failed to accept invitation');
+  }
+};
+
+export const verifyTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!code && !recoveryCode) {
+      return ServerResponse.badRequest(res, 'A two-factor code or a recovery code is required');
+    }
+
+    const challenge = await verifyChallengeToken(challengeToken, 'two-factor');
+    if (!challenge) {
+      return ServerResponse.unauthorized(res, 'Two-factor challenge is invalid or has expired');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId, deletedAt: null }
+    });
+
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      return ServerResponse.unauthorized(res, 'Two-factor challenge is invalid or has expired');
+    }
+
+    if (isAccountLocked(user)) {
+      return ServerResponse.locked(res, 'Account is temporarily locked due to too many failed login attempts');
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    if (code) {
+      if (!(await consumeTotpCode(user, code))) {
+        const lockedUntil = await registerFailedLogin(req, user);
+        if (lockedUntil) {
+          return ServerResponse.locked(res, 'Account is temporarily locked due to too many failed login attempts');
+        }
+        return ServerResponse.unauthorized(res, 'Invalid two-factor code');
+      }
+    } else {
+      // Recovery codes are single use
+      const { count } = await prisma.recoveryCode.updateMany({
+        where: {
+          userId: user.id,
+          codeHash: hashRecoveryCode(recoveryCode),
+          usedAt: null
+        },
+        data: { usedAt: new Date() }
+      });
+
+      if (count === 0) {
+        const lockedUntil = await registerFailedLogin(req, user);
+        if (lockedUntil) {
+          return ServerResponse.locked(res, 'Account is temporarily locked due to too many failed login attempts');
+        }
+        return ServerResponse.unauthorized(res, 'Invalid recovery code');
+      }
+    }
+
+    // A challenge completes a single login, even if the same second factor is sent twice concurrently
+    if (!(await consumeChallengeToken(challenge))) {
+      return ServerResponse.unauthorized(res, 'Two-factor challenge is invalid or has expired');
+    }
+
+    if (user.failedLoginAttempts > 0) {
+      await resetFailedLogins(user.id);
+    }
+
+    const { token, refreshToken, sessionId } = await issueAuthTokens(user, getSessionClient(req));
+
+    await recordAudit(req, { action: 'LOGIN', targetType: 'Session', targetId: sessionId, actorId: user.id });
+
+    // Remove password and two-factor secret from response
+    const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+
+    return ServerResponse.success(res, { user: userWithoutPassword, token, refreshToken }, 'Login successful');
+
+  } catch (error) {
+    console.error('Verify two-factor error:', error);
+    return ServerResponse.error(res, 'Failed to verify two-factor code');
+  }
+};
+
+export const setupTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      return ServerResponse.conflict(res, 'Two-factor authentication is already enabled');
+    }
+
+    // The secret stays pending until it is confirmed with a first valid code
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: secret }
+    });
+
+    return ServerResponse.success(
+      res,
+      { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email) },
+      'Scan the QR code with your authenticator app and confirm with a code'
+    );
+
+  } catch (error) {
+    console.error('Setup two-factor error:', error);
+    return ServerResponse.error(res, 'Failed to set up two-factor authentication');
+  }
+};
+
+export const enableTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      return ServerResponse.conflict(res, 'Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      return ServerResponse.badRequest(res, 'Two-factor setup has not been started');
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return ServerResponse.badRequest(res, 'Invalid two-factor code');
+    }
+
+    // The setup challenge of a blocked login completes that one login only
+    if (res.locals.twoFactorSetupChallenge && !(await consumeChallengeToken(res.locals.twoFactorSetupChallenge))) {
+      return ServerResponse.unauthorized(res, 'Two-factor challenge is invalid or has expired');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorEnabled: true }
+      }),
+      prisma.recoveryCode.deleteMany({
+        where: { userId: user.id }
+      }),
+      prisma.recoveryCode.createMany({
+        data: recoveryCodes.map((recoveryCode) => ({
+          userId: user.id,
+          codeHash: hashRecoveryCode(recoveryCode)
+        }))
+      })
+    ]);
+
+    await recordAudit(req, {
+      action: 'TWO_FACTOR_ENABLED',
+      targetType: 'User',
+      targetId: user.id,
+      actorId: user.id,
+      before: { twoFactorEnabled: false },
+      after: { twoFactorEnabled: true }
+    });
+
+    // Enabling 2FA from a login blocked by the 2FA policy completes that login
+    if (res.locals.twoFactorSetupChallenge) {
+      const { token, refreshToken, sessionId } = await issueAuthTokens(user, getSessionClient(req));
+      await recordAudit(req, { action: 'LOGIN', targetType: 'Session', targetId: sessionId, actorId: user.id });
+      const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
+
+      return ServerResponse.success(
+        res,
+        { recoveryCodes, user: { ...userWithoutPassword, twoFactorEnabled: true }, token, refreshToken },
+        'Two-factor authentication enabled successfully'
+      );
+    }
+
+    return ServerResponse.success(res, { recoveryCodes }, 'Two-factor authentication enabled successfully');
+
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    return ServerResponse.error(res, 'Failed to enable two-factor authentication');
+  }
+};
+
+export const disableTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return ServerResponse.badRequest(res, 'Two-factor authentication is not enabled');
+    }
+
+    if (user.role === 'ADMIN' && await getSetting('requireAdminTwoFactor')) {
+      return ServerResponse.forbidden(res, 'Two-factor authentication is required for admin accounts');
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid || !(await consumeTotpCode(user, code))) {
+      return ServerResponse.badRequest(res, 'Invalid password or two-factor code');
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null
+        }
+      }),
+      prisma.recoveryCode.deleteMany({
+        where: { userId: user.id }
+      })
+    ]);
+
+    await recordAudit(req, {
+      action: 'TWO_FACTOR_DISABLED',
+      targetType: 'User',
+      targetId: user.id,
+      before: { twoFactorEnabled: true },
+      after: { twoFactorEnabled: false }
+    });
+
+    return ServerResponse.success(res, null, 'Two-factor authentication disabled successfully');
+
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    return ServerResponse.error(res, 'Failed to disable two-factor authentication');
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return ServerResponse.badRequest(res, 'Two-factor authentication is not enabled');
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return ServerResponse.badRequest(res, 'Invalid two-factor code');
+    }
+
+    // New codes replace every previous one, used or not
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({
+        where: { userId: user.id }
+      }),
+      prisma.recoveryCode.createMany({
+        data: recoveryCodes.map((recoveryCode) => ({
+          userId: user.id,
+          codeHash: hashRecoveryCode(recoveryCode)
+        }))
+      })
+    ]);
+
+    await recordAudit(req, { action: 'RECOVERY_CODES_REGENERATED', targetType: 'User', targetId: user.id });
+
+    return ServerResponse.success(res, { recoveryCodes }, 'Recovery codes regenerated successfully');
+
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return ServerResponse.error(res, 'Failed to regenerate recovery codes');
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { token } = req.body;
+
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: true }
+    });
+
+    if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt < new Date()) {
+      return ServerResponse.badRequest(res, 'Verification link is invalid or has expired');
+    }
+
+    const { user } = verificationToken;
+
+    if (user.emailVerified) {
+      return ServerResponse.success(res, null, 'Email address already verified');
+    }
+
+    // Verify the user and consume every outstanding verification token
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          emailVerified: true,
+          emailVerifiedAt: new Date()
+        }
+      }),
+      prisma.emailVerificationToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: new Date() }
+      })
+    ]);
+
+    await recordAudit(req, {
+      action: 'EMAIL_VERIFIED',
+      targetType: 'User',
+      targetId: user.id,
+      actorId: user.id,
+      before: { emailVerified: false },
+      after: { emailVerified: true }
+    });
+
+    // Send welcome email
+    try {
+      await sendEmail({
+        to: user.email,
+        subject: 'Welcome to XWYZ Parking Management System',
+        text: `Hello ${user.firstName}, your account has been created successfully.`,
+        html: `<p>Hello ${user.firstName},</p><p>Your account has been created successfully.</p>`
+      });
+    } catch (emailError) {
+      console.error('Error sending welcome email:', emailError);
+    }
+
+    return ServerResponse.success(res, null, 'Email address verified successfully');
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return ServerResponse.error(res, 'Failed to verify email address');
+  }
+};
+
+export const resendVerificationEmail = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { email } = req.body;
+    // Same answer whether or not the account exists, so the endpoint can't be used to probe emails
+    const message = 'If an unverified account exists for this email, a new verification link has been sent';
+
+    const user = await prisma.user.findUnique({
+      where: { email, deletedAt: null }
+    });
+
+    if (!user || user.emailVerified) {
+      return ServerResponse.success(res, null, message);
+    }
+
+    // Rate limit: one email per cooldown period and a maximum number per hour
+    const cooldownSeconds = parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || '60');
+    const maxPerHour = parseInt(process.env.EMAIL_VERIFICATION_RESEND_MAX_PER_HOUR || '5');
+
+    const recentTokens = await prisma.emailVerificationToken.findMany({
+      where: {
+        userId: user.id,
+        createdAt: { gte: new Date(Date.now() - HOUR_IN_MS) }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const retryAfterMs = recentTokens.length >= maxPerHour
+      ? recentTokens[maxPerHour - 1].createdAt.getTime() + HOUR_IN_MS - Date.now()
+      : recentTokens.length > 0
+        ? recentTokens[0].createdAt.getTime() + cooldownSeconds * 1000 - Date.now()
+        : 0;
+
+    if (retryAfterMs > 0) {
+      res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      return ServerResponse.tooManyRequests(res, 'Too many verification emails requested. Please try again later');
+    }
+
+    // Only the most recent link stays usable
+    await prisma.emailVerificationToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    try {
+      await sendVerificationEmail(user);
+    } catch (emailError) {
+      console.error('Error sending verification email:', emailError);
+    }
+
+    return ServerResponse.success(res, null, message);
+
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    return ServerResponse.error(res, 'Failed to resend verification email');
+  }
+};
+
+export const refreshToken = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { refreshToken } = req.body;
+
+    const storedToken = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { user: true, session: true }
+    });
+
+    if (!storedToken) {
+      return ServerResponse.unauthorized(res, 'Invalid refresh token');
+    }
+
+    if (storedToken.session.revokedAt) {
+      return ServerResponse.unauthorized(res, 'Session has been revoked');
+    }
+
+    // A revoked token being presented again means it was stolen or replayed:
+    // revoke the whole session so that the legitimate holder has to log in again
+    if (storedToken.revokedAt) {
+      await revokeSession(storedToken.sessionId);
+      return ServerResponse.unauthorized(res, 'Refresh token has been revoked');
+    }
+
+    if (storedToken.expiresAt < new Date()) {
+      return ServerResponse.unauthorized(res, 'Refresh token expired');
+    }
+
+    // Rotate: revoke the presented token and issue its replacement in the same session. The token is only
+    // revoked if it still isn't, so of two concurrent refreshes with it only one rotates it.
+    const rotated = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: storedToken.id, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const { token: newRefreshToken, refreshToken: replacement } = await issueRefreshToken(
+        storedToken.userId,
+        storedToken.sessionId,
+        tx
+      );
+
+      await tx.refreshToken.update({
+        where: { id: storedToken.id },
+        data: { replacedById: replacement.id }
+      });
+
+      await tx.session.update({
+        where: { id: storedToken.sessionId },
+        data: {
+          lastActiveAt: new Date(),
+          ipAddress: req.ip
+        }
+      });
+
+      return newRefreshToken;
+    });
+
+    // Another request rotated it first: the token was used twice, handled like any reuse
+    if (!rotated) {
+      await revokeSession(storedToken.sessionId);
+      return ServerResponse.unauthorized(res, 'Refresh token has been revoked');
+    }
+
+    const token = generateAccessToken(storedToken.user, storedToken.sessionId);
+
+    return ServerResponse.success(res, { token, refreshToken: rotated }, 'Token refreshed successfully');
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return ServerResponse.error(res, 'Failed to refresh token');
+  }
+};
+
+export const logout = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { refreshToken } = req.body;
+
+    const storedToken = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) }
+    });
+
+    // Logging out with an unknown token is not an error: there is nothing left to revoke
+    if (storedToken) {
+      await revokeSession(storedToken.sessionId);
+      await recordAudit(req, { action: 'LOGOUT', targetType: 'Session', targetId: storedToken.sessionId, actorId: storedToken.userId });
+    }
+
+    return ServerResponse.success(res, null, 'Logout successful');
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    return ServerResponse.error(res, 'Failed to logout');
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { email } = req.body;
+    // Same answer whether or not the account exists, so the endpoint can't be used to probe emails
+    const message = 'If an account exists for this email, a password reset link has been sent';
+
+    const user = await prisma.user.findUnique({
+      where: { email, deletedAt: null }
+    });
+
+    if (!user) {
+      return ServerResponse.success(res, null, message);
+    }
+
+    // Only the most recent link stays usable
+    await prisma.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    const token = generateToken();
+    const expiresInMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60');
+
+    await prisma.passwordResetToken.create({
+      data: {
+        tokenHash: hashToken(token),
+        userId: user.id,
+        expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000)
+      }
+    });
+
+    const resetLink = `${process.env.CLIENT_URL || 'http://localhost:5173'}/reset-password?token=${token}`;
+
+    try {
+      await sendEmail({
+        to: user.email,
+        subject: 'Reset your XWYZ Parking password',
+        text: `Hello ${user.firstName}, use the following link to reset your password: ${resetLink}. The link expires in ${expiresInMinutes} minutes. If you did not request a password reset, you can ignore this email.`,
+        html: `<p>Hello ${user.firstName},</p><p>Use the following link to reset your password:</p><p><a href="${resetLink}">${resetLink}</a></p><p>The link expires in ${expiresInMinutes} minutes. If you did not request a password reset, you can ignore this email.</p>`
+      });
+    } catch (emailError) {
+      console.error('Error sending password reset email:', emailError);
+    }
+
+    return ServerResponse.success(res, null, message);
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return ServerResponse.error(res, 'Failed to process password reset request');
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) }
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      return ServerResponse.badRequest(res, 'Password reset link is invalid or has expired');
+    }
+
+    // Hash new password
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(newPassword, salt);
+
+    // Consume the token, update the password and sign out every existing session together. The token is
+    // only consumed if it still isn't, so two requests racing with the same link can't both reset.
+    const consumed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      // Proving control of the mailbox also lifts a lockout
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword, failedLoginAttempts: 0, lockedUntil: null }
+      });
+
+      await tx.session.updateMany({
+        where: { userId: resetToken.userId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+
+      await tx.refreshToken.updateMany({
+        where: { userId: resetToken.userId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+
+      return true;
+    });
+
+    if (!consumed) {
+      return ServerResponse.badRequest(res, 'Password reset link is invalid or has expired');
+    }
+
+    await recordAudit(req, { action: 'PASSWORD_RESET', targetType: 'User', targetId: resetToken.userId, actorId: resetToken.userId });
+
+    return ServerResponse.success(res, null, 'Password reset successfully');
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return ServerResponse.error(res, 'Failed to reset password');
+  }
+};
+
 export const getProfile = async (req: Request, res: Response): Promise<Response> => {
   try {
     const userId = req.user?.id;
@@ -108,10 +908,14 @@ export const getProfile = async (req: Request, res: Response): Promise<Response>
       return ServerResponse.notFound(res, 'User not found');
     }
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
+    // Remove password and two-factor secret from response
+    const { password: _, twoFactorSecret: __, ...userWithoutPassword } = user;
 
-    return ServerResponse.success(res, userWithoutPassword, 'User profile retrieved successfully');
+    return ServerResponse.success(res, {
+      ...userWithoutPassword,
+      permissions: getRolePermissions(user.role),
+      parkingCodes: req.user.parkingCodes
+    }, 'User profile retrieved successfully');
 
   } catch (error) {
     console.error('Get profile error:', error);
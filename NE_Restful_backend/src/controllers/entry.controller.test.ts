@@ -0,0 +1,288 @@
+import { Prisma } from '@prisma/client';
+import { getActiveEntryQuotes, registerEntry, registerExit } from './entry.controller';
+import { quoteStay } from '../utils/pricing';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+jest.mock('../utils/email');
+jest.mock('../utils/pricing', () => ({ ...jest.requireActual('../utils/pricing'), quoteStay: jest.fn() }));
+
+const parking = { id: 'parking-1', code: 'P-001', name: 'Downtown', totalSpaces: 10, availableSpaces: 5, hourlyFee: 2, deletedAt: null };
+const bay = { id: 'space-1', parkingCode: 'P-001', number: 'A1', level: 0, zone: 'A', type: 'STANDARD', status: 'AVAILABLE' };
+
+const entryRequest = (body: Record<string, unknown> = {}) =>
+  mockRequest({ body: { plateNumber: 'RAB123A', parkingCode: 'P-001', ...body }, user: { id: 'staff-1', role: 'ATTENDANT', parkingCodes: null } });
+
+// A parking with `modelled` of its spaces modelled as bays, `freeBays` of them free
+const givenParking = (modelled: number, freeBays: number) => {
+  prismaMock.parking.findUnique.mockResolvedValue(parking);
+  prismaMock.parking.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.entry.findFirst.mockResolvedValue(null);
+  prismaMock.vehicle.findMany.mockResolvedValue([]);
+  prismaMock.parkingSpace.count.mockResolvedValue(modelled);
+  prismaMock.parkingSpace.findFirst.mockResolvedValue(freeBays > 0 ? bay : null);
+  prismaMock.parkingSpace.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.entry.create.mockImplementation(({ data }) => Promise.resolve({ id: 'entry-1', ...data }));
+  prismaMock.log.create.mockResolvedValue({});
+};
+
+describe('registerEntry', () => {
+  it('gives the vehicle a free bay of the requested type', async () => {
+    givenParking(4, 1);
+
+    const res = mockResponse();
+    await registerEntry(entryRequest(), res);
+
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.entry.create.mock.calls[0][0].data.spaceId).toBe('space-1');
+    expect(res.body.data.ticket.spaceNumber).toBe('A1');
+  });
+
+  it('lets the vehicle in without a bay when only part of the parking is modelled', async () => {
+    givenParking(4, 0);
+
+    const res = mockResponse();
+    await registerEntry(entryRequest({ spaceType: 'EV' }), res);
+
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.entry.create.mock.calls[0][0].data.spaceId).toBeUndefined();
+  });
+
+  it('refuses the vehicle when every space is modelled and none of the type is free', async () => {
+    givenParking(10, 0);
+
+    const res = mockResponse();
+    await registerEntry(entryRequest({ spaceType: 'EV' }), res);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe("No available EV spaces in parking 'Downtown'");
+    expect(prismaMock.entry.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses the vehicle when the parking is full, whatever its bays', async () => {
+    givenParking(4, 1);
+    prismaMock.parking.updateMany.mockResolvedValue({ count: 0 });
+
+    const res = mockResponse();
+    await registerEntry(entryRequest(), res);
+
+    expect(res.statusCode).toBe(400);
+    expect(prismaMock.entry.create).not.toHaveBeenCalled();
+  });
+
+  it('gives the stay to the only user with the plate among their vehicles', async () => {
+    givenParking(0, 0);
+    prismaMock.vehicle.findMany.mockResolvedValue([{ userId: 'user-1' }]);
+
+    await registerEntry(entryRequest(), mockResponse());
+
+    expect(prismaMock.entry.create.mock.calls[0][0].data.userId).toBe('user-1');
+  });
+
+  it('leaves the stay without an owner when several users registered the plate', async () => {
+    givenParking(0, 0);
+    prismaMock.vehicle.findMany.mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }]);
+
+    await registerEntry(entryRequest(), mockResponse());
+
+    expect(prismaMock.entry.create.mock.calls[0][0].data.userId).toBeNull();
+  });
+});
+
+describe('registerEntry open entries', () => {
+  it('stores the plate upper-cased and marks the entry as the open one for the plate', async () => {
+    givenParking(0, 0);
+
+    const res = mockResponse();
+    await registerEntry(entryRequest({ plateNumber: ' rab123a ' }), res);
+
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.entry.create.mock.calls[0][0].data).toMatchObject({ plateNumber: 'RAB123A', openPlateNumber: 'RAB123A' });
+  });
+
+  it('finds the open entry of a plate typed in another case', async () => {
+    givenParking(0, 0);
+    prismaMock.entry.findFirst.mockResolvedValueOnce({ id: 'entry-0', plateNumber: 'RAB123A', parkingCode: 'P-001' });
+
+    const res = mockResponse();
+    await registerEntry(entryRequest({ plateNumber: 'rab123a' }), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(prismaMock.entry.findFirst).toHaveBeenCalledWith({
+      where: { plateNumber: 'RAB123A', parkingCode: 'P-001', exitDateTime: null }
+    });
+    expect(prismaMock.entry.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses the vehicle when a concurrent gate opened an entry for the plate first', async () => {
+    givenParking(0, 0);
+    prismaMock.entry.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`openPlateNumber`,`parkingCode`)', {
+        code: 'P2002',
+        clientVersion: 'test'
+      })
+    );
+
+    const res = mockResponse();
+    await registerEntry(entryRequest({ plateNumber: 'rab123a' }), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.message).toBe("Vehicle with plate number 'RAB123A' is already in the parking");
+  });
+});
+
+describe('registerEntry with a reservation', () => {
+  const reservation = {
+    id: 'reservation-1',
+    code: '3F9A1C07',
+    userId: 'user-1',
+    parkingCode: 'P-001',
+    plateNumber: 'RAB123A',
+    startTime: new Date(Date.now() - 5 * 60 * 1000),
+    status: 'BOOKED',
+    capacityHeld: true
+  };
+
+  it('takes the space the reservation held for the entry', async () => {
+    givenParking(0, 0);
+    prismaMock.reservation.findUnique.mockResolvedValueOnce(reservation).mockResolvedValueOnce({ ...reservation, status: 'FULFILLED' });
+    prismaMock.reservation.updateMany.mockResolvedValue({ count: 1 });
+
+    const res = mockResponse();
+    await registerEntry(entryRequest({ reservationCode: '3f9a1c07' }), res);
+
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'reservation-1', status: 'BOOKED', capacityHeld: true },
+      data: { status: 'FULFILLED', capacityHeld: false }
+    });
+    expect(prismaMock.payment.updateMany).toHaveBeenCalledWith({ where: { reservationId: 'reservation-1' }, data: { entryId: 'entry-1' } });
+  });
+
+  it('refuses the vehicle when the reservation was cancelled since it was read', async () => {
+    givenParking(0, 0);
+    prismaMock.reservation.findUnique.mockResolvedValueOnce(reservation);
+    prismaMock.reservation.updateMany.mockResolvedValue({ count: 0 });
+
+    const res = mockResponse();
+    await registerEntry(entryRequest({ reservationCode: '3F9A1C07' }), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.message).toBe("Reservation '3F9A1C07' is no longer booked");
+    expect(prismaMock.entry.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('getActiveEntryQuotes', () => {
+  it("quotes every parked vehicle of the caller's parkings in one request", async () => {
+    prismaMock.entry.findMany.mockResolvedValue([
+      { id: 'entry-1', plateNumber: 'RAB123A', parkingCode: 'P-001', entryDateTime: new Date(), parking },
+      { id: 'entry-2', plateNumber: 'RAC456B', parkingCode: 'P-001', entryDateTime: new Date(), parking }
+    ]);
+    prismaMock.payment.groupBy.mockResolvedValue([{ entryId: 'entry-2', _sum: { amount: '1.50' } }]);
+    (quoteStay as jest.Mock).mockResolvedValue({ total: 4, lines: [] });
+
+    const res = mockResponse();
+    await getActiveEntryQuotes(mockRequest({ user: { id: 'staff-1', role: 'ATTENDANT', parkingCodes: ['P-001'] } }), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.entry.findMany.mock.calls[0][0].where).toEqual({ exitDateTime: null, parkingCode: { in: ['P-001'] } });
+    expect(res.body.data).toEqual([
+      expect.objectContaining({ entryId: 'entry-1', total: 4, amountPaid: 0, amountDue: 4 }),
+      expect.objectContaining({ entryId: 'entry-2', total: 4, amountPaid: 1.5, amountDue: 2.5 })
+    ]);
+  });
+});
+
+describe('registerExit', () => {
+  const openEntry = {
+    id: 'entry-1',
+    plateNumber: 'RAB123A',
+    parkingCode: 'P-001',
+    spaceId: null,
+    entryDateTime: new Date(Date.now() - 2 * 60 * 60 * 1000),
+    exitDateTime: null,
+    parking
+  };
+
+  const exitRequest = (body: Record<string, unknown> = {}, role: string = 'ATTENDANT') =>
+    mockRequest({ params: { id: 'entry-1' }, body, user: { id: 'staff-1', role, parkingCodes: null } });
+
+  // A stay priced at $4, with `paid` of it paid when the exit transaction reads the payments
+  const givenStay = (paid: number) => {
+    prismaMock.entry.findUnique.mockResolvedValue(openEntry);
+    (quoteStay as jest.Mock).mockResolvedValue({ total: 4, to: new Date(), lines: [], tariffId: null });
+    prismaMock.payment.aggregate.mockResolvedValue({ _sum: { amount: paid } });
+    prismaMock.entry.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.parking.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.entry.findUniqueOrThrow.mockResolvedValue({
+      ...openEntry,
+      exitDateTime: new Date(),
+      chargedAmount: 4,
+      settledAt: new Date(),
+      payments: []
+    });
+    prismaMock.log.create.mockResolvedValue({});
+  };
+
+  it('checks the balance inside the serializable transaction that closes the entry', async () => {
+    givenStay(4);
+
+    const res = mockResponse();
+    await registerExit(exitRequest(), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+    });
+    expect(prismaMock.payment.aggregate.mock.invocationCallOrder[0]).toBeLessThan(
+      prismaMock.entry.updateMany.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('refuses the exit while a balance is left', async () => {
+    givenStay(1.5);
+
+    const res = mockResponse();
+    await registerExit(exitRequest(), res);
+
+    expect(res.statusCode).toBe(402);
+    expect(res.body.message).toBe('A balance of $2.50 must be paid before the vehicle can exit');
+    expect(prismaMock.entry.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses an override from an attendant, who lacks payment:override', async () => {
+    givenStay(0);
+
+    const res = mockResponse();
+    await registerExit(exitRequest({ exitOverrideReason: 'Barrier fault' }), res);
+
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.entry.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('records the override when a manager waives the balance', async () => {
+    givenStay(0);
+
+    const res = mockResponse();
+    await registerExit(exitRequest({ exitOverrideReason: 'Barrier fault' }, 'MANAGER'), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.entry.updateMany.mock.calls[0][0].data).toMatchObject({
+      exitOverrideById: 'staff-1',
+      exitOverrideReason: 'Barrier fault'
+    });
+  });
+
+  it('asks to retry when a payment changed during the exit', async () => {
+    givenStay(4);
+    prismaMock.$transaction.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', { code: 'P2034', clientVersion: 'test' })
+    );
+
+    const res = mockResponse();
+    await registerExit(exitRequest(), res);
+
+    expect(res.statusCode).toBe(409);
+  });
+});
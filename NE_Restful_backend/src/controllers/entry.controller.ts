@@ -1,25 +1,200 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, Entry, PlateAlertAction, SpaceType } from '@prisma/client';
 import ServerResponse from '../utils/response';
 import { sendEmail } from '../utils/email';
+import { canAccessParking, parkingCodeFilter } from '../utils/scope';
+import { recordAudit } from '../utils/audit';
+import { endBookedReservation, getEarlyArrivalMs } from '../utils/reservations';
+import { getSetting } from '../utils/settings';
+import { buildBill, quoteStay, PriceQuote } from '../utils/pricing';
+import { getAmountPaid, getAmountsPaid, getBalance, syncEntrySettlement } from '../utils/payments';
+import { callerHasPermission } from '../middlewares/auth.middleware';
+import { CapacityError, releaseSpace, takeSpace } from '../utils/capacity';
 
 const prisma = new PrismaClient();
 
+// Relations are left out of audit diffs
+const withoutRelations = <T extends { parking: unknown; space: unknown; payments?: unknown }>({ parking: _, space: __, payments: ___, ...entry }: T) =>
+  entry;
+
+// Give the vehicle the first free bay of the requested type. Another entry can take the same bay
+// between the lookup and the update, in which case the next free one is tried.
+const claimSpace = async (tx: Prisma.TransactionClient, parkingCode: string, type: SpaceType) => {
+  for (;;) {
+    const space = await tx.parkingSpace.findFirst({
+      where: { parkingCode, type, status: 'AVAILABLE' },
+      orderBy: [{ level: 'asc' }, { zone: 'asc' }, { number: 'asc' }]
+    });
+
+    if (!space) {
+      return null;
+    }
+
+    const { count } = await tx.parkingSpace.updateMany({
+      where: { id: space.id, status: 'AVAILABLE' },
+      data: { status: 'OCCUPIED' }
+    });
+
+    if (count === 1) {
+      return { ...space, status: 'OCCUPIED' as const };
+    }
+  }
+};
+
+type ExitOverride = { exitOverrideById: string | null; exitOverrideReason: string };
+
+// Thrown inside the exit transaction to roll it back when the stay isn't paid for
+class UnpaidBalanceError extends Error {
+  constructor(public balance: number) {
+    super(`A balance of $${balance.toFixed(2)} must be paid before the vehicle can exit`);
+  }
+}
+
+// Thrown inside the entry transaction to roll it back when the reservation was cancelled or released meanwhile
+class ReservationChangedError extends Error {}
+
+// Close an open entry with the price of its stay up to the quote's end, free its bay and give its
+// space back. Only the first of concurrent closes succeeds, the others get null.
+// With `payment`, the balance is checked in the same serializable transaction, so a payment refunded
+// meanwhile can't let the vehicle out unpaid: the exit is refused unless the balance is overridden.
+const closeEntry = async (entry: Entry, quote: PriceQuote, payment?: { exitOverride?: ExitOverride }) => {
+  const updatedEntry = await prisma.$transaction(
+    async (tx) => {
+      const balance = getBalance(quote.total, await getAmountPaid(entry.id, tx));
+
+      if (payment && balance > 0 && !payment.exitOverride) {
+        throw new UnpaidBalanceError(balance);
+      }
+
+      const { count } = await tx.entry.updateMany({
+        where: { id: entry.id, exitDateTime: null },
+        data: {
+          exitDateTime: quote.to,
+          openPlateNumber: null,
+          chargedAmount: quote.total,
+          chargeBreakdown: quote as unknown as Prisma.InputJsonValue,
+          tariffId: quote.tariffId,
+          ...(payment && balance > 0 ? payment.exitOverride : undefined)
+        }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      // Free the bay for the next vehicle
+      if (entry.spaceId) {
+        await tx.parkingSpace.updateMany({
+          where: { id: entry.spaceId, status: 'OCCUPIED' },
+          data: { status: 'AVAILABLE' }
+        });
+      }
+
+      await releaseSpace(tx, entry.parkingCode);
+
+      await syncEntrySettlement(tx, entry.id);
+
+      const closedEntry = await tx.entry.findUniqueOrThrow({
+        where: { id: entry.id },
+        include: {
+          parking: true,
+          space: true,
+          payments: true
+        }
+      });
+
+      return { entry: closedEntry, balance };
+    },
+    payment ? { isolationLevel: Prisma.TransactionIsolationLevel.Serializable } : undefined
+  );
+
+  return updatedEntry;
+};
+
+// Driver a stay belongs to: who booked the reservation it arrived with, or else the user with the plate
+// among their vehicles. A plate registered by several users is left without an owner.
+const resolveEntryOwnerId = async (plateNumber: string, reservation: { userId: string | null } | null) => {
+  if (reservation) {
+    return reservation.userId;
+  }
+
+  const vehicles = await prisma.vehicle.findMany({
+    where: { plateNumber },
+    select: { userId: true },
+    take: 2
+  });
+
+  return vehicles.length === 1 ? vehicles[0].userId : null;
+};
+
+// Owners can read their own stays wherever they parked, staff only at their parkings
+const canAccessEntry = (req: Request, entry: Pick<Entry, 'userId' | 'parkingCode'>) => {
+  const isOwner = !!req.user && entry.userId !== null && entry.userId === req.user.id;
+  return isOwner || canAccessParking(req, entry.parkingCode);
+};
+
+// Flag an entry made while the plate is still parked at another parking
+const raisePlateAlert = async (
+  req: Request,
+  alert: { plateNumber: string; parkingCode: string; conflictingEntryId: string; entryId?: string; action: PlateAlertAction }
+) => {
+  const plateAlert = await prisma.plateAlert.create({
+    data: alert
+  });
+
+  await recordAudit(req, { action: 'PLATE_ALERT_RAISED', targetType: 'PlateAlert', targetId: plateAlert.id, after: plateAlert });
+
+  return plateAlert;
+};
+
 export const registerEntry = async (req: Request, res: Response): Promise<Response> => {
   try {
-    const { plateNumber, parkingCode } = req.body;
+    const { parkingCode, spaceType = 'STANDARD', reservationCode } = req.body;
+    const plateNumber = req.body.plateNumber.trim().toUpperCase();
+
+    // Staff can only register entries at the parkings they are assigned to
+    if (!canAccessParking(req, parkingCode)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${parkingCode}'`);
+    }
 
     // Check if parking exists
     const parking = await prisma.parking.findUnique({
-      where: { code: parkingCode }
+      where: { code: parkingCode, deletedAt: null }
     });
 
     if (!parking) {
       return ServerResponse.notFound(res, `Parking with code '${parkingCode}' not found`);
     }
 
+    // A reservation can be used from shortly before its start until it is released as a no-show
+    let reservation = null;
+    if (reservationCode) {
+      reservation = await prisma.reservation.findUnique({
+        where: { code: reservationCode.trim().toUpperCase() }
+      });
+
+      if (!reservation || reservation.parkingCode !== parkingCode) {
+        return ServerResponse.notFound(res, `Reservation '${reservationCode}' not found for parking '${parking.name}'`);
+      }
+
+      if (reservation.status !== 'BOOKED') {
+        return ServerResponse.conflict(res, `Reservation '${reservation.code}' can't be used, it is ${reservation.status}`);
+      }
+
+      if (reservation.plateNumber !== plateNumber) {
+        return ServerResponse.badRequest(res, `Reservation '${reservation.code}' was made for another vehicle`);
+      }
+
+      if (Date.now() < reservation.startTime.getTime() - getEarlyArrivalMs()) {
+        return ServerResponse.badRequest(res, `Reservation '${reservation.code}' starts at ${reservation.startTime.toISOString()}`);
+      }
+    }
+
+    // A reservation whose window has started already has its space taken out of availableSpaces
+    const usesHeldSpace = !!reservation?.capacityHeld;
+
     // Check if there's available space
-    if (parking.availableSpaces <= 0) {
+    if (!usesHeldSpace && parking.availableSpaces <= 0) {
       return ServerResponse.badRequest(res, `No available spaces in parking '${parking.name}'`);
     }
 
@@ -36,38 +211,162 @@ export const registerEntry = async (req: Request, res: Response): Promise<Respon
       return ServerResponse.conflict(res, `Vehicle with plate number '${plateNumber}' is already in the parking`);
     }
 
-    // Create entry
-    const entry = await prisma.entry.create({
-      data: {
+    // A vehicle can't be inside two parkings: an open entry elsewhere is a data error or a cloned plate
+    const otherParkingEntry = await prisma.entry.findFirst({
+      where: {
         plateNumber,
-        parkingCode,
-        entryDateTime: new Date(),
-        exitDateTime: null,
-        chargedAmount: null
+        parkingCode: { not: parkingCode },
+        exitDateTime: null
+      },
+      include: {
+        parking: true,
+        space: true
       }
     });
 
-    // Update available spaces
-    await prisma.parking.update({
-      where: { code: parkingCode },
-      data: {
-        availableSpaces: {
-          decrement: 1
+    const crossFacilityPolicy = otherParkingEntry ? await getSetting('crossFacilityEntryPolicy') : null;
+
+    if (otherParkingEntry && crossFacilityPolicy === 'reject') {
+      await raisePlateAlert(req, {
+        plateNumber,
+        parkingCode,
+        conflictingEntryId: otherParkingEntry.id,
+        action: 'REJECTED'
+      });
+
+      return ServerResponse.conflict(
+        res,
+        `Vehicle with plate number '${plateNumber}' is still parked at '${otherParkingEntry.parking.name}', the entry was flagged for review`
+      );
+    }
+
+    const ownerId = await resolveEntryOwnerId(plateNumber, reservation);
+
+    // Parkings that model their spaces assign a bay of the requested type. A parking that models only
+    // part of its spaces lets vehicles park unassigned in the rest once no bay of the type is free.
+    const spaceCount = await prisma.parkingSpace.count({
+      where: { parkingCode }
+    });
+    const requiresBay = spaceCount >= parking.totalSpaces;
+
+    // The space, the bay and the entry are taken together, so concurrent gates can't overbook the parking
+    const { entry, space, fulfilledReservation } = await prisma.$transaction(async (tx) => {
+      // The reservation gives its held space back before the entry takes one, whether the hold job
+      // took it since the reservation was read or not
+      if (reservation && !(await endBookedReservation(tx, reservation, { status: 'FULFILLED' }))) {
+        throw new ReservationChangedError(`Reservation '${reservation.code}' is no longer booked`);
+      }
+
+      if (!(await takeSpace(tx, parkingCode))) {
+        throw new CapacityError(`No available spaces in parking '${parking.name}'`);
+      }
+
+      let space = null;
+      if (spaceCount > 0) {
+        space = await claimSpace(tx, parkingCode, spaceType);
+
+        if (!space && requiresBay) {
+          throw new CapacityError(`No available ${spaceType} spaces in parking '${parking.name}'`);
         }
       }
+
+      // Create entry
+      const entry = await tx.entry.create({
+        data: {
+          plateNumber,
+          openPlateNumber: plateNumber,
+          parkingCode,
+          spaceId: space?.id,
+          reservationId: reservation?.id,
+          userId: ownerId,
+          entryDateTime: new Date(),
+          exitDateTime: null,
+          chargedAmount: null
+        }
+      });
+
+      const fulfilledReservation = reservation ? await tx.reservation.findUnique({ where: { id: reservation.id } }) : null;
+
+      // What was paid ahead for the reservation goes towards the stay
+      if (reservation) {
+        await tx.payment.updateMany({
+          where: { reservationId: reservation.id },
+          data: { entryId: entry.id }
+        });
+      }
+
+      return { entry, space, fulfilledReservation };
     });
 
+    if (reservation) {
+      await recordAudit(req, {
+        action: 'RESERVATION_FULFILLED',
+        targetType: 'Reservation',
+        targetId: reservation.id,
+        before: reservation,
+        after: fulfilledReservation
+      });
+    }
+
+    await recordAudit(req, { action: 'ENTRY_REGISTERED', targetType: 'Entry', targetId: entry.id, after: entry });
+
+    // The entry is let in with a flag for review, after closing the stale entry when configured to
+    let plateAlert = null;
+    if (otherParkingEntry) {
+      if (crossFacilityPolicy === 'auto-close') {
+        // Whatever the stale stay owes is left unpaid on it, for the review to settle
+        const staleQuote = await quoteStay(otherParkingEntry.parking, otherParkingEntry.entryDateTime, entry.entryDateTime);
+        const closed = await closeEntry(otherParkingEntry, staleQuote);
+
+        if (closed) {
+          await recordAudit(req, {
+            action: 'ENTRY_AUTO_CLOSED',
+            targetType: 'Entry',
+            targetId: otherParkingEntry.id,
+            before: withoutRelations(otherParkingEntry),
+            after: withoutRelations(closed.entry)
+          });
+        }
+      }
+
+      plateAlert = await raisePlateAlert(req, {
+        plateNumber,
+        parkingCode,
+        conflictingEntryId: otherParkingEntry.id,
+        entryId: entry.id,
+        action: crossFacilityPolicy === 'auto-close' ? 'AUTO_CLOSED' : 'WARNED'
+      });
+    }
+
     // Generate ticket
     const ticket = {
       ticketNumber: entry.id,
       plateNumber: entry.plateNumber,
       parkingName: parking.name,
+      spaceNumber: space?.number ?? null,
+      spaceLevel: space?.level ?? null,
+      spaceZone: space?.zone ?? null,
+      spaceType: space?.type ?? null,
+      reservationCode: reservation?.code ?? null,
       entryDateTime: entry.entryDateTime,
       hourlyFee: parking.hourlyFee
     };
 
-    return ServerResponse.created(res, { entry, ticket }, 'Vehicle entry registered and ticket generated successfully');
+    return ServerResponse.created(res, { entry, ticket, plateAlert }, 'Vehicle entry registered and ticket generated successfully');
   } catch (error) {
+    if (error instanceof CapacityError) {
+      return ServerResponse.badRequest(res, error.message);
+    }
+
+    if (error instanceof ReservationChangedError) {
+      return ServerResponse.conflict(res, error.message);
+    }
+
+    // The database allows a single open entry per plate and parking, whichever gate got there first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return ServerResponse.conflict(res, `Vehicle with plate number '${req.body.plateNumber.trim().toUpperCase()}' is already in the parking`);
+    }
+
     console.error('Register entry error:', error);
     return ServerResponse.error(res, 'Failed to register entry');
   }
@@ -81,7 +380,8 @@ export const registerExit = async (req: Request, res: Response): Promise<Respons
     const entry = await prisma.entry.findUnique({
       where: { id },
       include: {
-        parking: true
+        parking: true,
+        space: true
       }
     });
 
@@ -89,63 +389,60 @@ export const registerExit = async (req: Request, res: Response): Promise<Respons
       return ServerResponse.notFound(res, `Entry with ID '${id}' not found`);
     }
 
+    if (!canAccessParking(req, entry.parkingCode)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${entry.parkingCode}'`);
+    }
+
     // Check if entry is already closed
     if (entry.exitDateTime) {
       return ServerResponse.conflict(res, `Entry with ID '${id}' is already closed`);
     }
 
-    // Calculate duration and amount
-    const exitDateTime = new Date();
-    const entryDateTime = new Date(entry.entryDateTime);
-    
-    // Calculate duration in hours
-    const durationInMs = exitDateTime.getTime() - entryDateTime.getTime();
-    const durationInHours = Math.ceil(durationInMs / (1000 * 60 * 60));
-    
-    // Calculate charged amount
-    const hourlyFee = entry.parking.hourlyFee;
-    const chargedAmount = Number(hourlyFee) * durationInHours;
-
-    // Update entry
-    const updatedEntry = await prisma.entry.update({
-      where: { id },
-      data: {
-        exitDateTime,
-        chargedAmount
-      },
-      include: {
-        parking: true
-      }
-    });
+    // Price the stay with the tariff version in force when it started
+    const quote = await quoteStay(entry.parking, entry.entryDateTime, new Date());
+    const chargedAmount = quote.total;
+    const { exitOverrideReason } = req.body;
 
-    // Update available spaces
-    await prisma.parking.update({
-      where: { code: entry.parkingCode },
-      data: {
-        availableSpaces: {
-          increment: 1
-        }
-      }
+    // The barrier only opens once the stay is paid for, unless someone allowed to waives the balance
+    const exitOverride =
+      exitOverrideReason && callerHasPermission(req, 'payment:override')
+        ? { exitOverrideById: req.user?.id ?? null, exitOverrideReason }
+        : undefined;
+
+    const closed = await closeEntry(entry, quote, { exitOverride });
+
+    if (!closed) {
+      return ServerResponse.conflict(res, `Entry with ID '${id}' is already closed`);
+    }
+
+    const { entry: updatedEntry, balance } = closed;
+
+    await recordAudit(req, {
+      action: 'EXIT_REGISTERED',
+      targetType: 'Entry',
+      targetId: id,
+      before: withoutRelations(entry),
+      after: withoutRelations(updatedEntry)
     });
 
+    if (balance > 0) {
+      await recordAudit(req, {
+        action: 'EXIT_PAYMENT_OVERRIDDEN',
+        targetType: 'Entry',
+        targetId: id,
+        after: { balance, exitOverrideReason }
+      });
+    }
+
     // Generate bill
-    const bill = {
-      billNumber: updatedEntry.id,
-      plateNumber: updatedEntry.plateNumber,
-      parkingName: updatedEntry.parking.name,
-      entryDateTime: updatedEntry.entryDateTime,
-      exitDateTime: updatedEntry.exitDateTime,
-      durationInHours,
-      hourlyFee: updatedEntry.parking.hourlyFee,
-      totalAmount: updatedEntry.chargedAmount
-    };
+    const bill = buildBill(updatedEntry);
 
     // Send email notification
     try {
       await sendEmail({
         to: 'customer@example.com', // In a real application, you would get the customer's email
         subject: 'Parking Payment Receipt',
-        text: `Thank you for using XWYZ Parking. Your payment of $${chargedAmount} has been processed.`,
+        text: `Thank you for using XWYZ Parking. Your payment of $${bill.amountPaid} has been processed.`,
         html: `
           <h2>XWYZ Parking Receipt</h2>
           <p>Thank you for using XWYZ Parking.</p>
@@ -153,11 +450,21 @@ export const registerExit = async (req: Request, res: Response): Promise<Respons
           <ul>
             <li>Plate Number: ${updatedEntry.plateNumber}</li>
             <li>Parking: ${updatedEntry.parking.name}</li>
+            ${updatedEntry.space ? `<li>Space: ${updatedEntry.space.number}</li>` : ''}
             <li>Entry Time: ${updatedEntry.entryDateTime}</li>
             <li>Exit Time: ${updatedEntry.exitDateTime}</li>
-            <li>Duration: ${durationInHours} hours</li>
-            <li>Amount: $${chargedAmount}</li>
+            <li>Duration: ${bill.durationInHours} hours</li>
           </ul>
+          <p>Charges (${bill.tariffName}):</p>
+          <ul>
+            ${quote.lines.map((line) => `<li>${line.description}: ${line.hours} h, $${line.amount}</li>`).join('')}
+          </ul>
+          <p><strong>Amount: $${chargedAmount}</strong></p>
+          <p>Payments:</p>
+          <ul>
+            ${bill.payments.map((payment) => `<li>${payment.method}: $${payment.amount} (${payment.status})</li>`).join('')}
+          </ul>
+          ${bill.balanceDue > 0 ? `<p><strong>Balance due: $${bill.balanceDue}</strong></p>` : ''}
         `
       });
     } catch (emailError) {
@@ -166,6 +473,17 @@ export const registerExit = async (req: Request, res: Response): Promise<Respons
 
     return ServerResponse.success(res, { entry: updatedEntry, bill }, 'Vehicle exit registered and bill generated successfully');
   } catch (error) {
+    if (error instanceof UnpaidBalanceError) {
+      return req.body.exitOverrideReason
+        ? ServerResponse.forbidden(res, 'Not authorized. Missing permission: payment:override')
+        : ServerResponse.paymentRequired(res, error.message);
+    }
+
+    // A payment or another exit changed the entry while it was being closed
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return ServerResponse.conflict(res, 'The entry changed while the exit was registered, please try again');
+    }
+
     console.error('Register exit error:', error);
     return ServerResponse.error(res, 'Failed to register exit');
   }
@@ -174,8 +492,12 @@ export const registerExit = async (req: Request, res: Response): Promise<Respons
 export const getAllEntries = async (req: Request, res: Response): Promise<Response> => {
   try {
     const entries = await prisma.entry.findMany({
+      where: {
+        parkingCode: parkingCodeFilter(req)
+      },
       include: {
-        parking: true
+        parking: true,
+        space: true
       }
     });
 
@@ -190,10 +512,12 @@ export const getActiveEntries = async (req: Request, res: Response): Promise<Res
   try {
     const entries = await prisma.entry.findMany({
       where: {
-        exitDateTime: null
+        exitDateTime: null,
+        parkingCode: parkingCodeFilter(req)
       },
       include: {
-        parking: true
+        parking: true,
+        space: true
       }
     });
 
@@ -204,6 +528,46 @@ export const getActiveEntries = async (req: Request, res: Response): Promise<Res
   }
 };
 
+// Quotes of every vehicle parked at the caller's parkings in one request, for screens that keep the
+// amounts of all parked vehicles up to date without a request per vehicle
+export const getActiveEntryQuotes = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const now = new Date();
+
+    const entries = await prisma.entry.findMany({
+      where: {
+        exitDateTime: null,
+        parkingCode: parkingCodeFilter(req)
+      },
+      include: {
+        parking: true
+      }
+    });
+
+    const amountsPaid = await getAmountsPaid(entries.map((entry) => entry.id));
+
+    const quotes = [];
+    for (const entry of entries) {
+      const quote = await quoteStay(entry.parking, entry.entryDateTime, now);
+      const amountPaid = amountsPaid.get(entry.id) ?? 0;
+
+      quotes.push({
+        entryId: entry.id,
+        plateNumber: entry.plateNumber,
+        parkingName: entry.parking.name,
+        ...quote,
+        amountPaid,
+        amountDue: getBalance(quote.total, amountPaid)
+      });
+    }
+
+    return ServerResponse.success(res, quotes, 'Quotes calculated successfully');
+  } catch (error) {
+    console.error('Get active entry quotes error:', error);
+    return ServerResponse.error(res, 'Failed to calculate quotes');
+  }
+};
+
 export const getEntryById = async (req: Request, res: Response): Promise<Response> => {
   try {
     const { id } = req.params;
@@ -211,7 +575,8 @@ export const getEntryById = async (req: Request, res: Response): Promise<Respons
     const entry = await prisma.entry.findUnique({
       where: { id },
       include: {
-        parking: true
+        parking: true,
+        space: true
       }
     });
 
@@ -219,9 +584,95 @@ export const getEntryById = async (req: Request, res: Response): Promise<Respons
       return ServerResponse.notFound(res, `Entry with ID '${id}' not found`);
     }
 
+    if (!canAccessEntry(req, entry)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${entry.parkingCode}'`);
+    }
+
     return ServerResponse.success(res, entry, 'Entry retrieved successfully');
   } catch (error) {
     console.error('Get entry by ID error:', error);
     return ServerResponse.error(res, 'Failed to retrieve entry');
   }
-};
\ No newline at end of file
+};
+
+export const getEntryBill = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const entry = await prisma.entry.findUnique({
+      where: { id },
+      include: {
+        parking: true,
+        space: true,
+        payments: true
+      }
+    });
+
+    if (!entry) {
+      return ServerResponse.notFound(res, `Entry with ID '${id}' not found`);
+    }
+
+    if (!canAccessEntry(req, entry)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${entry.parkingCode}'`);
+    }
+
+    if (!entry.exitDateTime) {
+      return ServerResponse.conflict(res, `Entry with ID '${id}' is still open`);
+    }
+
+    return ServerResponse.success(res, buildBill(entry), 'Bill retrieved successfully');
+  } catch (error) {
+    console.error('Get entry bill error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve bill');
+  }
+};
+
+export const getEntryQuote = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+
+    const entry = await prisma.entry.findUnique({
+      where: { id },
+      include: {
+        parking: true
+      }
+    });
+
+    if (!entry) {
+      return ServerResponse.notFound(res, `Entry with ID '${id}' not found`);
+    }
+
+    if (!canAccessEntry(req, entry)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${entry.parkingCode}'`);
+    }
+
+    if (entry.exitDateTime) {
+      return ServerResponse.conflict(res, `Entry with ID '${id}' is already closed, get its bill instead`);
+    }
+
+    if (at < entry.entryDateTime) {
+      return ServerResponse.badRequest(res, 'The quote time must be after the entry time');
+    }
+
+    // Priced exactly like the exit would be at that time, without closing the entry
+    const quote = await quoteStay(entry.parking, entry.entryDateTime, at);
+    const amountPaid = await getAmountPaid(entry.id);
+
+    return ServerResponse.success(
+      res,
+      {
+        entryId: entry.id,
+        plateNumber: entry.plateNumber,
+        parkingName: entry.parking.name,
+        ...quote,
+        amountPaid,
+        amountDue: getBalance(quote.total, amountPaid)
+      },
+      'Quote calculated successfully'
+    );
+  } catch (error) {
+    console.error('Get entry quote error:', error);
+    return ServerResponse.error(res, 'Failed to calculate quote');
+  }
+};
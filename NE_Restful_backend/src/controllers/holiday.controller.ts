@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+export const getHolidays = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { calendar, year } = req.query as Record<string, string | undefined>;
+
+    const holidays = await prisma.holiday.findMany({
+      where: {
+        calendar,
+        date: year ? { gte: new Date(`${year}-01-01`), lte: new Date(`${year}-12-31`) } : undefined
+      },
+      orderBy: [{ calendar: 'asc' }, { date: 'asc' }]
+    });
+
+    return ServerResponse.success(res, holidays, 'Holidays retrieved successfully');
+  } catch (error) {
+    console.error('Get holidays error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve holidays');
+  }
+};
+
+export const createHoliday = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { calendar, name } = req.body;
+    // Holidays are whole calendar days, stored without a time
+    const date = new Date(`${req.body.date.slice(0, 10)}T00:00:00.000Z`);
+
+    const existingHoliday = await prisma.holiday.findUnique({
+      where: { calendar_date: { calendar, date } }
+    });
+
+    if (existingHoliday) {
+      return ServerResponse.conflict(res, `Calendar '${calendar}' already has a holiday on ${req.body.date.slice(0, 10)}`);
+    }
+
+    const holiday = await prisma.holiday.create({
+      data: { calendar, date, name }
+    });
+
+    await recordAudit(req, { action: 'HOLIDAY_CREATED', targetType: 'Holiday', targetId: holiday.id, after: holiday });
+
+    return ServerResponse.created(res, holiday, 'Holiday created successfully');
+  } catch (error) {
+    console.error('Create holiday error:', error);
+    return ServerResponse.error(res, 'Failed to create holiday');
+  }
+};
+
+export const deleteHoliday = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const holiday = await prisma.holiday.findUnique({
+      where: { id }
+    });
+
+    if (!holiday) {
+      return ServerResponse.notFound(res, 'Holiday not found');
+    }
+
+    await prisma.holiday.delete({
+      where: { id }
+    });
+
+    await recordAudit(req, { action: 'HOLIDAY_DELETED', targetType: 'Holiday', targetId: id, before: holiday });
+
+    return ServerResponse.success(res, null, 'Holiday deleted successfully');
+  } catch (error) {
+    console.error('Delete holiday error:', error);
+    return ServerResponse.error(res, 'Failed to delete holiday');
+  }
+};
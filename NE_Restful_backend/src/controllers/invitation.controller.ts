@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { sendEmail } from '../utils/email';
+import { generateToken, hashToken } from '../utils/token';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  parkingCodes: true,
+  invitedById: true,
+  expiresAt: true,
+  acceptedAt: true,
+  revokedAt: true,
+  createdAt: true
+};
+
+export const createInvitation = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { email, role, parkingCodes = [] } = req.body;
+
+    // Existing accounts are promoted through the update user endpoint instead
+    const existingUser = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (existingUser) {
+      return ServerResponse.conflict(res, 'User with this email already exists');
+    }
+
+    // Check that every pre-assigned parking exists
+    const parkings = await prisma.parking.findMany({
+      where: { code: { in: parkingCodes }, deletedAt: null },
+      select: { code: true }
+    });
+
+    const unknownCodes = parkingCodes.filter((code: string) => !parkings.some((parking) => parking.code === code));
+    if (unknownCodes.length > 0) {
+      return ServerResponse.notFound(res, `Parking with code '${unknownCodes[0]}' not found`);
+    }
+
+    // A new invitation replaces any pending one for the same email
+    await prisma.invitation.updateMany({
+      where: { email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    const token = generateToken();
+    const expiresInHours = parseInt(process.env.INVITATION_EXPIRES_HOURS || '72');
+
+    const invitation = await prisma.invitation.create({
+      data: {
+        email,
+        role,
+        parkingCodes,
+        tokenHash: hashToken(token),
+        invitedById: req.user.id,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+      },
+      select: invitationSelect
+    });
+
+    const invitationLink = `${process.env.CLIENT_URL || 'http://localhost:5173'}/accept-invitation?token=${token}`;
+
+    try {
+      await sendEmail({
+        to: email,
+        subject: 'You have been invited to XWYZ Parking Management System',
+        text: `You have been invited to join XWYZ Parking as ${role}. Create your account with the following link: ${invitationLink}. The invitation expires in ${expiresInHours} hours.`,
+        html: `<p>You have been invited to join XWYZ Parking as <strong>${role}</strong>.</p><p>Create your account with the following link:</p><p><a href="${invitationLink}">${invitationLink}</a></p><p>The invitation expires in ${expiresInHours} hours.</p>`
+      });
+    } catch (emailError) {
+      console.error('Error sending invitation email:', emailError);
+    }
+
+    await recordAudit(req, { action: 'INVITATION_CREATED', targetType: 'Invitation', targetId: invitation.id, after: invitation });
+
+    return ServerResponse.created(res, invitation, 'Invitation sent successfully');
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    return ServerResponse.error(res, 'Failed to create invitation');
+  }
+};
+
+export const getAllInvitations = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const invitations = await prisma.invitation.findMany({
+      select: invitationSelect,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return ServerResponse.success(res, invitations, 'Invitations retrieved successfully');
+  } catch (error) {
+    console.error('Get all invitations error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve invitations');
+  }
+};
+
+export const revokeInvitation = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const invitation = await prisma.invitation.findUnique({
+      where: { id }
+    });
+
+    if (!invitation) {
+      return ServerResponse.notFound(res, 'Invitation not found');
+    }
+
+    if (invitation.acceptedAt) {
+      return ServerResponse.conflict(res, 'Invitation has already been accepted');
+    }
+
+    const revokedInvitation = await prisma.invitation.update({
+      where: { id },
+      data: { revokedAt: invitation.revokedAt || new Date() },
+      select: invitationSelect
+    });
+
+    await recordAudit(req, {
+      action: 'INVITATION_REVOKED',
+      targetType: 'Invitation',
+      targetId: id,
+      before: { revokedAt: invitation.revokedAt },
+      after: { revokedAt: revokedInvitation.revokedAt }
+    });
+
+    return ServerResponse.success(res, revokedInvitation, 'Invitation revoked successfully');
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    return ServerResponse.error(res, 'Failed to revoke invitation');
+  }
+};
@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import ServerResponse from '../utils/response';
+
+const prisma = new PrismaClient();
+
+export const getLogs = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { actorId, action, targetType, targetId, from, to } = req.query;
+    const page = parseInt((req.query.page as string) || '1');
+    const limit = parseInt((req.query.limit as string) || '50');
+
+    const where: Prisma.LogWhereInput = {
+      userId: actorId as string | undefined,
+      action: action as string | undefined,
+      targetType: targetType as string | undefined,
+      targetId: targetId as string | undefined,
+      createdAt: from || to
+        ? {
+            gte: from ? new Date(from as string) : undefined,
+            lte: to ? new Date(to as string) : undefined
+          }
+        : undefined
+    };
+
+    // Most recent events first
+    const [logs, total] = await prisma.$transaction([
+      prisma.log.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              role: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.log.count({ where })
+    ]);
+
+    return ServerResponse.success(res, {
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    }, 'Audit logs retrieved successfully');
+  } catch (error) {
+    console.error('Get logs error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve audit logs');
+  }
+};
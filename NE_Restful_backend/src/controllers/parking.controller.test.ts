@@ -0,0 +1,41 @@
+import { updateParking } from './parking.controller';
+import { recordHourlyFeeChange } from '../utils/pricing';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+jest.mock('../utils/pricing');
+
+const parking = { id: 'parking-1', code: 'P-001', name: 'Downtown', location: 'Kigali', totalSpaces: 10, availableSpaces: 5, hourlyFee: 2, deletedAt: null };
+
+const updateRequest = (body: Record<string, unknown>) =>
+  mockRequest({ params: { code: 'P-001' }, body, user: { id: 'admin-1', role: 'ADMIN', parkingCodes: null } });
+
+beforeEach(() => {
+  prismaMock.parking.findUnique.mockResolvedValue(parking);
+  prismaMock.parking.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.parking.findUniqueOrThrow.mockImplementation(() =>
+    Promise.resolve({ ...parking, ...prismaMock.parking.updateMany.mock.calls[0][0].data })
+  );
+  prismaMock.log.create.mockResolvedValue({});
+  (recordHourlyFeeChange as jest.Mock).mockReset();
+});
+
+describe('updateParking', () => {
+  it('makes a parking free with an hourly fee of 0', async () => {
+    const res = mockResponse();
+    await updateParking(updateRequest({ hourlyFee: 0 }), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.parking.updateMany.mock.calls[0][0].data.hourlyFee).toBe(0);
+    expect(recordHourlyFeeChange).toHaveBeenCalledWith(expect.anything(), parking, 0, expect.any(Date));
+  });
+
+  it('keeps the fee when none is given', async () => {
+    const res = mockResponse();
+    await updateParking(updateRequest({ name: 'Downtown East' }), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.parking.updateMany.mock.calls[0][0].data.hourlyFee).toBe(2);
+    expect(recordHourlyFeeChange).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import ServerResponse from '../utils/response';
+import { canAccessParking, parkingCodeFilter } from '../utils/scope';
+import { recordAudit } from '../utils/audit';
+import { callerHasPermission } from '../middlewares/auth.middleware';
+import { recordHourlyFeeChange } from '../utils/pricing';
+import { CapacityError, reconcileCapacity } from '../utils/capacity';
 
 const prisma = new PrismaClient();
 
@@ -13,6 +18,10 @@ export const createParking = async (req: Request, res: Response): Promise<Respon
       where: { code }
     });
 
+    if (existingParking?.deletedAt) {
+      return ServerResponse.conflict(res, `Parking with code '${code}' was deleted, restore it instead`);
+    }
+
     if (existingParking) {
       return ServerResponse.conflict(res, `Parking with code '${code}' already exists`);
     }
@@ -29,6 +38,8 @@ export const createParking = async (req: Request, res: Response): Promise<Respon
       }
     });
 
+    await recordAudit(req, { action: 'PARKING_CREATED', targetType: 'Parking', targetId: parking.code, after: parking });
+
     return ServerResponse.created(res, parking, 'Parking created successfully');
   } catch (error) {
     console.error('Create parking error:', error);
@@ -38,7 +49,15 @@ export const createParking = async (req: Request, res: Response): Promise<Respon
 
 export const getAllParkings = async (req: Request, res: Response): Promise<Response> => {
   try {
-    const parkings = await prisma.parking.findMany();
+    // Deleted parkings are only listed on request, to callers who can restore them
+    const includeDeleted = req.query.includeDeleted === 'true' && callerHasPermission(req, 'parking:delete');
+
+    const parkings = await prisma.parking.findMany({
+      where: {
+        code: parkingCodeFilter(req),
+        deletedAt: includeDeleted ? undefined : null
+      }
+    });
     return ServerResponse.success(res, parkings, 'Parkings retrieved successfully');
   } catch (error) {
     console.error('Get all parkings error:', error);
@@ -50,8 +69,12 @@ export const getParkingByCode = async (req: Request, res: Response): Promise<Res
   try {
     const { code } = req.params;
 
+    if (!canAccessParking(req, code)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${code}'`);
+    }
+
     const parking = await prisma.parking.findUnique({
-      where: { code }
+      where: { code, deletedAt: null }
     });
 
     if (!parking) {
@@ -70,37 +93,84 @@ export const updateParking = async (req: Request, res: Response): Promise<Respon
     const { code } = req.params;
     const { name, totalSpaces, location, hourlyFee } = req.body;
 
+    // Managers can only update the parkings they are assigned to
+    if (!canAccessParking(req, code)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${code}'`);
+    }
+
     // Check if parking exists
     const existingParking = await prisma.parking.findUnique({
-      where: { code }
+      where: { code, deletedAt: null }
     });
 
     if (!existingParking) {
       return ServerResponse.notFound(res, `Parking with code '${code}' not found`);
     }
 
+    // The capacity can't drop below the number of bays modelled for the parking
+    if (totalSpaces !== undefined) {
+      const spaceCount = await prisma.parkingSpace.count({
+        where: { parkingCode: code }
+      });
+
+      if (totalSpaces < spaceCount) {
+        return ServerResponse.badRequest(res, `Parking '${existingParking.name}' has ${spaceCount} spaces, remove some before lowering its capacity`);
+      }
+    }
+
     // Calculate available spaces adjustment
     let availableSpacesAdjustment = 0;
     if (totalSpaces !== undefined && totalSpaces !== existingParking.totalSpaces) {
       availableSpacesAdjustment = totalSpaces - existingParking.totalSpaces;
     }
 
+    const feeChanged = hourlyFee !== undefined && Number(hourlyFee) !== Number(existingParking.hourlyFee);
+
     // Update parking
-    const updatedParking = await prisma.parking.update({
-      where: { code },
-      data: {
-        name: name || existingParking.name,
-        totalSpaces: totalSpaces || existingParking.totalSpaces,
-        availableSpaces: {
-          increment: availableSpacesAdjustment
-        },
-        location: location || existingParking.location,
-        hourlyFee: hourlyFee || existingParking.hourlyFee
+    const updatedParking = await prisma.$transaction(async (tx) => {
+      // Fee changes are kept as tariff versions so past stays keep the price they were charged
+      if (feeChanged) {
+        await recordHourlyFeeChange(tx, existingParking, hourlyFee, new Date());
+      }
+
+      // Removing spaces needs as many of them free. The database checks it in the same statement,
+      // so vehicles entering meanwhile can't push availableSpaces below zero.
+      const { count } = await tx.parking.updateMany({
+        where: { code, availableSpaces: { gte: Math.max(0, -availableSpacesAdjustment) } },
+        data: {
+          name: name || existingParking.name,
+          totalSpaces: totalSpaces || existingParking.totalSpaces,
+          availableSpaces: {
+            increment: availableSpacesAdjustment
+          },
+          location: location || existingParking.location,
+          hourlyFee: hourlyFee ?? existingParking.hourlyFee
+        }
+      });
+
+      if (count === 0) {
+        throw new CapacityError(`Parking '${existingParking.name}' doesn't have ${-availableSpacesAdjustment} free spaces to remove`);
       }
+
+      return tx.parking.findUniqueOrThrow({
+        where: { code }
+      });
+    });
+
+    await recordAudit(req, {
+      action: 'PARKING_UPDATED',
+      targetType: 'Parking',
+      targetId: code,
+      before: existingParking,
+      after: updatedParking
     });
 
     return ServerResponse.success(res, updatedParking, 'Parking updated successfully');
   } catch (error) {
+    if (error instanceof CapacityError) {
+      return ServerResponse.conflict(res, error.message);
+    }
+
     console.error('Update parking error:', error);
     return ServerResponse.error(res, 'Failed to update parking');
   }
@@ -112,7 +182,7 @@ export const deleteParking = async (req: Request, res: Response): Promise<Respon
 
     // Check if parking exists
     const existingParking = await prisma.parking.findUnique({
-      where: { code }
+      where: { code, deletedAt: null }
     });
 
     if (!existingParking) {
@@ -131,9 +201,29 @@ export const deleteParking = async (req: Request, res: Response): Promise<Respon
       return ServerResponse.conflict(res, `Cannot delete parking with active entries`);
     }
 
-    // Delete parking
-    await prisma.parking.delete({
-      where: { code }
+    const bookedReservations = await prisma.reservation.count({
+      where: {
+        parkingCode: code,
+        status: 'BOOKED'
+      }
+    });
+
+    if (bookedReservations > 0) {
+      return ServerResponse.conflict(res, `Cannot delete parking with booked reservations`);
+    }
+
+    // Soft delete: the parking's entries stay linked to it for reports and bills
+    const deletedParking = await prisma.parking.update({
+      where: { code },
+      data: { deletedAt: new Date() }
+    });
+
+    await recordAudit(req, {
+      action: 'PARKING_DELETED',
+      targetType: 'Parking',
+      targetId: code,
+      before: existingParking,
+      after: deletedParking
     });
 
     return ServerResponse.success(res, null, 'Parking deleted successfully');
@@ -143,13 +233,87 @@ export const deleteParking = async (req: Request, res: Response): Promise<Respon
   }
 };
 
+export const restoreParking = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { code } = req.params;
+
+    // Check if parking exists
+    const existingParking = await prisma.parking.findUnique({
+      where: { code }
+    });
+
+    if (!existingParking) {
+      return ServerResponse.notFound(res, `Parking with code '${code}' not found`);
+    }
+
+    if (!existingParking.deletedAt) {
+      return ServerResponse.conflict(res, `Parking with code '${code}' is not deleted`);
+    }
+
+    const restoredParking = await prisma.parking.update({
+      where: { code },
+      data: { deletedAt: null }
+    });
+
+    await recordAudit(req, {
+      action: 'PARKING_RESTORED',
+      targetType: 'Parking',
+      targetId: code,
+      before: existingParking,
+      after: restoredParking
+    });
+
+    return ServerResponse.success(res, restoredParking, 'Parking restored successfully');
+  } catch (error) {
+    console.error('Restore parking error:', error);
+    return ServerResponse.error(res, 'Failed to restore parking');
+  }
+};
+
+export const reconcileParkingCapacity = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { code } = req.params;
+
+    const existingParking = await prisma.parking.findUnique({
+      where: { code, deletedAt: null }
+    });
+
+    if (!existingParking) {
+      return ServerResponse.notFound(res, `Parking with code '${code}' not found`);
+    }
+
+    const { before, after, openEntries, heldReservations } = await reconcileCapacity(code);
+
+    if (before.availableSpaces !== after.availableSpaces) {
+      await recordAudit(req, {
+        action: 'PARKING_CAPACITY_RECONCILED',
+        targetType: 'Parking',
+        targetId: code,
+        before,
+        after
+      });
+    }
+
+    return ServerResponse.success(
+      res,
+      { parking: after, previousAvailableSpaces: before.availableSpaces, openEntries, heldReservations },
+      'Parking capacity reconciled successfully'
+    );
+  } catch (error) {
+    console.error('Reconcile parking capacity error:', error);
+    return ServerResponse.error(res, 'Failed to reconcile parking capacity');
+  }
+};
+
 export const getAvailableParkings = async (req: Request, res: Response): Promise<Response> => {
   try {
     const parkings = await prisma.parking.findMany({
       where: {
         availableSpaces: {
           gt: 0
-        }
+        },
+        code: parkingCodeFilter(req),
+        deletedAt: null
       }
     });
 
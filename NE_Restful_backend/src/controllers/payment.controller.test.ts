@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { createPayment, handlePaymentWebhook } from './payment.controller';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+const payment = { id: 'payment-1', entryId: null, reservationId: 'reservation-1', provider: 'mock', providerPaymentId: 'mock_pi_1', status: 'PENDING' };
+
+const event = { eventId: 'mock_evt_1', type: 'payment.succeeded', providerPaymentId: 'mock_pi_1', status: 'COMPLETED' };
+
+// A webhook as the mock provider sends it, signed `secondsAgo` seconds ago with `secret`
+const webhookRequest = (
+  body: object = event,
+  { secret = 'test-webhook-secret', secondsAgo = 0 }: { secret?: string; secondsAgo?: number } = {}
+) => {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const timestamp = Math.floor(Date.now() / 1000) - secondsAgo;
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+
+  return mockRequest({
+    params: { provider: 'mock' },
+    headers: { 'x-mock-signature': `t=${timestamp},v1=${signature}` },
+    body: rawBody
+  });
+};
+
+beforeEach(() => {
+  prismaMock.payment.findUnique.mockResolvedValue(payment);
+  prismaMock.paymentEvent.createMany.mockResolvedValue({ count: 1 });
+  prismaMock.payment.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.payment.findUniqueOrThrow.mockResolvedValue({ ...payment, status: 'COMPLETED' });
+  prismaMock.log.create.mockResolvedValue({});
+});
+
+describe('handlePaymentWebhook', () => {
+  it('applies a signed event and audits the status change', async () => {
+    const res = mockResponse();
+    await handlePaymentWebhook(webhookRequest(), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data).toEqual({ received: true, duplicate: false });
+    expect(prismaMock.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'payment-1', status: { in: ['PENDING'] } },
+      data: expect.objectContaining({ status: 'COMPLETED' })
+    });
+    expect(prismaMock.log.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'PAYMENT_STATUS_CHANGED', targetId: 'payment-1' })
+    });
+  });
+
+  it('records a partial refund without refunding the whole payment', async () => {
+    const completed = { ...payment, status: 'COMPLETED', amount: 10, refundedAmount: 0 };
+    prismaMock.payment.findUnique.mockResolvedValue(completed);
+    prismaMock.payment.findUniqueOrThrow.mockResolvedValue(completed);
+
+    const res = mockResponse();
+    await handlePaymentWebhook(
+      webhookRequest({ ...event, eventId: 'mock_evt_2', type: 'payment.refunded', status: 'REFUNDED', amountRefunded: 3 }),
+      res
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'payment-1', status: 'COMPLETED', refundedAmount: { lt: 3 } },
+      data: { refundedAmount: 3, status: undefined, refundedAt: expect.any(Date) }
+    });
+  });
+
+  it('acknowledges a redelivered event without applying it again', async () => {
+    prismaMock.paymentEvent.createMany.mockResolvedValue({ count: 0 });
+
+    const res = mockResponse();
+    await handlePaymentWebhook(webhookRequest(), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data).toEqual({ received: true, duplicate: true });
+    expect(prismaMock.payment.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects an event signed with another secret', async () => {
+    const res = mockResponse();
+    await handlePaymentWebhook(webhookRequest(event, { secret: 'mock-webhook-secret' }), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.paymentEvent.createMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects an event whose signature is too old to be trusted', async () => {
+    const res = mockResponse();
+    await handlePaymentWebhook(webhookRequest(event, { secondsAgo: 10 * 60 }), res);
+
+    expect(res.statusCode).toBe(401);
+    expect(res.body.message).toBe('Webhook timestamp missing or too old');
+  });
+
+  it('rejects every event while the webhook secret is not set', async () => {
+    delete process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+
+    try {
+      const res = mockResponse();
+      await handlePaymentWebhook(webhookRequest(), res);
+
+      expect(res.statusCode).toBe(401);
+    } finally {
+      process.env.MOCK_PAYMENT_WEBHOOK_SECRET = 'test-webhook-secret';
+    }
+  });
+
+  it('refuses a signed event that is malformed', async () => {
+    const res = mockResponse();
+    await handlePaymentWebhook(webhookRequest({ ...event, status: 'PAID' }), res);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('does not take webhooks for the mock provider in production unless it is enabled', async () => {
+    process.env.NODE_ENV = 'production';
+
+    try {
+      const res = mockResponse();
+      await handlePaymentWebhook(webhookRequest(), res);
+
+      expect(res.statusCode).toBe(404);
+      expect(prismaMock.paymentEvent.createMany).not.toHaveBeenCalled();
+    } finally {
+      process.env.NODE_ENV = 'test';
+    }
+  });
+});
+
+describe('createPayment', () => {
+  const exitedEntry = {
+    id: 'entry-1',
+    parkingCode: 'P-001',
+    userId: null,
+    exitDateTime: new Date(),
+    chargedAmount: 4,
+    settledAt: null,
+    parking: { code: 'P-001' }
+  };
+
+  const paymentRequest = (amount: number) =>
+    mockRequest({ params: { id: 'entry-1' }, body: { method: 'CASH', amount }, user: { id: 'staff-1', role: 'ATTENDANT', parkingCodes: null } });
+
+  // The completed and pending sums read before the transaction, then again inside it
+  const givenPaid = (before: number, inside: number) => {
+    prismaMock.entry.findUnique.mockResolvedValue(exitedEntry);
+    prismaMock.entry.findUniqueOrThrow.mockResolvedValue(exitedEntry);
+    prismaMock.payment.aggregate
+      .mockResolvedValueOnce({ _sum: { amount: before, refundedAmount: null } })
+      .mockResolvedValueOnce({ _sum: { amount: null, refundedAmount: null } })
+      .mockResolvedValueOnce({ _sum: { amount: inside, refundedAmount: null } })
+      .mockResolvedValueOnce({ _sum: { amount: null, refundedAmount: null } })
+      .mockResolvedValue({ _sum: { amount: inside, refundedAmount: null } });
+    prismaMock.payment.create.mockImplementation(({ data }) => Promise.resolve({ id: 'payment-2', ...data }));
+  };
+
+  it('checks the balance inside the serializable transaction that records the payment', async () => {
+    givenPaid(1, 1);
+
+    const res = mockResponse();
+    await createPayment(paymentRequest(2), res);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.balance).toBe(1);
+    expect(prismaMock.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+    });
+  });
+
+  it('refuses a part payment that a concurrent one left too little balance for', async () => {
+    givenPaid(1, 3);
+
+    const res = mockResponse();
+    await createPayment(paymentRequest(2), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(prismaMock.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('asks to retry when a concurrent payment made the transaction fail', async () => {
+    givenPaid(1, 1);
+    prismaMock.payment.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', { code: 'P2034', clientVersion: '6.8.2' })
+    );
+
+    const res = mockResponse();
+    await createPayment(paymentRequest(2), res);
+
+    expect(res.statusCode).toBe(409);
+  });
+});
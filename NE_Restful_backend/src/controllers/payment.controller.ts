@@ -0,0 +1,497 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma, Payment } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { canAccessParking } from '../utils/scope';
+import { recordAudit, recordSystemAudit } from '../utils/audit';
+import {
+  applyPaymentRefund,
+  applyPaymentStatus,
+  getAmountDue,
+  getAmountPaid,
+  getAmountPending,
+  getBalance,
+  getOpenBalance,
+  getPaymentCurrency,
+  getPaymentProvider,
+  getRefundableAmount,
+  getReservationAmountDue,
+  getReservationAmountPaid,
+  processPaymentEvent,
+  syncEntrySettlement
+} from '../utils/payments';
+import { PaymentProviderError, WebhookSignatureError } from '../utils/paymentProvider';
+
+const prisma = new PrismaClient();
+
+const findAccessibleEntry = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const entry = await prisma.entry.findUnique({
+    where: { id },
+    include: { parking: true }
+  });
+
+  if (!entry) {
+    ServerResponse.notFound(res, `Entry with ID '${id}' not found`);
+    return null;
+  }
+
+  // Staff are limited to their parkings, the driver owning the stay isn't
+  const isEntryOwner = !!req.user && entry.userId !== null && entry.userId === req.user.id;
+
+  if (!isEntryOwner && !canAccessParking(req, entry.parkingCode)) {
+    ServerResponse.forbidden(res, `You are not assigned to parking '${entry.parkingCode}'`);
+    return null;
+  }
+
+  return entry;
+};
+
+// Reservations are paid ahead by whoever booked them, or by staff
+const findAccessibleReservation = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const reservation = await prisma.reservation.findUnique({
+    where: { id },
+    include: { parking: true }
+  });
+
+  if (!reservation) {
+    ServerResponse.notFound(res, 'Reservation not found');
+    return null;
+  }
+
+  // Staff paying or reading someone else's reservation are still limited to their parkings
+  if (reservation.userId !== req.user?.id && !canAccessParking(req, reservation.parkingCode)) {
+    ServerResponse.forbidden(res, `You are not assigned to parking '${reservation.parkingCode}'`);
+    return null;
+  }
+
+  return reservation;
+};
+
+// Payments can be handled by the owner of the reservation or stay they pay for, otherwise only by staff at their parking
+const findAccessiblePayment = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const payment = await prisma.payment.findUnique({
+    where: { id },
+    include: { entry: true, reservation: true }
+  });
+
+  if (!payment) {
+    ServerResponse.notFound(res, `Payment with ID '${id}' not found`);
+    return null;
+  }
+
+  const parkingCode = payment.entry?.parkingCode ?? payment.reservation?.parkingCode ?? '';
+  const ownerId = payment.reservation?.userId ?? payment.entry?.userId ?? null;
+  const isOwner = !!req.user && ownerId !== null && ownerId === req.user.id;
+
+  if (!isOwner && !canAccessParking(req, parkingCode)) {
+    ServerResponse.forbidden(res, `You are not assigned to parking '${parkingCode}'`);
+    return null;
+  }
+
+  return payment;
+};
+
+type PaymentTarget = { entryId: string } | { reservationId: string };
+
+// Thrown inside the payment transaction to roll it back when payments made meanwhile left less to pay
+class BalanceChangedError extends Error {}
+
+// Record a payment only if it still fits the balance. The balance is read in the same serializable
+// transaction, so of concurrent part payments only those that fit what is left go through.
+const createWithinBalance = (
+  target: PaymentTarget,
+  amountDue: number,
+  amount: number,
+  create: (tx: Prisma.TransactionClient) => Promise<Payment>
+) =>
+  prisma.$transaction(
+    async (tx) => {
+      if (amount > (await getOpenBalance(target, amountDue, tx))) {
+        throw new BalanceChangedError();
+      }
+
+      return create(tx);
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+// A payment made while another one was being recorded, either seen by the balance check or failing the transaction
+const isBalanceConflict = (error: unknown): boolean =>
+  error instanceof BalanceChangedError || (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034');
+
+const BALANCE_CONFLICT_MESSAGE = 'The balance changed while the payment was being recorded, please check it and try again';
+
+// Open a payment with the provider for part or all of the balance. It stays PENDING until confirmed,
+// by the client with the provider's SDK or through the confirm endpoint, and settled by the provider's webhooks.
+const createPaymentIntent = async (
+  req: Request,
+  res: Response,
+  target: PaymentTarget,
+  amountDue: number
+): Promise<Response> => {
+  const provider = getPaymentProvider();
+
+  if (!provider) {
+    return ServerResponse.error(res, `Payment provider '${process.env.PAYMENT_PROVIDER}' is not available`);
+  }
+
+  const balance = await getOpenBalance(target, amountDue);
+
+  if (balance === 0) {
+    return ServerResponse.conflict(res, 'Nothing is left to pay, or the rest is still being processed');
+  }
+
+  const { method } = req.body;
+  const amount = req.body.amount !== undefined ? Number(req.body.amount) : balance;
+
+  if (amount > balance) {
+    return ServerResponse.badRequest(res, `Payment exceeds the balance of $${balance.toFixed(2)}`);
+  }
+
+  const payment = await createWithinBalance(target, amountDue, amount, (tx) =>
+    tx.payment.create({
+      data: { ...target, method, amount, status: 'PENDING', provider: provider.name }
+    })
+  );
+
+  let intent;
+  try {
+    intent = await provider.createIntent({ amount, currency: getPaymentCurrency(), method, reference: payment.id });
+  } catch (error) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: 'FAILED', failureReason: 'The provider could not open the payment' }
+    });
+    throw error;
+  }
+
+  const openedPayment = await prisma.payment.update({
+    where: { id: payment.id },
+    data: { providerPaymentId: intent.providerPaymentId }
+  });
+
+  await recordAudit(req, { action: 'PAYMENT_INTENT_CREATED', targetType: 'Payment', targetId: payment.id, after: openedPayment });
+
+  return ServerResponse.created(
+    res,
+    { payment: openedPayment, clientSecret: intent.clientSecret ?? null, balance: getBalance(balance, amount) },
+    'Payment intent created successfully'
+  );
+};
+
+export const getEntryPayments = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const entry = await findAccessibleEntry(req, res);
+    if (!entry) {
+      return res;
+    }
+
+    const payments = await prisma.payment.findMany({
+      where: { entryId: entry.id },
+      include: {
+        collectedBy: { select: { id: true, firstName: true, lastName: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const amountDue = await getAmountDue(entry);
+    const amountPaid = await getAmountPaid(entry.id);
+    const amountPending = await getAmountPending({ entryId: entry.id });
+
+    return ServerResponse.success(
+      res,
+      { payments, amountDue, amountPaid, amountPending, balance: getBalance(amountDue, amountPaid) },
+      'Payments retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get entry payments error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve payments');
+  }
+};
+
+export const createPayment = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const entry = await findAccessibleEntry(req, res);
+    if (!entry) {
+      return res;
+    }
+
+    const { method, reference } = req.body;
+    const amount = Number(req.body.amount);
+
+    // Part payments are fine, paying more than is owed is not. Online payments being processed count as paid.
+    const amountDue = await getAmountDue(entry);
+    const balance = await getOpenBalance({ entryId: entry.id }, amountDue);
+
+    if (balance === 0) {
+      return ServerResponse.conflict(res, `Entry with ID '${entry.id}' has nothing left to pay`);
+    }
+
+    if (amount > balance) {
+      return ServerResponse.badRequest(res, `Payment exceeds the balance of $${balance.toFixed(2)}`);
+    }
+
+    // A payment after the exit can settle the entry
+    const payment = await createWithinBalance({ entryId: entry.id }, amountDue, amount, async (tx) => {
+      const payment = await tx.payment.create({
+        data: {
+          entryId: entry.id,
+          method,
+          amount,
+          reference,
+          collectedById: req.user?.id ?? null
+        }
+      });
+
+      await syncEntrySettlement(tx, entry.id);
+
+      return payment;
+    });
+
+    await recordAudit(req, { action: 'PAYMENT_RECORDED', targetType: 'Payment', targetId: payment.id, after: payment });
+
+    return ServerResponse.created(
+      res,
+      { payment, amountDue, balance: getBalance(balance, amount) },
+      'Payment recorded successfully'
+    );
+  } catch (error) {
+    if (isBalanceConflict(error)) {
+      return ServerResponse.conflict(res, BALANCE_CONFLICT_MESSAGE);
+    }
+
+    console.error('Create payment error:', error);
+    return ServerResponse.error(res, 'Failed to record payment');
+  }
+};
+
+export const createEntryPaymentIntent = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const entry = await findAccessibleEntry(req, res);
+    if (!entry) {
+      return res;
+    }
+
+    return await createPaymentIntent(req, res, { entryId: entry.id }, await getAmountDue(entry));
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return ServerResponse.badRequest(res, error.message);
+    }
+
+    if (isBalanceConflict(error)) {
+      return ServerResponse.conflict(res, BALANCE_CONFLICT_MESSAGE);
+    }
+
+    console.error('Create entry payment intent error:', error);
+    return ServerResponse.error(res, 'Failed to create payment intent');
+  }
+};
+
+export const getReservationPayments = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const reservation = await findAccessibleReservation(req, res);
+    if (!reservation) {
+      return res;
+    }
+
+    const payments = await prisma.payment.findMany({
+      where: { reservationId: reservation.id },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const amountDue = await getReservationAmountDue(reservation);
+    const amountPaid = await getReservationAmountPaid(reservation.id);
+
+    return ServerResponse.success(
+      res,
+      { payments, amountDue, amountPaid, balance: getBalance(amountDue, amountPaid) },
+      'Payments retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get reservation payments error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve payments');
+  }
+};
+
+export const createReservationPaymentIntent = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const reservation = await findAccessibleReservation(req, res);
+    if (!reservation) {
+      return res;
+    }
+
+    if (reservation.status !== 'BOOKED' && reservation.status !== 'NO_SHOW') {
+      return ServerResponse.conflict(res, `Reservation '${reservation.code}' can't be paid, it is ${reservation.status}`);
+    }
+
+    return await createPaymentIntent(req, res, { reservationId: reservation.id }, await getReservationAmountDue(reservation));
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return ServerResponse.badRequest(res, error.message);
+    }
+
+    if (isBalanceConflict(error)) {
+      return ServerResponse.conflict(res, BALANCE_CONFLICT_MESSAGE);
+    }
+
+    console.error('Create reservation payment intent error:', error);
+    return ServerResponse.error(res, 'Failed to create payment intent');
+  }
+};
+
+export const confirmPayment = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const payment = await findAccessiblePayment(req, res);
+    if (!payment) {
+      return res;
+    }
+
+    const { entry: _, reservation: __, ...before } = payment;
+
+    if (!payment.provider || !payment.providerPaymentId) {
+      return ServerResponse.badRequest(res, 'Only online payments are confirmed with a provider');
+    }
+
+    if (payment.status !== 'PENDING') {
+      return ServerResponse.conflict(res, `Payment with ID '${payment.id}' is already ${payment.status}`);
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+
+    if (!provider) {
+      return ServerResponse.error(res, `Payment provider '${payment.provider}' is not available`);
+    }
+
+    const result = await provider.confirm(payment.providerPaymentId, req.body.paymentToken);
+
+    // The provider's webhook may have got there first, in which case this changes nothing
+    const { payment: updatedPayment, changed } = await prisma.$transaction((tx) =>
+      applyPaymentStatus(tx, payment.id, result.status, result.failureReason)
+    );
+
+    if (changed) {
+      await recordAudit(req, {
+        action: 'PAYMENT_STATUS_CHANGED',
+        targetType: 'Payment',
+        targetId: payment.id,
+        before,
+        after: updatedPayment
+      });
+    }
+
+    if (updatedPayment.status === 'FAILED') {
+      return ServerResponse.paymentRequired(res, `Payment declined: ${updatedPayment.failureReason || 'no reason given'}`);
+    }
+
+    return ServerResponse.success(
+      res,
+      updatedPayment,
+      updatedPayment.status === 'PENDING' ? 'Payment is being processed' : 'Payment completed successfully'
+    );
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return ServerResponse.badRequest(res, error.message);
+    }
+
+    console.error('Confirm payment error:', error);
+    return ServerResponse.error(res, 'Failed to confirm payment');
+  }
+};
+
+export const refundPayment = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const payment = await findAccessiblePayment(req, res);
+    if (!payment) {
+      return res;
+    }
+
+    const { entry: _, reservation: __, ...before } = payment;
+
+    if (payment.status !== 'COMPLETED') {
+      return ServerResponse.conflict(res, `Only completed payments can be refunded, this one is ${payment.status}`);
+    }
+
+    // Online payments are refunded through their provider, money taken on site is handed back by the operator
+    if (payment.provider && payment.providerPaymentId) {
+      const provider = getPaymentProvider(payment.provider);
+
+      if (!provider) {
+        return ServerResponse.error(res, `Payment provider '${payment.provider}' is not available`);
+      }
+
+      // Whatever is left of it after earlier partial refunds
+      const result = await provider.refund(payment.providerPaymentId, getRefundableAmount(payment));
+
+      // A refund the provider is still processing is completed by its webhook
+      if (result.status !== 'REFUNDED') {
+        return ServerResponse.success(res, before, 'Refund is being processed');
+      }
+    }
+
+    const { payment: refundedPayment } = await prisma.$transaction((tx) => applyPaymentRefund(tx, payment.id));
+
+    await recordAudit(req, {
+      action: 'PAYMENT_REFUNDED',
+      targetType: 'Payment',
+      targetId: payment.id,
+      before,
+      after: { ...refundedPayment, refundReason: req.body.reason ?? null }
+    });
+
+    return ServerResponse.success(res, refundedPayment, 'Payment refunded successfully');
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return ServerResponse.badRequest(res, error.message);
+    }
+
+    console.error('Refund payment error:', error);
+    return ServerResponse.error(res, 'Failed to refund payment');
+  }
+};
+
+export const handlePaymentWebhook = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+
+    if (!provider) {
+      return ServerResponse.notFound(res, `Payment provider '${req.params.provider}' not found`);
+    }
+
+    // Signatures are computed over the exact bytes sent, so the body is kept raw for this route
+    if (!Buffer.isBuffer(req.body)) {
+      return ServerResponse.badRequest(res, 'Webhooks must be sent as application/json');
+    }
+
+    const event = provider.parseWebhook(req.body, req.headers);
+    const { duplicate, before, payment, changed } = await processPaymentEvent(provider.name, event);
+
+    if (changed && payment) {
+      await recordSystemAudit({
+        action: 'PAYMENT_STATUS_CHANGED',
+        targetType: 'Payment',
+        targetId: payment.id,
+        before,
+        after: payment
+      });
+    }
+
+    // Acknowledged even when ignored, otherwise the provider keeps redelivering it
+    return ServerResponse.success(res, { received: true, duplicate }, 'Webhook processed successfully');
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return ServerResponse.unauthorized(res, error.message);
+    }
+
+    if (error instanceof PaymentProviderError) {
+      return ServerResponse.badRequest(res, error.message);
+    }
+
+    console.error('Payment webhook error:', error);
+    return ServerResponse.error(res, 'Failed to process webhook');
+  }
+};
@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { PrismaClient, PlateAlertAction, PlateAlertStatus } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { canAccessParking, parkingCodeFilter } from '../utils/scope';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+const alertInclude = {
+  parking: { select: { code: true, name: true } },
+  conflictingEntry: { include: { parking: { select: { code: true, name: true } } } },
+  entry: true,
+  resolvedBy: { select: { id: true, firstName: true, lastName: true, email: true } }
+};
+
+// Staff limited to some parkings see the alerts involving one of them, on either side
+const alertScopeFilter = (req: Request) => {
+  const codeFilter = parkingCodeFilter(req);
+
+  return codeFilter ? { OR: [{ parkingCode: codeFilter }, { conflictingEntry: { parkingCode: codeFilter } }] } : {};
+};
+
+export const getPlateAlerts = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { status, action, plateNumber } = req.query as Record<string, string | undefined>;
+
+    const alerts = await prisma.plateAlert.findMany({
+      where: {
+        ...alertScopeFilter(req),
+        status: status ? (status as PlateAlertStatus) : undefined,
+        action: action ? (action as PlateAlertAction) : undefined,
+        plateNumber: plateNumber ? { equals: plateNumber, mode: 'insensitive' } : undefined
+      },
+      include: alertInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return ServerResponse.success(res, alerts, 'Plate alerts retrieved successfully');
+  } catch (error) {
+    console.error('Get plate alerts error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve plate alerts');
+  }
+};
+
+export const resolvePlateAlert = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+    const { resolution } = req.body;
+
+    const alert = await prisma.plateAlert.findUnique({
+      where: { id },
+      include: { conflictingEntry: true }
+    });
+
+    if (!alert) {
+      return ServerResponse.notFound(res, 'Plate alert not found');
+    }
+
+    if (!canAccessParking(req, alert.parkingCode) && !canAccessParking(req, alert.conflictingEntry.parkingCode)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${alert.parkingCode}'`);
+    }
+
+    if (alert.status === 'RESOLVED') {
+      return ServerResponse.conflict(res, 'Plate alert is already resolved');
+    }
+
+    const resolvedAlert = await prisma.plateAlert.update({
+      where: { id },
+      data: {
+        status: 'RESOLVED',
+        resolution,
+        resolvedById: req.user.id,
+        resolvedAt: new Date()
+      },
+      include: alertInclude
+    });
+
+    await recordAudit(req, {
+      action: 'PLATE_ALERT_RESOLVED',
+      targetType: 'PlateAlert',
+      targetId: id,
+      before: { status: alert.status },
+      after: { status: resolvedAlert.status, resolution }
+    });
+
+    return ServerResponse.success(res, resolvedAlert, 'Plate alert resolved successfully');
+  } catch (error) {
+    console.error('Resolve plate alert error:', error);
+    return ServerResponse.error(res, 'Failed to resolve plate alert');
+  }
+};
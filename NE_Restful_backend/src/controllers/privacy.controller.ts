@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { collectUserData, anonymizeUser } from '../utils/privacy';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+export const exportUserData = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const data = await collectUserData(id);
+
+    if (!data) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    await recordAudit(req, { action: 'USER_DATA_EXPORTED', targetType: 'User', targetId: id });
+
+    // Served as a file download
+    res.attachment(`user-${id}-export.json`);
+
+    return ServerResponse.success(res, data, 'User data exported successfully');
+  } catch (error) {
+    console.error('Export user data error:', error);
+    return ServerResponse.error(res, 'Failed to export user data');
+  }
+};
+
+export const eraseUser = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    if (user.anonymizedAt) {
+      return ServerResponse.conflict(res, 'User data has already been erased');
+    }
+
+    if (id === req.user.id) {
+      return ServerResponse.badRequest(res, 'You cannot erase your own account');
+    }
+
+    const result = await anonymizeUser(id);
+
+    await recordAudit(req, { action: 'USER_ERASED', targetType: 'User', targetId: id, after: result });
+
+    return ServerResponse.success(res, result, 'User data erased successfully');
+  } catch (error) {
+    console.error('Erase user error:', error);
+    return ServerResponse.error(res, 'Failed to erase user data');
+  }
+};
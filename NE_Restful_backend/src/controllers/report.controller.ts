@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import ServerResponse from '../utils/response';
+import { parkingCodeFilter } from '../utils/scope';
 
 const prisma = new PrismaClient();
 
@@ -30,7 +31,8 @@ export const getOutgoingCarsByDateRange = async (req: Request, res: Response): P
         exitDateTime: {
           gte: start,
           lte: end
-        }
+        },
+        parkingCode: parkingCodeFilter(req)
       },
       include: {
         parking: true
@@ -86,7 +88,8 @@ export const getIncomingCarsByDateRange = async (req: Request, res: Response): P
         entryDateTime: {
           gte: start,
           lte: end
-        }
+        },
+        parkingCode: parkingCodeFilter(req)
       },
       include: {
         parking: true
@@ -112,7 +115,12 @@ export const getIncomingCarsByDateRange = async (req: Request, res: Response): P
 
 export const getParkingOccupancyReport = async (req: Request, res: Response): Promise<Response> => {
   try {
-    const parkings = await prisma.parking.findMany();
+    const parkings = await prisma.parking.findMany({
+      where: {
+        code: parkingCodeFilter(req),
+        deletedAt: null
+      }
+    });
 
     const occupancyReport = await Promise.all(parkings.map(async (parking) => {
       const activeEntries = await prisma.entry.count({
@@ -165,7 +173,8 @@ export const getRevenueReport = async (req: Request, res: Response): Promise<Res
         exitDateTime: {
           gte: start,
           lte: end
-        }
+        },
+        parkingCode: parkingCodeFilter(req)
       },
       include: {
         parking: true
@@ -266,6 +275,7 @@ export const generateEntriesReport = async (req: Request, res: Response): Promis
           gte: start,
           lte: end,
         },
+        parkingCode: parkingCodeFilter(req),
       },
       include: {
         parking: true,
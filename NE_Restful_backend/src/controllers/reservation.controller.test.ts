@@ -0,0 +1,137 @@
+import { Prisma } from '@prisma/client';
+import { cancelReservation, createReservation } from './reservation.controller';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+const MINUTE_IN_MS = 60 * 1000;
+
+const parking = { id: 'parking-1', code: 'P-001', name: 'Downtown', totalSpaces: 3, availableSpaces: 3, deletedAt: null };
+
+const bookingRequest = (startsIn: number, lasts: number = 2 * HOUR_IN_MS) =>
+  mockRequest({
+    body: {
+      parkingCode: 'P-001',
+      plateNumber: 'rab123a',
+      startTime: new Date(Date.now() + startsIn).toISOString(),
+      endTime: new Date(Date.now() + startsIn + lasts).toISOString()
+    },
+    user: { id: 'user-1', role: 'USER' }
+  });
+
+beforeEach(() => {
+  prismaMock.parking.findUnique.mockResolvedValue(parking);
+  prismaMock.reservation.findFirst.mockResolvedValue(null);
+  prismaMock.reservation.count.mockResolvedValue(0);
+  prismaMock.entry.count.mockResolvedValue(0);
+  prismaMock.reservation.create.mockImplementation(({ data }) => Promise.resolve({ id: 'reservation-1', ...data }));
+  prismaMock.log.create.mockResolvedValue({});
+});
+
+describe('createReservation', () => {
+  it('checks and books in one serializable transaction', async () => {
+    const res = mockResponse();
+    await createReservation(bookingRequest(2 * HOUR_IN_MS), res);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.plateNumber).toBe('RAB123A');
+    expect(prismaMock.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+    });
+  });
+
+  it('refuses a window the parking is fully booked for', async () => {
+    prismaMock.reservation.count.mockResolvedValue(3);
+
+    const res = mockResponse();
+    await createReservation(bookingRequest(2 * HOUR_IN_MS), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(prismaMock.reservation.create).not.toHaveBeenCalled();
+  });
+
+  it('ignores parked vehicles for windows starting later', async () => {
+    prismaMock.reservation.count.mockResolvedValue(2);
+    prismaMock.entry.count.mockResolvedValue(3);
+
+    const res = mockResponse();
+    await createReservation(bookingRequest(2 * HOUR_IN_MS), res);
+
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.entry.count).not.toHaveBeenCalled();
+  });
+
+  it('counts the vehicles parked now for a window the driver can already enter for', async () => {
+    prismaMock.reservation.count.mockResolvedValue(1);
+    prismaMock.entry.count.mockResolvedValue(2);
+
+    const res = mockResponse();
+    await createReservation(bookingRequest(5 * MINUTE_IN_MS), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.message).toBe("Parking 'Downtown' is fully booked during this time");
+    expect(prismaMock.entry.count).toHaveBeenCalledWith({ where: { parkingCode: 'P-001', exitDateTime: null } });
+  });
+
+  it('refuses a second reservation for the same plate at the same time', async () => {
+    prismaMock.reservation.findFirst.mockResolvedValue({ id: 'reservation-0' });
+
+    const res = mockResponse();
+    await createReservation(bookingRequest(2 * HOUR_IN_MS), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(prismaMock.reservation.create).not.toHaveBeenCalled();
+  });
+
+  it('asks to retry when a concurrent booking made the transaction fail', async () => {
+    prismaMock.$transaction.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', { code: 'P2034', clientVersion: 'test' })
+    );
+
+    const res = mockResponse();
+    await createReservation(bookingRequest(2 * HOUR_IN_MS), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.message).toBe('The parking was booked at the same time, please try again');
+  });
+});
+
+describe('cancelReservation', () => {
+  const booked = { id: 'reservation-1', code: '3F9A1C07', userId: 'user-1', parkingCode: 'P-001', status: 'BOOKED', capacityHeld: false };
+
+  const cancelRequest = () => mockRequest({ params: { id: 'reservation-1' }, user: { id: 'user-1', role: 'USER' } });
+
+  beforeEach(() => {
+    prismaMock.reservation.findUnique
+      .mockResolvedValueOnce(booked)
+      .mockResolvedValueOnce({ ...booked, status: 'CANCELLED', cancelledAt: new Date() });
+    prismaMock.reservation.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.parking.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.payment.findMany.mockResolvedValue([]);
+    prismaMock.payment.aggregate.mockResolvedValue({ _sum: { amount: null, refundedAmount: null } });
+  });
+
+  it('gives back the space the hold job took since the reservation was read', async () => {
+    const res = mockResponse();
+    await cancelReservation(cancelRequest(), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'reservation-1', status: 'BOOKED', capacityHeld: true },
+      data: expect.objectContaining({ status: 'CANCELLED', capacityHeld: false })
+    });
+    expect(prismaMock.parking.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a reservation fulfilled or released since it was read, without releasing or refunding anything', async () => {
+    prismaMock.reservation.updateMany.mockResolvedValue({ count: 0 });
+
+    const res = mockResponse();
+    await cancelReservation(cancelRequest(), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(prismaMock.parking.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.payment.findMany).not.toHaveBeenCalled();
+    expect(prismaMock.log.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,238 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma, ReservationStatus } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { canAccessParking, parkingCodeFilter } from '../utils/scope';
+import { recordAudit } from '../utils/audit';
+import { callerHasPermission } from '../middlewares/auth.middleware';
+import { refundReservationPrepayments } from '../utils/payments';
+import {
+  BookingConflictError,
+  countOverlappingReservations,
+  generateReservationCode,
+  getEarlyArrivalMs,
+  endBookedReservation
+} from '../utils/reservations';
+
+const prisma = new PrismaClient();
+
+export const createReservation = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { parkingCode } = req.body;
+    // Plates are compared upper case, like registered vehicles
+    const plateNumber = req.body.plateNumber.trim().toUpperCase();
+    const startTime = new Date(req.body.startTime);
+    const endTime = new Date(req.body.endTime);
+
+    if (startTime <= new Date()) {
+      return ServerResponse.badRequest(res, 'Reservations must start in the future');
+    }
+
+    if (endTime <= startTime) {
+      return ServerResponse.badRequest(res, 'Reservation end time must be after its start time');
+    }
+
+    const parking = await prisma.parking.findUnique({
+      where: { code: parkingCode, deletedAt: null }
+    });
+
+    if (!parking) {
+      return ServerResponse.notFound(res, `Parking with code '${parkingCode}' not found`);
+    }
+
+    // A window the driver can already enter for competes with the vehicles parked right now
+    const startsNow = startTime.getTime() - Date.now() <= getEarlyArrivalMs();
+
+    // Checked and booked in one serializable transaction, so concurrent bookings can't both take the last space
+    const reservation = await prisma.$transaction(
+      async (tx) => {
+        // One vehicle can't hold two reservations at the same time
+        const overlappingPlateReservation = await tx.reservation.findFirst({
+          where: {
+            plateNumber,
+            status: 'BOOKED',
+            startTime: { lt: endTime },
+            endTime: { gt: startTime }
+          }
+        });
+
+        if (overlappingPlateReservation) {
+          throw new BookingConflictError(`Vehicle with plate number '${plateNumber}' already has a reservation during this time`);
+        }
+
+        const bookedSpaces = await countOverlappingReservations(parkingCode, startTime, endTime, tx);
+        const parkedVehicles = startsNow
+          ? await tx.entry.count({ where: { parkingCode, exitDateTime: null } })
+          : 0;
+
+        if (bookedSpaces + parkedVehicles >= parking.totalSpaces) {
+          throw new BookingConflictError(`Parking '${parking.name}' is fully booked during this time`);
+        }
+
+        return tx.reservation.create({
+          data: {
+            code: generateReservationCode(),
+            userId: req.user.id,
+            parkingCode,
+            plateNumber,
+            startTime,
+            endTime
+          }
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    await recordAudit(req, { action: 'RESERVATION_CREATED', targetType: 'Reservation', targetId: reservation.id, after: reservation });
+
+    return ServerResponse.created(res, reservation, 'Reservation created successfully');
+  } catch (error) {
+    if (error instanceof BookingConflictError) {
+      return ServerResponse.conflict(res, error.message);
+    }
+
+    // Another booking for the same parking committed first, the client can simply try again
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return ServerResponse.conflict(res, 'The parking was booked at the same time, please try again');
+    }
+
+    console.error('Create reservation error:', error);
+    return ServerResponse.error(res, 'Failed to create reservation');
+  }
+};
+
+export const getReservations = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { parkingCode, status, plateNumber } = req.query as Record<string, string | undefined>;
+
+    // Staff see the reservations of their parkings, everyone else only their own
+    const canReadAll = callerHasPermission(req, 'reservation:read');
+
+    if (canReadAll && parkingCode && !canAccessParking(req, parkingCode)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${parkingCode}'`);
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where: {
+        userId: canReadAll ? undefined : req.user.id,
+        parkingCode: parkingCode ?? (canReadAll ? parkingCodeFilter(req) : undefined),
+        status: status ? (status as ReservationStatus) : undefined,
+        plateNumber: plateNumber ? { equals: plateNumber, mode: 'insensitive' } : undefined
+      },
+      include: {
+        parking: { select: { code: true, name: true, location: true } }
+      },
+      orderBy: { startTime: 'desc' }
+    });
+
+    return ServerResponse.success(res, reservations, 'Reservations retrieved successfully');
+  } catch (error) {
+    console.error('Get reservations error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve reservations');
+  }
+};
+
+export const getReservationById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const reservation = await prisma.reservation.findUnique({
+      where: { id },
+      include: {
+        parking: { select: { code: true, name: true, location: true } },
+        entry: true
+      }
+    });
+
+    if (!reservation) {
+      return ServerResponse.notFound(res, 'Reservation not found');
+    }
+
+    // Staff reading someone else's reservation are still limited to their parkings
+    if (reservation.userId !== req.user.id && !canAccessParking(req, reservation.parkingCode)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${reservation.parkingCode}'`);
+    }
+
+    return ServerResponse.success(res, reservation, 'Reservation retrieved successfully');
+  } catch (error) {
+    console.error('Get reservation by ID error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve reservation');
+  }
+};
+
+export const cancelReservation = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const reservation = await prisma.reservation.findUnique({
+      where: { id }
+    });
+
+    if (!reservation) {
+      return ServerResponse.notFound(res, 'Reservation not found');
+    }
+
+    if (reservation.userId !== req.user.id && !canAccessParking(req, reservation.parkingCode)) {
+      return ServerResponse.forbidden(res, `You are not assigned to parking '${reservation.parkingCode}'`);
+    }
+
+    if (reservation.status !== 'BOOKED') {
+      return ServerResponse.conflict(res, `Only booked reservations can be cancelled, this one is ${reservation.status}`);
+    }
+
+    const cancelledReservation = await prisma.$transaction(async (tx) => {
+      const ended = await endBookedReservation(tx, reservation, { status: 'CANCELLED', cancelledAt: new Date() });
+
+      if (!ended) {
+        return null;
+      }
+
+      return tx.reservation.findUnique({ where: { id } });
+    });
+
+    // Fulfilled, released or cancelled by someone else since it was read
+    if (!cancelledReservation) {
+      return ServerResponse.conflict(res, 'Only booked reservations can be cancelled, this one has just changed');
+    }
+
+    await recordAudit(req, {
+      action: 'RESERVATION_CANCELLED',
+      targetType: 'Reservation',
+      targetId: id,
+      before: reservation,
+      after: cancelledReservation
+    });
+
+    // Whatever was paid ahead goes back to the driver
+    const { refunds, outstanding } = await refundReservationPrepayments(id, 0);
+
+    for (const refund of refunds) {
+      await recordAudit(req, {
+        action: 'PAYMENT_REFUNDED',
+        targetType: 'Payment',
+        targetId: refund.after.id,
+        before: refund.before,
+        after: refund.after
+      });
+    }
+
+    if (outstanding > 0) {
+      await recordAudit(req, {
+        action: 'RESERVATION_REFUND_FAILED',
+        targetType: 'Reservation',
+        targetId: id,
+        after: { outstanding }
+      });
+
+      return ServerResponse.success(
+        res,
+        cancelledReservation,
+        `Reservation cancelled, $${outstanding.toFixed(2)} paid ahead couldn't be refunded automatically and was flagged for staff`
+      );
+    }
+
+    return ServerResponse.success(res, cancelledReservation, 'Reservation cancelled successfully');
+  } catch (error) {
+    console.error('Cancel reservation error:', error);
+    return ServerResponse.error(res, 'Failed to cancel reservation');
+  }
+};
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { revokeSession, revokeUserSessions } from '../utils/token';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+const sessionSelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastActiveAt: true,
+  revokedAt: true
+};
+
+// Sessions that are neither revoked nor past the lifetime of their refresh tokens
+const activeSessionsWhere = (userId: string) => ({
+  userId,
+  revokedAt: null,
+  refreshTokens: {
+    some: { revokedAt: null, expiresAt: { gt: new Date() } }
+  }
+});
+
+export const getMySessions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: activeSessionsWhere(req.user.id),
+      select: sessionSelect,
+      orderBy: { lastActiveAt: 'desc' }
+    });
+
+    const result = sessions.map((session) => ({
+      ...session,
+      current: session.id === req.user.sessionId
+    }));
+
+    return ServerResponse.success(res, result, 'Sessions retrieved successfully');
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve sessions');
+  }
+};
+
+export const revokeMySession = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId: req.user.id }
+    });
+
+    if (!session) {
+      return ServerResponse.notFound(res, 'Session not found');
+    }
+
+    await revokeSession(session.id);
+    await recordAudit(req, { action: 'SESSION_REVOKED', targetType: 'Session', targetId: session.id });
+
+    return ServerResponse.success(res, null, 'Session revoked successfully');
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return ServerResponse.error(res, 'Failed to revoke session');
+  }
+};
+
+// Log out everywhere. With keepCurrent the session making the request stays signed in.
+export const revokeAllMySessions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const keepCurrent = req.body.keepCurrent === true;
+
+    const count = await revokeUserSessions(req.user.id, keepCurrent ? req.user.sessionId : undefined);
+    await recordAudit(req, { action: 'SESSIONS_REVOKED', targetType: 'User', targetId: req.user.id, after: { revokedSessions: count } });
+
+    return ServerResponse.success(res, { revokedSessions: count }, 'Sessions revoked successfully');
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    return ServerResponse.error(res, 'Failed to revoke sessions');
+  }
+};
+
+export const getUserSessions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id, deletedAt: null }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: activeSessionsWhere(id),
+      select: sessionSelect,
+      orderBy: { lastActiveAt: 'desc' }
+    });
+
+    return ServerResponse.success(res, sessions, 'User sessions retrieved successfully');
+  } catch (error) {
+    console.error('Get user sessions error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve user sessions');
+  }
+};
+
+export const revokeUserSession = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id, sessionId } = req.params;
+
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId: id }
+    });
+
+    if (!session) {
+      return ServerResponse.notFound(res, 'Session not found');
+    }
+
+    await revokeSession(session.id);
+    await recordAudit(req, { action: 'SESSION_REVOKED', targetType: 'Session', targetId: session.id });
+
+    return ServerResponse.success(res, null, 'Session revoked successfully');
+  } catch (error) {
+    console.error('Revoke user session error:', error);
+    return ServerResponse.error(res, 'Failed to revoke session');
+  }
+};
+
+export const revokeAllUserSessions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id, deletedAt: null }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    const count = await revokeUserSessions(id);
+    await recordAudit(req, { action: 'SESSIONS_REVOKED', targetType: 'User', targetId: id, after: { revokedSessions: count } });
+
+    return ServerResponse.success(res, { revokedSessions: count }, 'User sessions revoked successfully');
+  } catch (error) {
+    console.error('Revoke all user sessions error:', error);
+    return ServerResponse.error(res, 'Failed to revoke user sessions');
+  }
+};
@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import ServerResponse from '../utils/response';
+import { getAllSettings, getSetting, isSettingKey, isValidSettingValue, setSetting, SETTING_CHOICES, SETTING_DEFAULTS } from '../utils/settings';
+import { recordAudit } from '../utils/audit';
+
+export const getSettings = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const settings = await getAllSettings();
+    return ServerResponse.success(res, settings, 'Settings retrieved successfully');
+  } catch (error) {
+    console.error('Get settings error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve settings');
+  }
+};
+
+export const updateSetting = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { key } = req.params;
+    const { value } = req.body;
+
+    if (!isSettingKey(key)) {
+      return ServerResponse.notFound(res, `Setting '${key}' not found`);
+    }
+
+    if (!isValidSettingValue(key, value)) {
+      const choices = SETTING_CHOICES[key];
+      return ServerResponse.badRequest(
+        res,
+        choices ? `Setting '${key}' must be one of ${choices.join(', ')}` : `Setting '${key}' must be a ${typeof SETTING_DEFAULTS[key]}`
+      );
+    }
+
+    const previousValue = await getSetting(key);
+    const setting = await setSetting(key, value, req.user.id);
+
+    await recordAudit(req, {
+      action: 'SETTING_UPDATED',
+      targetType: 'Setting',
+      targetId: key,
+      before: { value: previousValue },
+      after: { value }
+    });
+
+    return ServerResponse.success(res, setting, 'Setting updated successfully');
+  } catch (error) {
+    console.error('Update setting error:', error);
+    return ServerResponse.error(res, 'Failed to update setting');
+  }
+};
@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { PrismaClient, SpaceStatus, SpaceType } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { canAccessParking } from '../utils/scope';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+// Spaces are always managed through their parking, which must exist and be within the caller's scope
+const findAccessibleParking = async (req: Request, res: Response) => {
+  const { code } = req.params;
+
+  if (!canAccessParking(req, code)) {
+    ServerResponse.forbidden(res, `You are not assigned to parking '${code}'`);
+    return null;
+  }
+
+  const parking = await prisma.parking.findUnique({
+    where: { code, deletedAt: null }
+  });
+
+  if (!parking) {
+    ServerResponse.notFound(res, `Parking with code '${code}' not found`);
+    return null;
+  }
+
+  return parking;
+};
+
+export const getParkingSpaces = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const { type, status } = req.query;
+
+    const spaces = await prisma.parkingSpace.findMany({
+      where: {
+        parkingCode: parking.code,
+        type: type ? (type as SpaceType) : undefined,
+        status: status ? (status as SpaceStatus) : undefined
+      },
+      orderBy: [{ level: 'asc' }, { zone: 'asc' }, { number: 'asc' }]
+    });
+
+    return ServerResponse.success(res, spaces, 'Parking spaces retrieved successfully');
+  } catch (error) {
+    console.error('Get parking spaces error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve parking spaces');
+  }
+};
+
+export const createParkingSpace = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const { number, level, zone, type, status } = req.body;
+
+    // A parking can't have more bays than its capacity
+    const spaceCount = await prisma.parkingSpace.count({
+      where: { parkingCode: parking.code }
+    });
+
+    if (spaceCount >= parking.totalSpaces) {
+      return ServerResponse.badRequest(res, `Parking '${parking.name}' already has all of its ${parking.totalSpaces} spaces`);
+    }
+
+    const existingSpace = await prisma.parkingSpace.findUnique({
+      where: { parkingCode_number: { parkingCode: parking.code, number } }
+    });
+
+    if (existingSpace) {
+      return ServerResponse.conflict(res, `Space '${number}' already exists in parking '${parking.name}'`);
+    }
+
+    const space = await prisma.parkingSpace.create({
+      data: {
+        parkingCode: parking.code,
+        number,
+        level,
+        zone,
+        type,
+        status
+      }
+    });
+
+    await recordAudit(req, { action: 'SPACE_CREATED', targetType: 'ParkingSpace', targetId: space.id, after: space });
+
+    return ServerResponse.created(res, space, 'Parking space created successfully');
+  } catch (error) {
+    console.error('Create parking space error:', error);
+    return ServerResponse.error(res, 'Failed to create parking space');
+  }
+};
+
+export const updateParkingSpace = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const { spaceId } = req.params;
+    const { number, level, zone, type, status } = req.body;
+
+    const existingSpace = await prisma.parkingSpace.findFirst({
+      where: { id: spaceId, parkingCode: parking.code }
+    });
+
+    if (!existingSpace) {
+      return ServerResponse.notFound(res, 'Parking space not found');
+    }
+
+    // Occupied spaces are released by the vehicle's exit, not by hand
+    if (status !== undefined && existingSpace.status === 'OCCUPIED') {
+      return ServerResponse.conflict(res, `Space '${existingSpace.number}' is occupied`);
+    }
+
+    if (number !== undefined && number !== existingSpace.number) {
+      const duplicateSpace = await prisma.parkingSpace.findUnique({
+        where: { parkingCode_number: { parkingCode: parking.code, number } }
+      });
+
+      if (duplicateSpace) {
+        return ServerResponse.conflict(res, `Space '${number}' already exists in parking '${parking.name}'`);
+      }
+    }
+
+    const updatedSpace = await prisma.parkingSpace.update({
+      where: { id: spaceId },
+      data: { number, level, zone, type, status }
+    });
+
+    await recordAudit(req, {
+      action: 'SPACE_UPDATED',
+      targetType: 'ParkingSpace',
+      targetId: spaceId,
+      before: existingSpace,
+      after: updatedSpace
+    });
+
+    return ServerResponse.success(res, updatedSpace, 'Parking space updated successfully');
+  } catch (error) {
+    console.error('Update parking space error:', error);
+    return ServerResponse.error(res, 'Failed to update parking space');
+  }
+};
+
+export const deleteParkingSpace = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const { spaceId } = req.params;
+
+    const existingSpace = await prisma.parkingSpace.findFirst({
+      where: { id: spaceId, parkingCode: parking.code }
+    });
+
+    if (!existingSpace) {
+      return ServerResponse.notFound(res, 'Parking space not found');
+    }
+
+    if (existingSpace.status === 'OCCUPIED') {
+      return ServerResponse.conflict(res, `Cannot delete space '${existingSpace.number}' while it is occupied`);
+    }
+
+    // Past entries keep their history, only the link to the bay is cleared
+    await prisma.parkingSpace.delete({
+      where: { id: spaceId }
+    });
+
+    await recordAudit(req, { action: 'SPACE_DELETED', targetType: 'ParkingSpace', targetId: spaceId, before: existingSpace });
+
+    return ServerResponse.success(res, null, 'Parking space deleted successfully');
+  } catch (error) {
+    console.error('Delete parking space error:', error);
+    return ServerResponse.error(res, 'Failed to delete parking space');
+  }
+};
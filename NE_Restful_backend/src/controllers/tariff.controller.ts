@@ -0,0 +1,193 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { canAccessParking } from '../utils/scope';
+import { recordAudit } from '../utils/audit';
+import { getTariffRules, quoteStay, scheduleTariffVersion, unscheduleTariffVersion } from '../utils/pricing';
+
+const prisma = new PrismaClient();
+
+const findAccessibleParking = async (req: Request, res: Response) => {
+  const { code } = req.params;
+
+  if (!canAccessParking(req, code)) {
+    ServerResponse.forbidden(res, `You are not assigned to parking '${code}'`);
+    return null;
+  }
+
+  const parking = await prisma.parking.findUnique({
+    where: { code, deletedAt: null }
+  });
+
+  if (!parking) {
+    ServerResponse.notFound(res, `Parking with code '${code}' not found`);
+    return null;
+  }
+
+  return parking;
+};
+
+export const getParkingTariff = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+
+    // Parkings without a version in force are described by the flat rules derived from their hourly fee
+    const rules = await getTariffRules(parking, at);
+
+    return ServerResponse.success(res, rules, 'Tariff retrieved successfully');
+  } catch (error) {
+    console.error('Get tariff error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve tariff');
+  }
+};
+
+export const getTariffVersions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const tariffs = await prisma.tariff.findMany({
+      where: { parkingCode: parking.code },
+      orderBy: { effectiveFrom: 'asc' }
+    });
+
+    return ServerResponse.success(res, tariffs, 'Tariff versions retrieved successfully');
+  } catch (error) {
+    console.error('Get tariff versions error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve tariff versions');
+  }
+};
+
+export const scheduleTariff = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const {
+      name,
+      timezone = 'UTC',
+      graceMinutes = 0,
+      hourlyRate,
+      firstHourRate = null,
+      bands = [],
+      dailyCap = null,
+      nightRate = null,
+      nightStart = null,
+      nightEnd = null,
+      weekendRate = null,
+      holidayRate = null,
+      holidayCalendar = null
+    } = req.body;
+    const now = new Date();
+    const effectiveFrom = req.body.effectiveFrom ? new Date(req.body.effectiveFrom) : now;
+
+    if (nightRate !== null && (!nightStart || !nightEnd)) {
+      return ServerResponse.badRequest(res, 'A night rate needs both nightStart and nightEnd');
+    }
+
+    if (holidayRate !== null && !holidayCalendar) {
+      return ServerResponse.badRequest(res, 'A holiday rate needs a holidayCalendar');
+    }
+
+    // Past periods stay priced as they were billed
+    if (effectiveFrom < now) {
+      return ServerResponse.badRequest(res, 'Tariff versions can only take effect now or in the future');
+    }
+
+    const sameStartVersion = await prisma.tariff.findUnique({
+      where: { parkingCode_effectiveFrom: { parkingCode: parking.code, effectiveFrom } }
+    });
+
+    if (sameStartVersion) {
+      return ServerResponse.conflict(res, `Parking '${parking.name}' already has a tariff version starting at ${effectiveFrom.toISOString()}`);
+    }
+
+    const data = {
+      name,
+      timezone,
+      graceMinutes,
+      hourlyRate,
+      firstHourRate,
+      bands: bands as Prisma.InputJsonValue,
+      dailyCap,
+      nightRate,
+      nightStart,
+      nightEnd,
+      weekendRate,
+      holidayRate,
+      holidayCalendar
+    };
+
+    const tariff = await prisma.$transaction((tx) => scheduleTariffVersion(tx, parking.code, data, effectiveFrom));
+
+    await recordAudit(req, { action: 'TARIFF_SCHEDULED', targetType: 'Tariff', targetId: tariff.id, after: tariff });
+
+    return ServerResponse.created(res, tariff, 'Tariff version scheduled successfully');
+  } catch (error) {
+    console.error('Schedule tariff error:', error);
+    return ServerResponse.error(res, 'Failed to schedule tariff version');
+  }
+};
+
+export const deleteTariffVersion = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const existingTariff = await prisma.tariff.findFirst({
+      where: { id: req.params.tariffId, parkingCode: parking.code }
+    });
+
+    if (!existingTariff) {
+      return ServerResponse.notFound(res, 'Tariff version not found');
+    }
+
+    // Versions that have applied are kept so the stays they priced can be reproduced
+    if (existingTariff.effectiveFrom <= new Date()) {
+      return ServerResponse.conflict(res, 'Only tariff versions that have not taken effect yet can be deleted');
+    }
+
+    await prisma.$transaction((tx) => unscheduleTariffVersion(tx, existingTariff));
+
+    await recordAudit(req, { action: 'TARIFF_DELETED', targetType: 'Tariff', targetId: existingTariff.id, before: existingTariff });
+
+    return ServerResponse.success(res, null, 'Tariff version deleted successfully');
+  } catch (error) {
+    console.error('Delete tariff version error:', error);
+    return ServerResponse.error(res, 'Failed to delete tariff version');
+  }
+};
+
+export const getParkingQuote = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const parking = await findAccessibleParking(req, res);
+    if (!parking) {
+      return res;
+    }
+
+    const from = new Date(req.query.from as string);
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+
+    if (to < from) {
+      return ServerResponse.badRequest(res, 'The end of the stay must be after its start');
+    }
+
+    const quote = await quoteStay(parking, from, to);
+
+    return ServerResponse.success(res, quote, 'Quote calculated successfully');
+  } catch (error) {
+    console.error('Get quote error:', error);
+    return ServerResponse.error(res, 'Failed to calculate quote');
+  }
+};
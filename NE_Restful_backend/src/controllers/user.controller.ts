@@ -2,18 +2,27 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import ServerResponse from '../utils/response';
+import { recordAudit } from '../utils/audit';
+import { revokeUserSessions } from '../utils/token';
+import { callerHasPermission } from '../middlewares/auth.middleware';
 
 const prisma = new PrismaClient();
 
 export const getAllUsers = async (req: Request, res: Response): Promise<Response> => {
   try {
+    // Deleted users are only listed on request, to callers who can restore them
+    const includeDeleted = req.query.includeDeleted === 'true' && callerHasPermission(req, 'user:delete');
+
     const users = await prisma.user.findMany({
+      where: includeDeleted ? undefined : { deletedAt: null },
       select: {
         id: true,
         firstName: true,
         lastName: true,
         email: true,
         role: true,
+        lockedUntil: true,
+        deletedAt: true,
         createdAt: true,
         updatedAt: true
       }
@@ -31,13 +40,15 @@ export const getUserById = async (req: Request, res: Response): Promise<Response
     const { id } = req.params;
 
     const user = await prisma.user.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       select: {
         id: true,
         firstName: true,
         lastName: true,
         email: true,
         role: true,
+        lockedUntil: true,
+        deletedAt: true,
         createdAt: true,
         updatedAt: true
       }
@@ -61,7 +72,7 @@ export const updateUser = async (req: Request, res: Response): Promise<Response>
 
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
-      where: { id }
+      where: { id, deletedAt: null }
     });
 
     if (!existingUser) {
@@ -83,11 +94,15 @@ export const updateUser = async (req: Request, res: Response): Promise<Response>
         lastName: true,
         email: true,
         role: true,
+        lockedUntil: true,
+        deletedAt: true,
         createdAt: true,
         updatedAt: true
       }
     });
 
+    await recordAudit(req, { action: 'USER_UPDATED', targetType: 'User', targetId: id, before: existingUser, after: updatedUser });
+
     return ServerResponse.success(res, updatedUser, 'User updated successfully');
   } catch (error) {
     console.error('Update user error:', error);
@@ -102,7 +117,7 @@ export const changePassword = async (req: Request, res: Response): Promise<Respo
 
     // Check if user exists
     const user = await prisma.user.findUnique({
-      where: { id }
+      where: { id, deletedAt: null }
     });
 
     if (!user) {
@@ -127,6 +142,8 @@ export const changePassword = async (req: Request, res: Response): Promise<Respo
       }
     });
 
+    await recordAudit(req, { action: 'PASSWORD_CHANGED', targetType: 'User', targetId: id });
+
     return ServerResponse.success(res, null, 'Password changed successfully');
   } catch (error) {
     console.error('Change password error:', error);
@@ -134,22 +151,171 @@ export const changePassword = async (req: Request, res: Response): Promise<Respo
   }
 };
 
+export const unlockUser = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id, deletedAt: null }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    // Clear the lock and the failure counter
+    const unlockedUser = await prisma.user.update({
+      where: { id },
+      data: { lockedUntil: null, failedLoginAttempts: 0 },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        role: true,
+        lockedUntil: true,
+        deletedAt: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    });
+
+    await recordAudit(req, {
+      action: 'ACCOUNT_UNLOCKED',
+      targetType: 'User',
+      targetId: id,
+      before: { lockedUntil: user.lockedUntil, failedLoginAttempts: user.failedLoginAttempts },
+      after: { lockedUntil: null, failedLoginAttempts: 0 }
+    });
+
+    return ServerResponse.success(res, unlockedUser, 'User unlocked successfully');
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    return ServerResponse.error(res, 'Failed to unlock user');
+  }
+};
+
+export const getUserParkings = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id, deletedAt: null }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    const assignments = await prisma.parkingAssignment.findMany({
+      where: { userId: id },
+      include: { parking: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return ServerResponse.success(res, assignments, 'User parkings retrieved successfully');
+  } catch (error) {
+    console.error('Get user parkings error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve user parkings');
+  }
+};
+
+export const setUserParkings = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+    const parkingCodes: string[] = Array.from(new Set(req.body.parkingCodes));
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id, deletedAt: null }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    // Check that every parking exists
+    const parkings = await prisma.parking.findMany({
+      where: { code: { in: parkingCodes }, deletedAt: null },
+      select: { code: true }
+    });
+
+    const unknownCodes = parkingCodes.filter((code) => !parkings.some((parking) => parking.code === code));
+    if (unknownCodes.length > 0) {
+      return ServerResponse.notFound(res, `Parking with code '${unknownCodes[0]}' not found`);
+    }
+
+    const previousAssignments = await prisma.parkingAssignment.findMany({
+      where: { userId: id },
+      select: { parkingCode: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // Replace the user's assignments with the given set
+    await prisma.$transaction([
+      prisma.parkingAssignment.deleteMany({
+        where: { userId: id, parkingCode: { notIn: parkingCodes } }
+      }),
+      prisma.parkingAssignment.createMany({
+        data: parkingCodes.map((parkingCode) => ({ userId: id, parkingCode })),
+        skipDuplicates: true
+      })
+    ]);
+
+    const assignments = await prisma.parkingAssignment.findMany({
+      where: { userId: id },
+      include: { parking: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    await recordAudit(req, {
+      action: 'USER_PARKINGS_UPDATED',
+      targetType: 'User',
+      targetId: id,
+      before: { parkingCodes: previousAssignments.map((assignment) => assignment.parkingCode) },
+      after: { parkingCodes: assignments.map((assignment) => assignment.parkingCode) }
+    });
+
+    return ServerResponse.success(res, assignments, 'User parkings updated successfully');
+  } catch (error) {
+    console.error('Set user parkings error:', error);
+    return ServerResponse.error(res, 'Failed to update user parkings');
+  }
+};
+
 export const deleteUser = async (req: Request, res: Response): Promise<Response> => {
   try {
     const { id } = req.params;
 
     // Check if user exists
     const user = await prisma.user.findUnique({
-      where: { id }
+      where: { id, deletedAt: null }
     });
 
     if (!user) {
       return ServerResponse.notFound(res, 'User not found');
     }
 
-    // Delete user
-    await prisma.user.delete({
-      where: { id }
+    if (id === req.user.id) {
+      return ServerResponse.badRequest(res, 'You cannot delete your own account');
+    }
+
+    // Soft delete: the row stays for the entries, bills and audit events that refer to it
+    const deletedUser = await prisma.user.update({
+      where: { id },
+      data: { deletedAt: new Date() }
+    });
+
+    await revokeUserSessions(id);
+
+    await recordAudit(req, {
+      action: 'USER_DELETED',
+      targetType: 'User',
+      targetId: id,
+      before: { deletedAt: null },
+      after: { deletedAt: deletedUser.deletedAt }
     });
 
     return ServerResponse.success(res, null, 'User deleted successfully');
@@ -157,4 +323,52 @@ export const deleteUser = async (req: Request, res: Response): Promise<Response>
     console.error('Delete user error:', error);
     return ServerResponse.error(res, 'Failed to delete user');
   }
+};
+
+export const restoreUser = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!user) {
+      return ServerResponse.notFound(res, 'User not found');
+    }
+
+    if (!user.deletedAt) {
+      return ServerResponse.conflict(res, 'User is not deleted');
+    }
+
+    const restoredUser = await prisma.user.update({
+      where: { id },
+      data: { deletedAt: null },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        role: true,
+        lockedUntil: true,
+        deletedAt: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    });
+
+    await recordAudit(req, {
+      action: 'USER_RESTORED',
+      targetType: 'User',
+      targetId: id,
+      before: { deletedAt: user.deletedAt },
+      after: { deletedAt: null }
+    });
+
+    return ServerResponse.success(res, restoredUser, 'User restored successfully');
+  } catch (error) {
+    console.error('Restore user error:', error);
+    return ServerResponse.error(res, 'Failed to restore user');
+  }
 };
\ No newline at end of file
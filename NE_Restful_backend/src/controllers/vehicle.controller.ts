@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { recordAudit } from '../utils/audit';
+
+const prisma = new PrismaClient();
+
+export const getMyVehicles = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const vehicles = await prisma.vehicle.findMany({
+      where: { userId: req.user.id },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return ServerResponse.success(res, vehicles, 'Vehicles retrieved successfully');
+  } catch (error) {
+    console.error('Get vehicles error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve vehicles');
+  }
+};
+
+export const addVehicle = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    // Plates are stored upper case so that every spelling links to the same vehicle
+    const plateNumber = req.body.plateNumber.trim().toUpperCase();
+
+    const existingVehicle = await prisma.vehicle.findUnique({
+      where: { userId_plateNumber: { userId: req.user.id, plateNumber } }
+    });
+
+    if (existingVehicle) {
+      return ServerResponse.conflict(res, `Vehicle with plate number '${plateNumber}' is already registered`);
+    }
+
+    const vehicle = await prisma.vehicle.create({
+      data: {
+        userId: req.user.id,
+        plateNumber
+      }
+    });
+
+    await recordAudit(req, { action: 'VEHICLE_ADDED', targetType: 'Vehicle', targetId: vehicle.id, after: vehicle });
+
+    return ServerResponse.created(res, vehicle, 'Vehicle registered successfully');
+  } catch (error) {
+    console.error('Add vehicle error:', error);
+    return ServerResponse.error(res, 'Failed to register vehicle');
+  }
+};
+
+export const getVehicleById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id }
+    });
+
+    if (!vehicle) {
+      return ServerResponse.notFound(res, 'Vehicle not found');
+    }
+
+    return ServerResponse.success(res, vehicle, 'Vehicle retrieved successfully');
+  } catch (error) {
+    console.error('Get vehicle by ID error:', error);
+    return ServerResponse.error(res, 'Failed to retrieve vehicle');
+  }
+};
+
+export const removeVehicle = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id }
+    });
+
+    if (!vehicle) {
+      return ServerResponse.notFound(res, 'Vehicle not found');
+    }
+
+    await prisma.vehicle.delete({
+      where: { id }
+    });
+
+    await recordAudit(req, { action: 'VEHICLE_REMOVED', targetType: 'Vehicle', targetId: id, before: vehicle });
+
+    return ServerResponse.success(res, null, 'Vehicle removed successfully');
+  } catch (error) {
+    console.error('Remove vehicle error:', error);
+    return ServerResponse.error(res, 'Failed to remove vehicle');
+  }
+};
@@ -0,0 +1,30 @@
+import { processReservations } from '../utils/reservations';
+
+// Periodically holds capacity for reservations that have started and releases no-shows.
+// Every reservation it changes is recorded in the audit log.
+export const startReservationJob = () => {
+  const intervalMs = parseInt(process.env.RESERVATION_JOB_INTERVAL_SECONDS || '60') * 1000;
+  let running = false;
+
+  const run = async () => {
+    // A slow pass is never overlapped by the next one
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      await processReservations();
+    } catch (error) {
+      console.error('Reservation job error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  run();
+
+  return timer;
+};
@@ -0,0 +1,102 @@
+import jwt from 'jsonwebtoken';
+import { authenticate, requirePermission } from './auth.middleware';
+import { generateAccessToken, generateChallengeToken } from '../utils/token';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+const user = {
+  id: 'user-1',
+  email: 'jane@example.com',
+  role: 'ATTENDANT',
+  deletedAt: null,
+  anonymizedAt: null,
+  parkingAssignments: [{ parkingCode: 'P-001' }]
+};
+
+const bearer = (token: string) => mockRequest({ headers: { authorization: `Bearer ${token}` } });
+
+describe('authenticate', () => {
+  it('attaches the user with the parkings they are assigned to', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(user);
+    prismaMock.session.findUnique.mockResolvedValue({ id: 'session-1', revokedAt: null, lastActiveAt: new Date() });
+
+    const req = bearer(generateAccessToken(user as never, 'session-1'));
+    const next = jest.fn();
+    await authenticate(req, mockResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual(expect.objectContaining({ id: user.id, role: 'ATTENDANT', parkingCodes: ['P-001'] }));
+  });
+
+  it('does not limit roles with access to every site to their assignments', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ ...user, role: 'AUDITOR' });
+
+    const req = bearer(generateAccessToken({ ...user, role: 'AUDITOR' } as never));
+    await authenticate(req, mockResponse(), jest.fn());
+
+    expect(req.user.parkingCodes).toBeNull();
+  });
+
+  it('refuses access tokens of revoked sessions', async () => {
+    prismaMock.user.findUnique.mockResolvedValue(user);
+    prismaMock.session.findUnique.mockResolvedValue({ id: 'session-1', revokedAt: new Date(), lastActiveAt: new Date() });
+
+    const res = mockResponse();
+    const next = jest.fn();
+    await authenticate(bearer(generateAccessToken(user as never, 'session-1')), res, next);
+
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('refuses two-factor challenge tokens', async () => {
+    const res = mockResponse();
+    await authenticate(bearer(generateChallengeToken(user.id, 'two-factor')), res, jest.fn());
+
+    expect(res.statusCode).toBe(401);
+    expect(prismaMock.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('refuses expired tokens', async () => {
+    const expired = jwt.sign({ id: user.id, exp: Math.floor(Date.now() / 1000) - 60 }, process.env.JWT_SECRET as string);
+
+    const res = mockResponse();
+    await authenticate(bearer(expired), res, jest.fn());
+
+    expect(res.statusCode).toBe(401);
+    expect(res.body.message).toBe('Token expired');
+  });
+});
+
+describe('requirePermission', () => {
+  const check = (permission: Parameters<typeof requirePermission>[0], caller: Record<string, unknown>) => {
+    const res = mockResponse();
+    const next = jest.fn();
+    requirePermission(permission)(mockRequest(caller), res, next);
+    return next.mock.calls.length ? 200 : res.statusCode;
+  };
+
+  it.each([
+    ['ADMIN', 'settings:manage', 200],
+    ['MANAGER', 'payment:refund', 200],
+    ['MANAGER', 'user:delete', 403],
+    ['ATTENDANT', 'entry:exit', 200],
+    ['ATTENDANT', 'report:revenue', 403],
+    ['AUDITOR', 'log:read', 200],
+    ['AUDITOR', 'entry:create', 403],
+    ['USER', 'entry:read', 403]
+  ])('%s asking for %s gets %i', (role, permission, status) => {
+    expect(check(permission as never, { user: { id: 'user-1', role } })).toBe(status);
+  });
+
+  it('checks API keys against their scopes rather than a role', () => {
+    const apiKey = { id: 'key-1', scopes: ['entry:create'], parkingCodes: null };
+
+    expect(check('entry:create', { apiKey })).toBe(200);
+    expect(check('entry:exit', { apiKey })).toBe(403);
+  });
+
+  it('refuses unauthenticated requests', () => {
+    expect(check('entry:read', {})).toBe(401);
+  });
+});
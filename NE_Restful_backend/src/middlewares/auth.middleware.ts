@@ -2,14 +2,19 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import ServerResponse from '../utils/response';
 import { PrismaClient } from '@prisma/client';
+import { verifyChallengeToken, hashToken } from '../utils/token';
+import { Permission, hasPermission } from '../utils/permissions';
 
 const prisma = new PrismaClient();
 
+const SESSION_ACTIVITY_INTERVAL_MS = 60 * 1000;
+
 // Extend the Request interface to include user property
 declare global {
   namespace Express {
     interface Request {
       user?: any;
+      apiKey?: any;
     }
   }
 }
@@ -29,43 +34,167 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
 
     // Verify token
     const decoded: any = jwt.verify(token, process.env.JWT_SECRET || 'default-secret');
-    
+
+    // Two-factor challenge tokens are not access tokens
+    if (decoded.purpose) {
+      return ServerResponse.unauthorized(res, 'Invalid token');
+    }
+
     // Get user from database
     const user = await prisma.user.findUnique({
-      where: { id: decoded.id }
+      where: { id: decoded.id },
+      include: {
+        parkingAssignments: {
+          select: { parkingCode: true }
+        }
+      }
     });
 
-    if (!user) {
+    // Deleted and erased accounts are gone as far as the API is concerned
+    if (!user || user.deletedAt || user.anonymizedAt) {
       return ServerResponse.unauthorized(res, 'User not found');
     }
 
-    // Attach user to request
+    // Access tokens stay valid until they expire, unless their session was revoked
+    if (decoded.sid) {
+      const session = await prisma.session.findUnique({
+        where: { id: decoded.sid }
+      });
+
+      if (!session || session.revokedAt) {
+        return ServerResponse.unauthorized(res, 'Session has been revoked');
+      }
+
+      // Record activity at most once a minute rather than on every request
+      if (Date.now() - session.lastActiveAt.getTime() > SESSION_ACTIVITY_INTERVAL_MS) {
+        await prisma.session.update({
+          where: { id: session.id },
+          data: { lastActiveAt: new Date() }
+        });
+      }
+    }
+
+    // Attach user to request. parkingCodes limits the data the user sees, null means every parking
     req.user = {
       id: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      sessionId: decoded.sid,
+      parkingCodes: hasPermission(user.role, 'parking:all-sites')
+        ? null
+        : user.parkingAssignments.map((assignment) => assignment.parkingCode)
     };
     
     next();
   } catch (error) {
+    // TokenExpiredError extends JsonWebTokenError, so it has to be checked first
+    if (error instanceof jwt.TokenExpiredError) {
+      return ServerResponse.unauthorized(res, 'Token expired');
+    }
     if (error instanceof jwt.JsonWebTokenError) {
       return ServerResponse.unauthorized(res, 'Invalid token');
     }
-    if (error instanceof jwt.TokenExpiredError) {
-      return ServerResponse.unauthorized(res, 'Token expired');
+    return ServerResponse.error(res, 'Authentication failed');
+  }
+};
+
+// Two-factor enrolment is reachable with a normal access token or, when the 2FA policy
+// blocks a login, with the setup challenge token returned by that login
+export const authenticateTwoFactorSetup = async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+  const { challengeToken } = req.body;
+  if (!challengeToken) {
+    return authenticate(req, res, next);
+  }
+
+  try {
+    const challenge = await verifyChallengeToken(challengeToken, 'two-factor-setup');
+    if (!challenge) {
+      return ServerResponse.unauthorized(res, 'Two-factor challenge is invalid or has expired');
     }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId, deletedAt: null }
+    });
+
+    if (!user) {
+      return ServerResponse.unauthorized(res, 'User not found');
+    }
+
+    req.user = {
+      id: user.id,
+      email: user.email,
+      role: user.role
+    };
+    // Used up by the enrolment that completes the login
+    res.locals.twoFactorSetupChallenge = challenge;
+
+    next();
+  } catch (error) {
     return ServerResponse.error(res, 'Authentication failed');
   }
 };
 
-export const authorizeAdmin = (req: Request, res: Response, next: NextFunction): any => {
-  if (!req.user) {
-    return ServerResponse.unauthorized(res, 'Not authenticated');
+// Machine clients send an X-API-Key header instead of a bearer token. Routes that accept
+// both use this variant; every other route still requires a user token.
+export const authenticateWithApiKey = async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+  const key = req.header('X-API-Key');
+  if (!key) {
+    return authenticate(req, res, next);
+  }
+
+  try {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) }
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      return ServerResponse.unauthorized(res, 'Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      return ServerResponse.unauthorized(res, 'API key expired');
+    }
+
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() }
+    });
+
+    // An empty list of parking codes means the key isn't limited to particular parkings
+    req.apiKey = {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      parkingCodes: apiKey.parkingCodes.length > 0 ? apiKey.parkingCodes : null
+    };
+
+    next();
+  } catch (error) {
+    return ServerResponse.error(res, 'Authentication failed');
   }
+};
 
-  if (req.user.role !== 'ADMIN') {
-    return ServerResponse.forbidden(res, 'Not authorized. Admin access required');
+// Whether the caller's role (or the API key's scopes) grants the permission
+export const callerHasPermission = (req: Request, permission: Permission): boolean => {
+  if (req.apiKey) {
+    return req.apiKey.scopes.includes(permission);
   }
+  return !!req.user && hasPermission(req.user.role, permission);
+};
+
+// Allow the request only when the caller's role (or the API key's scopes) grants the permission
+export const requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction): any => {
+    if (!req.user && !req.apiKey) {
+      return ServerResponse.unauthorized(res, 'Not authenticated');
+    }
 
-  next();
-};
\ No newline at end of file
+    if (!callerHasPermission(req, permission)) {
+      return req.apiKey
+        ? ServerResponse.forbidden(res, `Not authorized. API key is missing scope: ${permission}`)
+        : ServerResponse.forbidden(res, `Not authorized. Missing permission: ${permission}`);
+    }
+
+    next();
+  };
+};
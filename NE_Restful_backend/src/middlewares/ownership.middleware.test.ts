@@ -0,0 +1,72 @@
+import { requireOwnerOrPermission } from './ownership.middleware';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+const owner = { id: 'user-1', role: 'USER' };
+const otherUser = { id: 'user-2', role: 'USER' };
+
+// Runs the ownership check for an entry and returns the status the caller gets
+const checkEntry = async (caller: Record<string, unknown>, permission: 'entry:read' = 'entry:read') => {
+  const res = mockResponse();
+  const next = jest.fn();
+  await requireOwnerOrPermission('entry', permission)(mockRequest({ params: { id: 'entry-1' }, ...caller }), res, next);
+  return next.mock.calls.length ? 200 : res.statusCode;
+};
+
+describe('requireOwnerOrPermission', () => {
+  it('lets the owner through', async () => {
+    prismaMock.entry.findUnique.mockResolvedValue({ userId: owner.id });
+
+    expect(await checkEntry({ user: owner })).toBe(200);
+  });
+
+  it('answers the same 404 for resources of others and resources that do not exist', async () => {
+    prismaMock.entry.findUnique.mockResolvedValue({ userId: owner.id });
+    const someoneElses = mockResponse();
+    await requireOwnerOrPermission('entry', 'entry:read')(mockRequest({ params: { id: 'entry-1' }, user: otherUser }), someoneElses, jest.fn());
+
+    prismaMock.entry.findUnique.mockResolvedValue(null);
+    const missing = mockResponse();
+    await requireOwnerOrPermission('entry', 'entry:read')(mockRequest({ params: { id: 'entry-2' }, user: otherUser }), missing, jest.fn());
+
+    expect(someoneElses.statusCode).toBe(404);
+    expect(someoneElses.body).toEqual(missing.body);
+  });
+
+  it("does not treat resources without an owner as the caller's", async () => {
+    prismaMock.entry.findUnique.mockResolvedValue({ userId: null });
+
+    expect(await checkEntry({ user: owner })).toBe(404);
+  });
+
+  it('leaves callers with the permission to the controller without looking the resource up', async () => {
+    expect(await checkEntry({ user: { id: 'staff-1', role: 'ATTENDANT' } })).toBe(200);
+    expect(await checkEntry({ apiKey: { id: 'key-1', scopes: ['entry:read'], parkingCodes: null } })).toBe(200);
+    expect(prismaMock.entry.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 to API keys without the scope', async () => {
+    expect(await checkEntry({ apiKey: { id: 'key-1', scopes: [], parkingCodes: null } })).toBe(404);
+  });
+
+  it('refuses unauthenticated requests', async () => {
+    expect(await checkEntry({})).toBe(401);
+  });
+
+  it('resolves payments to the owner of the reservation or the stay they pay for', async () => {
+    const checkPayment = async () => {
+      const next = jest.fn();
+      await requireOwnerOrPermission('payment', 'payment:collect')(mockRequest({ params: { id: 'payment-1' }, user: owner }), mockResponse(), next);
+      return next.mock.calls.length > 0;
+    };
+
+    prismaMock.payment.findUnique.mockResolvedValue({ reservation: { userId: owner.id }, entry: null });
+    expect(await checkPayment()).toBe(true);
+
+    prismaMock.payment.findUnique.mockResolvedValue({ reservation: null, entry: { userId: owner.id } });
+    expect(await checkPayment()).toBe(true);
+
+    prismaMock.payment.findUnique.mockResolvedValue({ reservation: null, entry: { userId: null } });
+    expect(await checkPayment()).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { Permission } from '../utils/permissions';
+import { callerHasPermission } from './auth.middleware';
+
+const prisma = new PrismaClient();
+
+// How to find the user owning the resource a request targets. resolveOwnerId returns
+// undefined when the resource doesn't exist and null when it exists but has no owner.
+interface OwnershipPolicy {
+  notFoundMessage: string;
+  resolveOwnerId: (req: Request) => Promise<string | null | undefined>;
+}
+
+export type OwnedResource = 'user' | 'vehicle' | 'reservation' | 'entry' | 'payment';
+
+const OWNERSHIP_POLICIES: Record<OwnedResource, OwnershipPolicy> = {
+  user: {
+    notFoundMessage: 'User not found',
+    resolveOwnerId: async (req: Request) => {
+      const user = await prisma.user.findUnique({
+        where: { id: req.params.id, deletedAt: null },
+        select: { id: true }
+      });
+      return user?.id;
+    }
+  },
+  vehicle: {
+    notFoundMessage: 'Vehicle not found',
+    resolveOwnerId: async (req: Request) => {
+      const vehicle = await prisma.vehicle.findUnique({
+        where: { id: req.params.id },
+        select: { userId: true }
+      });
+      return vehicle?.userId;
+    }
+  },
+  reservation: {
+    notFoundMessage: 'Reservation not found',
+    resolveOwnerId: async (req: Request) => {
+      const reservation = await prisma.reservation.findUnique({
+        where: { id: req.params.id },
+        select: { userId: true }
+      });
+      return reservation === null ? undefined : reservation.userId;
+    }
+  },
+  entry: {
+    notFoundMessage: 'Entry not found',
+    resolveOwnerId: async (req: Request) => {
+      const entry = await prisma.entry.findUnique({
+        where: { id: req.params.id },
+        select: { userId: true }
+      });
+      return entry === null ? undefined : entry.userId;
+    }
+  },
+  // Payments belong to the owner of the reservation or stay they pay for
+  payment: {
+    notFoundMessage: 'Payment not found',
+    resolveOwnerId: async (req: Request) => {
+      const payment = await prisma.payment.findUnique({
+        where: { id: req.params.id },
+        select: { reservation: { select: { userId: true } }, entry: { select: { userId: true } } }
+      });
+      return payment === null ? undefined : payment.reservation?.userId ?? payment.entry?.userId ?? null;
+    }
+  }
+};
+
+// Allow the request when the caller's role grants the permission for acting on anyone's resource,
+// or when the caller owns the targeted resource. Callers without the permission get the same 404
+// for resources that don't exist and for those of others, so ids can't be probed.
+export const requireOwnerOrPermission = (resource: OwnedResource, permission: Permission) => {
+  const policy = OWNERSHIP_POLICIES[resource];
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+    if (!req.user && !req.apiKey) {
+      return ServerResponse.unauthorized(res, 'Not authenticated');
+    }
+
+    // The controller finds, or fails to find, the resource for callers with the permission
+    if (callerHasPermission(req, permission)) {
+      return next();
+    }
+
+    try {
+      const ownerId = req.user ? await policy.resolveOwnerId(req) : undefined;
+
+      if (!ownerId || ownerId !== req.user.id) {
+        return ServerResponse.notFound(res, policy.notFoundMessage);
+      }
+
+      next();
+    } catch (error) {
+      console.error('Ownership check error:', error);
+      return ServerResponse.error(res, 'Authorization failed');
+    }
+  };
+};
@@ -0,0 +1,116 @@
+import jwt from 'jsonwebtoken';
+import { rateLimit, RateLimitKey } from './rateLimit.middleware';
+import { MemoryStore, RateLimitStore } from '../utils/rateLimitStore';
+import { hashToken } from '../utils/token';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest, mockResponse } from '../test/http';
+
+const MINUTE_IN_MS = 60 * 1000;
+
+const requestFrom = (ip: string, headers: Record<string, string> = {}) =>
+  mockRequest({ ip, headers, header: (name: string) => headers[name] });
+
+const bearer = (payload: object) => ({ authorization: `Bearer ${jwt.sign(payload, process.env.JWT_SECRET as string)}` });
+
+// Sends the requests through a fresh limiter and returns the status of each
+const send = async (keyBy: RateLimitKey, requests: ReturnType<typeof mockRequest>[], max = 2, store: RateLimitStore = new MemoryStore()) => {
+  const limiter = rateLimit({ name: 'test', windowMs: MINUTE_IN_MS, max, keyBy, store });
+  const statuses: number[] = [];
+
+  for (const req of requests) {
+    const res = mockResponse();
+    const next = jest.fn();
+    await limiter(req, res, next);
+    statuses.push(next.mock.calls.length ? 200 : res.statusCode);
+  }
+
+  return statuses;
+};
+
+describe('rateLimit', () => {
+  it('refuses requests past the limit with 429 and Retry-After', async () => {
+    const limiter = rateLimit({ name: 'test', windowMs: MINUTE_IN_MS, max: 1, keyBy: 'ip', store: new MemoryStore() });
+    const next = jest.fn();
+
+    const first = mockResponse();
+    await limiter(requestFrom('10.0.0.1'), first, next);
+    const second = mockResponse();
+    await limiter(requestFrom('10.0.0.1'), second, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(first.set).toHaveBeenCalledWith('RateLimit-Remaining', '0');
+    expect(second.statusCode).toBe(429);
+    expect(second.set).toHaveBeenCalledWith('Retry-After', '60');
+  });
+
+  it('counts each IP address separately', async () => {
+    expect(await send('ip', [requestFrom('10.0.0.1'), requestFrom('10.0.0.2'), requestFrom('10.0.0.1'), requestFrom('10.0.0.1')])).toEqual([
+      200, 200, 200, 429
+    ]);
+  });
+
+  it('counts users behind the same address separately', async () => {
+    const jane = bearer({ id: 'jane' });
+    const john = bearer({ id: 'john' });
+
+    expect(await send('user', [requestFrom('10.0.0.1', jane), requestFrom('10.0.0.1', jane), requestFrom('10.0.0.1', john)])).toEqual([
+      200, 200, 200
+    ]);
+  });
+
+  it('does not take challenge tokens as a user identity', async () => {
+    const challenge = bearer({ id: 'jane', purpose: 'two-factor' });
+    const anonymous = requestFrom('10.0.0.1');
+
+    expect(await send('user', [requestFrom('10.0.0.1', challenge), anonymous, anonymous])).toEqual([200, 200, 429]);
+  });
+
+  it('counts API keys separately and falls back to the IP address without one', async () => {
+    prismaMock.apiKey.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve({ id: where.keyHash === hashToken('key-1') ? 'api-key-1' : 'api-key-2', revokedAt: null, expiresAt: null })
+    );
+
+    const requests = [
+      requestFrom('10.0.0.1', { 'X-API-Key': 'key-1' }),
+      requestFrom('10.0.0.1', { 'X-API-Key': 'key-1' }),
+      requestFrom('10.0.0.1', { 'X-API-Key': 'key-2' }),
+      requestFrom('10.0.0.1'),
+      requestFrom('10.0.0.1', { 'X-API-Key': 'key-1' })
+    ];
+
+    expect(await send('apiKey', requests)).toEqual([200, 200, 200, 200, 429]);
+  });
+
+  it('counts keys that are unknown, revoked or expired by IP address', async () => {
+    prismaMock.apiKey.findUnique.mockImplementation(({ where }) => {
+      if (where.keyHash === hashToken('revoked')) {
+        return Promise.resolve({ id: 'api-key-1', revokedAt: new Date(), expiresAt: null });
+      }
+      if (where.keyHash === hashToken('expired')) {
+        return Promise.resolve({ id: 'api-key-2', revokedAt: null, expiresAt: new Date(Date.now() - MINUTE_IN_MS) });
+      }
+      return Promise.resolve(null);
+    });
+
+    const requests = [
+      requestFrom('10.0.0.1', { 'X-API-Key': 'guess-1' }),
+      requestFrom('10.0.0.1', { 'X-API-Key': 'revoked' }),
+      requestFrom('10.0.0.1', { 'X-API-Key': 'expired' }),
+      requestFrom('10.0.0.2', { 'X-API-Key': 'guess-2' })
+    ];
+
+    expect(await send('apiKey', requests)).toEqual([200, 200, 429, 200]);
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const failingStore: RateLimitStore = {
+      increment: jest.fn().mockRejectedValue(new Error('store down')),
+      reset: jest.fn()
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await send('ip', [requestFrom('10.0.0.1'), requestFrom('10.0.0.1'), requestFrom('10.0.0.1')], 1, failingStore)).toEqual([
+      200, 200, 200
+    ]);
+  });
+});
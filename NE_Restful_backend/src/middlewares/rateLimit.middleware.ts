@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import ServerResponse from '../utils/response';
+import { hashToken } from '../utils/token';
+import { MemoryStore, RateLimitStore } from '../utils/rateLimitStore';
+
+const prisma = new PrismaClient();
+
+export type RateLimitKey = 'ip' | 'user' | 'apiKey';
+
+export interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  keyBy: RateLimitKey;
+  store?: RateLimitStore;
+  message?: string;
+}
+
+// Limits per route group, each overridable with RATE_LIMIT_<GROUP>_MAX,
+// RATE_LIMIT_<GROUP>_WINDOW_SECONDS and RATE_LIMIT_<GROUP>_KEY_BY
+const ROUTE_GROUP_DEFAULTS = {
+  auth: { windowSeconds: 15 * 60, max: 100, keyBy: 'ip' as RateLimitKey },
+  entries: { windowSeconds: 60, max: 120, keyBy: 'apiKey' as RateLimitKey },
+  reports: { windowSeconds: 60, max: 30, keyBy: 'user' as RateLimitKey }
+};
+
+export type RateLimitGroup = keyof typeof ROUTE_GROUP_DEFAULTS;
+
+let defaultStore: RateLimitStore | undefined;
+
+// Swap the store used by every limiter that wasn't given its own
+export const setRateLimitStore = (store: RateLimitStore) => {
+  defaultStore = store;
+};
+
+const getDefaultStore = (): RateLimitStore => {
+  if (!defaultStore) {
+    defaultStore = new MemoryStore();
+  }
+  return defaultStore;
+};
+
+const getUserId = (req: Request): string | undefined => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return undefined;
+  }
+
+  try {
+    const decoded: any = jwt.verify(authHeader.split(' ')[1], process.env.JWT_SECRET || 'default-secret');
+    return decoded.purpose ? undefined : decoded.id;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// Id of a key that exists and is still valid. Made-up keys don't get a bucket of their own,
+// or every request could send a new one to get around the limit.
+const getApiKeyId = async (key: string): Promise<string | undefined> => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) }
+  });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+    return undefined;
+  }
+
+  return apiKey.id;
+};
+
+// Clients without the preferred identifier fall back to the next one: API key, then user, then IP
+const resolveClientKey = async (req: Request, keyBy: RateLimitKey): Promise<string> => {
+  const apiKey = req.header('X-API-Key');
+  if (keyBy === 'apiKey' && apiKey) {
+    const apiKeyId = await getApiKeyId(apiKey);
+    if (apiKeyId) {
+      return `key:${apiKeyId}`;
+    }
+  }
+
+  if (keyBy !== 'ip') {
+    const userId = getUserId(req);
+    if (userId) {
+      return `user:${userId}`;
+    }
+  }
+
+  return `ip:${req.ip}`;
+};
+
+export const rateLimit = (options: RateLimitOptions) => {
+  const { name, windowMs, max, keyBy, message = 'Too many requests, please try again later' } = options;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+    if (process.env.RATE_LIMIT_ENABLED === 'false') {
+      return next();
+    }
+
+    try {
+      const store = options.store || getDefaultStore();
+      const { count, resetTime } = await store.increment(`${name}:${await resolveClientKey(req, keyBy)}`, windowMs);
+      const resetSeconds = Math.max(0, Math.ceil((resetTime.getTime() - Date.now()) / 1000));
+
+      // IETF RateLimit header fields
+      res.set('RateLimit-Policy', `${max};w=${Math.ceil(windowMs / 1000)}`);
+      res.set('RateLimit-Limit', String(max));
+      res.set('RateLimit-Remaining', String(Math.max(0, max - count)));
+      res.set('RateLimit-Reset', String(resetSeconds));
+
+      if (count > max) {
+        res.set('Retry-After', String(resetSeconds));
+        return ServerResponse.tooManyRequests(res, message);
+      }
+
+      next();
+    } catch (error) {
+      // A failing store must not take the API down with it
+      console.error('Rate limit error:', error);
+      next();
+    }
+  };
+};
+
+export const rateLimitGroup = (group: RateLimitGroup) => {
+  const defaults = ROUTE_GROUP_DEFAULTS[group];
+  const prefix = `RATE_LIMIT_${group.toUpperCase()}`;
+  const keyBy = process.env[`${prefix}_KEY_BY`] as RateLimitKey | undefined;
+
+  return rateLimit({
+    name: group,
+    windowMs: parseInt(process.env[`${prefix}_WINDOW_SECONDS`] || String(defaults.windowSeconds)) * 1000,
+    max: parseInt(process.env[`${prefix}_MAX`] || String(defaults.max)),
+    keyBy: keyBy && ['ip', 'user', 'apiKey'].includes(keyBy) ? keyBy : defaults.keyBy
+  });
+};
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Reuse the X-Request-Id set by a proxy or client when it looks sane, otherwise generate one.
+// The id is echoed back in the response and stored with audit events.
+export const assignRequestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.header('X-Request-Id');
+  const requestId = incoming && /^[\w-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+
+  req.requestId = requestId;
+  res.set('X-Request-Id', requestId);
+  next();
+};
@@ -0,0 +1,242 @@
+import express from 'express';
+import {
+  createApiKey,
+  getAllApiKeys,
+  getApiKeyById,
+  updateApiKey,
+  revokeApiKey
+} from '../controllers/apiKey.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+import { API_KEY_SCOPES } from '../utils/permissions';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     summary: Create an API key for a machine client
+ *     description: The plain key is only returned in this response. Send it in the X-API-Key header.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [parking:read, entry:read, entry:create, entry:exit, report:occupancy]
+ *               parkingCodes:
+ *                 type: array
+ *                 description: Parkings the key may act on, empty for every parking
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  [
+    authenticate,
+    requirePermission('apikey:manage'),
+    body('name').notEmpty().withMessage('Name is required'),
+    body('scopes').isArray({ min: 1 }).withMessage('At least one scope is required'),
+    body('scopes.*').isIn(API_KEY_SCOPES).withMessage(`Scopes must be among ${API_KEY_SCOPES.join(', ')}`),
+    body('parkingCodes').optional().isArray().withMessage('Parking codes must be an array'),
+    body('parkingCodes.*').isString().notEmpty().withMessage('Parking codes must be strings'),
+    body('expiresAt').optional().isISO8601().withMessage('Expiry must be a valid date'),
+    validateRequest
+  ],
+  createApiKey
+);
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     summary: Get all API keys
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of API keys
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/', authenticate, requirePermission('apikey:manage'), getAllApiKeys);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   get:
+ *     summary: Get API key by ID
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key details
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  [
+    authenticate,
+    requirePermission('apikey:manage'),
+    param('id').notEmpty().withMessage('API key ID is required'),
+    validateRequest
+  ],
+  getApiKeyById
+);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   put:
+ *     summary: Update an API key's name, scopes, parkings or expiry
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               parkingCodes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: API key updated successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: API key or parking not found
+ *       409:
+ *         description: API key has been revoked
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  '/:id',
+  [
+    authenticate,
+    requirePermission('apikey:manage'),
+    param('id').notEmpty().withMessage('API key ID is required'),
+    body('name').optional().notEmpty().withMessage('Name cannot be empty'),
+    body('scopes').optional().isArray({ min: 1 }).withMessage('At least one scope is required'),
+    body('scopes.*').isIn(API_KEY_SCOPES).withMessage(`Scopes must be among ${API_KEY_SCOPES.join(', ')}`),
+    body('parkingCodes').optional().isArray().withMessage('Parking codes must be an array'),
+    body('parkingCodes.*').isString().notEmpty().withMessage('Parking codes must be strings'),
+    body('expiresAt').optional({ values: 'null' }).isISO8601().withMessage('Expiry must be a valid date'),
+    validateRequest
+  ],
+  updateApiKey
+);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id',
+  [
+    authenticate,
+    requirePermission('apikey:manage'),
+    param('id').notEmpty().withMessage('API key ID is required'),
+    validateRequest
+  ],
+  revokeApiKey
+);
+
+export default router;
@@ -1,7 +1,24 @@
 import express from 'express';
-import { register, login, getProfile } from '../controllers/auth.controller';
-import { authenticate } from '../middlewares/auth.middleware';
-import { body } from 'express-validator';
+import {
+  register,
+  login,
+  acceptInvitation,
+  verifyTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyEmail,
+  resendVerificationEmail,
+  refreshToken,
+  logout,
+  forgotPassword,
+  resetPassword,
+  getProfile
+} from '../controllers/auth.controller';
+import { getMySessions, revokeMySession, revokeAllMySessions } from '../controllers/session.controller';
+import { authenticate, authenticateTwoFactorSetup } from '../middlewares/auth.middleware';
+import { body, param } from 'express-validator';
 import { validateRequest } from '../middlewares/validation.middleware';
 
 const router = express.Router();
@@ -11,6 +28,7 @@ const router = express.Router();
  * /api/auth/register:
  *   post:
  *     summary: Register a new user
+ *     description: Public registration always creates a USER account. Staff accounts are created through invitations.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -34,9 +52,6 @@ const router = express.Router();
  *               password:
  *                 type: string
  *                 format: password
- *               role:
- *                 type: string
- *                 enum: [ADMIN, USER]
  *     responses:
  *       201:
  *         description: User created successfully
@@ -54,7 +69,6 @@ router.post(
     body('lastName').notEmpty().withMessage('Last name is required'),
     body('email').isEmail().withMessage('Valid email is required'),
     body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters long'),
-    body('role').optional().isIn(['ADMIN', 'USER']).withMessage('Role must be either ADMIN or USER'),
     validateRequest
   ],
   register
@@ -84,9 +98,13 @@ router.post(
  *                 format: password
  *     responses:
  *       200:
- *         description: Successful login
+ *         description: Successful login, or a challenge token when a second factor (twoFactorRequired) or two-factor setup (twoFactorSetupRequired) is needed
  *       401:
- *         description: Authentication failed
+ *         description: Authentication failed, also while the account is locked so that registered emails can't be told apart
+ *       403:
+ *         description: Email address not verified
+ *       429:
+ *         description: Too many failed login attempts, retry after the Retry-After header
  *       500:
  *         description: Server error
  */
@@ -100,6 +118,474 @@ router.post(
   login
 );
 
+/**
+ * @swagger
+ * /api/auth/accept-invitation:
+ *   post:
+ *     summary: Create a staff account from an emailed invitation
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - firstName
+ *               - lastName
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       201:
+ *         description: Account created with the invited role and parkings
+ *       400:
+ *         description: Invalid input or invalid/expired invitation
+ *       409:
+ *         description: User already exists
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/accept-invitation',
+  [
+    body('token').notEmpty().withMessage('Invitation token is required'),
+    body('firstName').notEmpty().withMessage('First name is required'),
+    body('lastName').notEmpty().withMessage('Last name is required'),
+    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters long'),
+    validateRequest
+  ],
+  acceptInvitation
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     summary: Complete a login with a TOTP code or a recovery code
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Successful login
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Invalid challenge, code or recovery code
+ *       423:
+ *         description: Account temporarily locked after too many failed attempts
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/2fa/verify',
+  [
+    body('challengeToken').notEmpty().withMessage('Challenge token is required'),
+    body('code').optional().isString(),
+    body('recoveryCode').optional().isString(),
+    validateRequest
+  ],
+  verifyTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrolment and get the provisioning URI
+ *     description: Requires either a bearer token or the challengeToken returned by a login that requires two-factor setup.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth:// provisioning URI
+ *       401:
+ *         description: Not authenticated
+ *       409:
+ *         description: Two-factor authentication already enabled
+ *       500:
+ *         description: Server error
+ */
+router.post('/2fa/setup', authenticateTwoFactorSetup, setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrolment with a first code and get recovery codes
+ *     description: When called with a login challengeToken, the response also contains the access and refresh tokens.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled, recovery codes returned once
+ *       400:
+ *         description: Invalid code or setup not started
+ *       401:
+ *         description: Not authenticated
+ *       409:
+ *         description: Two-factor authentication already enabled
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/2fa/enable',
+  [
+    authenticateTwoFactorSetup,
+    body('code').notEmpty().withMessage('Two-factor code is required'),
+    validateRequest
+  ],
+  enableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid password or code
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Two-factor authentication is required for admin accounts
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/2fa/disable',
+  [
+    authenticate,
+    body('password').notEmpty().withMessage('Password is required'),
+    body('code').notEmpty().withMessage('Two-factor code is required'),
+    validateRequest
+  ],
+  disableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate two-factor recovery codes
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes, replacing the previous ones
+ *       400:
+ *         description: Invalid code or two-factor authentication not enabled
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/2fa/recovery-codes',
+  [
+    authenticate,
+    body('code').notEmpty().withMessage('Two-factor code is required'),
+    validateRequest
+  ],
+  regenerateRecoveryCodes
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify an email address with the token sent at registration
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email address verified successfully
+ *       400:
+ *         description: Invalid input or invalid/expired token
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/verify-email',
+  [
+    body('token').notEmpty().withMessage('Verification token is required'),
+    validateRequest
+  ],
+  verifyEmail
+);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Resend the email verification link
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Verification link sent if the account exists and is unverified
+ *       400:
+ *         description: Invalid input
+ *       429:
+ *         description: Too many verification emails requested
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/resend-verification',
+  [
+    body('email').isEmail().withMessage('Valid email is required'),
+    validateRequest
+  ],
+  resendVerificationEmail
+);
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access token
+ *     description: The presented refresh token is rotated. Reusing an already rotated token revokes every token issued from the same login.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Refresh token invalid, expired or revoked
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/refresh',
+  [
+    body('refreshToken').notEmpty().withMessage('Refresh token is required'),
+    validateRequest
+  ],
+  refreshToken
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out and revoke the refresh token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logout successful
+ *       400:
+ *         description: Invalid input
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/logout',
+  [
+    body('refreshToken').notEmpty().withMessage('Refresh token is required'),
+    validateRequest
+  ],
+  logout
+);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link by email
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Invalid input
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/forgot-password',
+  [
+    body('email').isEmail().withMessage('Valid email is required'),
+    validateRequest
+  ],
+  forgotPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Reset a password with an emailed one-time token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Invalid input or invalid/expired token
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/reset-password',
+  [
+    body('token').notEmpty().withMessage('Reset token is required'),
+    body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters long'),
+    validateRequest
+  ],
+  resetPassword
+);
+
 /**
  * @swagger
  * /api/auth/profile:
@@ -120,4 +606,93 @@ router.post(
  */
 router.get('/profile', authenticate, getProfile);
 
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List the active sessions (devices) of the current user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions with user agent, IP address and last activity, the current one flagged
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.get('/sessions', authenticate, getMySessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   delete:
+ *     summary: Log out of every session
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               keepCurrent:
+ *                 type: boolean
+ *                 description: Keep the session making the request signed in
+ *     responses:
+ *       200:
+ *         description: Sessions revoked successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/sessions',
+  [
+    authenticate,
+    body('keepCurrent').optional().isBoolean().withMessage('keepCurrent must be a boolean'),
+    validateRequest
+  ],
+  revokeAllMySessions
+);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Log out of one session
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/sessions/:sessionId',
+  [
+    authenticate,
+    param('sessionId').notEmpty().withMessage('Session ID is required'),
+    validateRequest
+  ],
+  revokeMySession
+);
+
 export default router;
\ No newline at end of file
@@ -4,10 +4,14 @@ import {
   registerExit, 
   getAllEntries, 
   getActiveEntries, 
-  getEntryById 
+  getActiveEntryQuotes,
+  getEntryById,
+  getEntryBill,
+  getEntryQuote
 } from '../controllers/entry.controller';
-import { authenticate } from '../middlewares/auth.middleware';
-import { body, param } from 'express-validator';
+import { authenticateWithApiKey, requirePermission } from '../middlewares/auth.middleware';
+import { requireOwnerOrPermission } from '../middlewares/ownership.middleware';
+import { body, param, query } from 'express-validator';
 import { validateRequest } from '../middlewares/validation.middleware';
 
 const router = express.Router();
@@ -20,6 +24,7 @@ const router = express.Router();
  *     tags: [Entries]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -34,6 +39,13 @@ const router = express.Router();
  *                 type: string
  *               parkingCode:
  *                 type: string
+ *               spaceType:
+ *                 type: string
+ *                 enum: [STANDARD, EV, DISABLED, MOTORCYCLE]
+ *                 description: Kind of bay to assign when the parking models its spaces (defaults to STANDARD)
+ *               reservationCode:
+ *                 type: string
+ *                 description: Code of the vehicle's reservation at this parking
  *     responses:
  *       201:
  *         description: Entry registered and ticket generated successfully
@@ -41,19 +53,27 @@ const router = express.Router();
  *         description: Invalid input or no available spaces
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       404:
- *         description: Parking not found
+ *         description: Parking or reservation not found
  *       409:
- *         description: Vehicle already in parking
+ *         description: Vehicle already in parking, or the reservation can't be used any more
  *       500:
  *         description: Server error
  */
 router.post(
   '/',
   [
-    authenticate,
-    body('plateNumber').notEmpty().withMessage('Plate number is required'),
+    authenticateWithApiKey,
+    requirePermission('entry:create'),
+    body('plateNumber').isString().trim().notEmpty().withMessage('Plate number is required'),
     body('parkingCode').notEmpty().withMessage('Parking code is required'),
+    body('spaceType')
+      .optional()
+      .isIn(['STANDARD', 'EV', 'DISABLED', 'MOTORCYCLE'])
+      .withMessage('Space type must be one of STANDARD, EV, DISABLED, MOTORCYCLE'),
+    body('reservationCode').optional().isString().trim().notEmpty().withMessage('Reservation code cannot be empty'),
     validateRequest
   ],
   registerEntry
@@ -67,15 +87,18 @@ router.post(
  *     tags: [Entries]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: List of entries
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       500:
  *         description: Server error
  */
-router.get('/', authenticate, getAllEntries);
+router.get('/', authenticateWithApiKey, requirePermission('entry:read'), getAllEntries);
 
 /**
  * @swagger
@@ -85,24 +108,49 @@ router.get('/', authenticate, getAllEntries);
  *     tags: [Entries]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: List of active entries
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       500:
  *         description: Server error
  */
-router.get('/active', authenticate, getActiveEntries);
+router.get('/active', authenticateWithApiKey, requirePermission('entry:read'), getActiveEntries);
+
+/**
+ * @swagger
+ * /api/entries/active/quotes:
+ *   get:
+ *     summary: Get the amount due so far for every vehicle currently in parking, in one request
+ *     tags: [Entries]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: One quote per active entry, shaped like the quote of a single entry
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/active/quotes', authenticateWithApiKey, requirePermission('entry:read'), getActiveEntryQuotes);
 
 /**
  * @swagger
  * /api/entries/{id}:
  *   get:
- *     summary: Get entry by ID
+ *     summary: Get entry by ID (owner, or entry:read)
  *     tags: [Entries]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -114,52 +162,162 @@ router.get('/active', authenticate, getActiveEntries);
  *         description: Entry details
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       404:
- *         description: Entry not found
+ *         description: Entry not found, or owned by someone else
  *       500:
  *         description: Server error
  */
 router.get(
   '/:id',
   [
-    authenticate,
+    authenticateWithApiKey,
     param('id').notEmpty().withMessage('Entry ID is required'),
-    validateRequest
+    validateRequest,
+    requireOwnerOrPermission('entry', 'entry:read')
   ],
   getEntryById
 );
 
+/**
+ * @swagger
+ * /api/entries/{id}/bill:
+ *   get:
+ *     summary: Get the itemised bill of a closed entry (owner, or entry:read)
+ *     tags: [Entries]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bill of the entry
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Entry not found, or owned by someone else
+ *       409:
+ *         description: The vehicle hasn't exited yet
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/bill',
+  [
+    authenticateWithApiKey,
+    param('id').notEmpty().withMessage('Entry ID is required'),
+    validateRequest,
+    requireOwnerOrPermission('entry', 'entry:read')
+  ],
+  getEntryBill
+);
+
+/**
+ * @swagger
+ * /api/entries/{id}/quote:
+ *   get:
+ *     summary: Get the amount due for an open entry, priced like its exit would be (owner, or entry:read)
+ *     tags: [Entries]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: at
+ *         description: Time to price the stay up to, defaults to now
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Duration, billable hours, itemised breakdown and amount due
+ *       400:
+ *         description: Invalid quote time
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Entry not found, or owned by someone else
+ *       409:
+ *         description: The vehicle has already exited
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/quote',
+  [
+    authenticateWithApiKey,
+    param('id').notEmpty().withMessage('Entry ID is required'),
+    query('at').optional().isISO8601().withMessage('At must be a valid date'),
+    validateRequest,
+    requireOwnerOrPermission('entry', 'entry:read')
+  ],
+  getEntryQuote
+);
+
 /**
  * @swagger
  * /api/entries/{id}/exit:
  *   put:
- *     summary: Register vehicle exit
+ *     summary: Register vehicle exit, once the stay is paid for
  *     tags: [Entries]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               exitOverrideReason:
+ *                 type: string
+ *                 description: Lets the vehicle out with an unpaid balance (requires payment:override)
  *     responses:
  *       200:
  *         description: Exit registered and bill generated successfully
+ *       400:
+ *         description: Invalid input
  *       401:
  *         description: Not authenticated
+ *       402:
+ *         description: The stay has an unpaid balance
+ *       403:
+ *         description: Not authorized
  *       404:
  *         description: Entry not found
  *       409:
- *         description: Entry already closed
+ *         description: Entry already closed, or its payments changed while the exit was registered
  *       500:
  *         description: Server error
  */
 router.put(
   '/:id/exit',
   [
-    authenticate,
+    authenticateWithApiKey,
+    requirePermission('entry:exit'),
     param('id').notEmpty().withMessage('Entry ID is required'),
+    body('exitOverrideReason').optional().isString().trim().notEmpty().withMessage('Override reason cannot be empty'),
     validateRequest
   ],
   registerExit
@@ -0,0 +1,139 @@
+import express from 'express';
+import { getHolidays, createHoliday, deleteHoliday } from '../controllers/holiday.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/holidays:
+ *   get:
+ *     summary: Get holidays used by tariff holiday rates
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: calendar
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of holidays
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  [
+    authenticate,
+    requirePermission('parking:read'),
+    query('year').optional().isInt({ min: 1970, max: 9999 }).withMessage('Year must be a valid year'),
+    validateRequest
+  ],
+  getHolidays
+);
+
+/**
+ * @swagger
+ * /api/holidays:
+ *   post:
+ *     summary: Add a holiday to a calendar
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - calendar
+ *               - date
+ *               - name
+ *             properties:
+ *               calendar:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Holiday created successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       409:
+ *         description: The calendar already has a holiday on that date
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  [
+    authenticate,
+    requirePermission('settings:manage'),
+    body('calendar').isString().trim().notEmpty().withMessage('Calendar is required'),
+    body('date').isISO8601().withMessage('Date must be a valid date'),
+    body('name').isString().trim().notEmpty().withMessage('Holiday name is required'),
+    validateRequest
+  ],
+  createHoliday
+);
+
+/**
+ * @swagger
+ * /api/holidays/{id}:
+ *   delete:
+ *     summary: Delete a holiday
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday deleted successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Holiday not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id',
+  [
+    authenticate,
+    requirePermission('settings:manage'),
+    param('id').notEmpty().withMessage('Holiday ID is required'),
+    validateRequest
+  ],
+  deleteHoliday
+);
+
+export default router;
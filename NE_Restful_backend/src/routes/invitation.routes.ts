@@ -0,0 +1,127 @@
+import express from 'express';
+import { createInvitation, getAllInvitations, revokeInvitation } from '../controllers/invitation.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+import { STAFF_ROLES } from '../utils/permissions';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/invitations:
+ *   post:
+ *     summary: Invite a staff member with a pre-assigned role and parkings
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MANAGER, ATTENDANT, AUDITOR]
+ *               parkingCodes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Invitation created and emailed
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       409:
+ *         description: User already exists
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  [
+    authenticate,
+    requirePermission('user:invite'),
+    body('email').isEmail().withMessage('Valid email is required'),
+    body('role').isIn(STAFF_ROLES).withMessage(`Role must be one of ${STAFF_ROLES.join(', ')}`),
+    body('parkingCodes').optional().isArray().withMessage('Parking codes must be an array'),
+    body('parkingCodes.*').isString().notEmpty().withMessage('Parking codes must be strings'),
+    validateRequest
+  ],
+  createInvitation
+);
+
+/**
+ * @swagger
+ * /api/invitations:
+ *   get:
+ *     summary: Get all invitations
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of invitations
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/', authenticate, requirePermission('user:invite'), getAllInvitations);
+
+/**
+ * @swagger
+ * /api/invitations/{id}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation revoked successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation already accepted
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id',
+  [
+    authenticate,
+    requirePermission('user:invite'),
+    param('id').notEmpty().withMessage('Invitation ID is required'),
+    validateRequest
+  ],
+  revokeInvitation
+);
+
+export default router;
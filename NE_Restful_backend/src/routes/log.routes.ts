@@ -0,0 +1,85 @@
+import express from 'express';
+import { getLogs } from '../controllers/log.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { query } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/logs:
+ *   get:
+ *     summary: Get audit log events, most recent first
+ *     description: Every mutation is recorded with its actor, target, field-level changes, IP address and request id.
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: ID of the user who performed the action
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Action name, e.g. PARKING_UPDATED
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           enum: [User, Parking, Entry, Vehicle, Invitation, ApiKey, Setting, Session]
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Paginated audit log events
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  [
+    authenticate,
+    requirePermission('log:read'),
+    query('from').optional().isISO8601().withMessage('From must be a valid date'),
+    query('to').optional().isISO8601().withMessage('To must be a valid date'),
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+    validateRequest
+  ],
+  getLogs
+);
+
+export default router;
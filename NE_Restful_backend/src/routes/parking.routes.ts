@@ -5,9 +5,11 @@ import {
   getParkingByCode, 
   updateParking, 
   deleteParking,
+  restoreParking,
+  reconcileParkingCapacity,
   getAvailableParkings
 } from '../controllers/parking.controller';
-import { authenticate, authorizeAdmin } from '../middlewares/auth.middleware';
+import { authenticate, authenticateWithApiKey, requirePermission } from '../middlewares/auth.middleware';
 import { body, param } from 'express-validator';
 import { validateRequest } from '../middlewares/validation.middleware';
 
@@ -62,7 +64,7 @@ router.post(
   '/',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('parking:create'),
     body('code').notEmpty().withMessage('Parking code is required'),
     body('name').notEmpty().withMessage('Parking name is required'),
     body('totalSpaces').isInt({ min: 1 }).withMessage('Total spaces must be a positive integer'),
@@ -81,15 +83,24 @@ router.post(
  *     tags: [Parkings]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *         description: Also list deleted parkings (requires parking:delete)
  *     responses:
  *       200:
  *         description: List of parkings
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       500:
  *         description: Server error
  */
-router.get('/', authenticate, getAllParkings);
+router.get('/', authenticateWithApiKey, requirePermission('parking:read'), getAllParkings);
 
 /**
  * @swagger
@@ -99,15 +110,18 @@ router.get('/', authenticate, getAllParkings);
  *     tags: [Parkings]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: List of parkings with available spaces
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       500:
  *         description: Server error
  */
-router.get('/available', authenticate, getAvailableParkings);
+router.get('/available', authenticateWithApiKey, requirePermission('parking:read'), getAvailableParkings);
 
 /**
  * @swagger
@@ -117,6 +131,7 @@ router.get('/available', authenticate, getAvailableParkings);
  *     tags: [Parkings]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: code
@@ -128,6 +143,8 @@ router.get('/available', authenticate, getAvailableParkings);
  *         description: Parking details
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       404:
  *         description: Parking not found
  *       500:
@@ -136,7 +153,8 @@ router.get('/available', authenticate, getAvailableParkings);
 router.get(
   '/:code',
   [
-    authenticate,
+    authenticateWithApiKey,
+    requirePermission('parking:read'),
     param('code').notEmpty().withMessage('Parking code is required'),
     validateRequest
   ],
@@ -183,6 +201,8 @@ router.get(
  *         description: Not authorized
  *       404:
  *         description: Parking not found
+ *       409:
+ *         description: Not enough free spaces to lower the capacity
  *       500:
  *         description: Server error
  */
@@ -190,7 +210,7 @@ router.put(
   '/:code',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('parking:update'),
     param('code').notEmpty().withMessage('Parking code is required'),
     body('name').optional(),
     body('totalSpaces').optional().isInt({ min: 1 }).withMessage('Total spaces must be a positive integer'),
@@ -205,7 +225,7 @@ router.put(
  * @swagger
  * /api/parkings/{code}:
  *   delete:
- *     summary: Delete parking
+ *     summary: Delete parking (soft delete, it can be restored)
  *     tags: [Parkings]
  *     security:
  *       - bearerAuth: []
@@ -233,11 +253,87 @@ router.delete(
   '/:code',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('parking:delete'),
     param('code').notEmpty().withMessage('Parking code is required'),
     validateRequest
   ],
   deleteParking
 );
 
+/**
+ * @swagger
+ * /api/parkings/{code}/restore:
+ *   post:
+ *     summary: Restore a deleted parking
+ *     tags: [Parkings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Parking restored successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       409:
+ *         description: Parking is not deleted
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:code/restore',
+  [
+    authenticate,
+    requirePermission('parking:delete'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    validateRequest
+  ],
+  restoreParking
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/reconcile-capacity:
+ *   post:
+ *     summary: Recompute the available spaces of a parking from its open entries and held reservations
+ *     tags: [Parkings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Parking capacity reconciled successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:code/reconcile-capacity',
+  [
+    authenticate,
+    requirePermission('parking:reconcile'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    validateRequest
+  ],
+  reconcileParkingCapacity
+);
+
 export default router;
\ No newline at end of file
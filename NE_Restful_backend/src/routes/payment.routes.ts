@@ -0,0 +1,172 @@
+import express from 'express';
+import { getEntryPayments, createPayment, createEntryPaymentIntent } from '../controllers/payment.controller';
+import { authenticateWithApiKey, requirePermission } from '../middlewares/auth.middleware';
+import { requireOwnerOrPermission } from '../middlewares/ownership.middleware';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+import { ONLINE_PAYMENT_METHODS } from '../utils/paymentProvider';
+
+// Mounted under /api/entries/:id/payments
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /api/entries/{id}/payments:
+ *   get:
+ *     summary: Get the payments of an entry and its remaining balance (owner, or entry:read)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payments, amount due (so far, for parked vehicles), amount paid and balance
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Entry not found, or owned by someone else
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  [
+    authenticateWithApiKey,
+    param('id').notEmpty().withMessage('Entry ID is required'),
+    validateRequest,
+    requireOwnerOrPermission('entry', 'entry:read')
+  ],
+  getEntryPayments
+);
+
+/**
+ * @swagger
+ * /api/entries/{id}/payments:
+ *   post:
+ *     summary: Record a full or part payment against an entry
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - method
+ *               - amount
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [CASH, CARD, MOBILE_MONEY, WALLET]
+ *               amount:
+ *                 type: number
+ *               reference:
+ *                 type: string
+ *                 description: Receipt, card slip or mobile money transaction number
+ *     responses:
+ *       201:
+ *         description: Payment recorded successfully
+ *       400:
+ *         description: Invalid input or more than the balance
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Entry not found
+ *       409:
+ *         description: Nothing left to pay, or a concurrent payment changed the balance
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  [
+    authenticateWithApiKey,
+    requirePermission('payment:collect'),
+    param('id').notEmpty().withMessage('Entry ID is required'),
+    body('method').isIn(['CASH', 'CARD', 'MOBILE_MONEY', 'WALLET']).withMessage('Method must be CASH, CARD, MOBILE_MONEY or WALLET'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Amount must be a positive number'),
+    body('reference').optional().isString().trim().isLength({ max: 100 }).withMessage('Reference must be at most 100 characters'),
+    validateRequest
+  ],
+  createPayment
+);
+
+/**
+ * @swagger
+ * /api/entries/{id}/payments/intents:
+ *   post:
+ *     summary: Start a card, mobile money or wallet payment for an entry with the payment provider (owner, or payment:collect)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - method
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [CARD, MOBILE_MONEY, WALLET]
+ *               amount:
+ *                 type: number
+ *                 description: Defaults to the whole balance
+ *     responses:
+ *       201:
+ *         description: Pending payment and the client secret to complete it with the provider
+ *       400:
+ *         description: Invalid input, more than the balance or refused by the provider
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Entry not found, or owned by someone else
+ *       409:
+ *         description: Nothing left to pay, or a concurrent payment changed the balance
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/intents',
+  [
+    authenticateWithApiKey,
+    param('id').notEmpty().withMessage('Entry ID is required'),
+    body('method').isIn(ONLINE_PAYMENT_METHODS).withMessage('Method must be CARD, MOBILE_MONEY or WALLET'),
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be a positive number'),
+    validateRequest,
+    requireOwnerOrPermission('entry', 'payment:collect')
+  ],
+  createEntryPaymentIntent
+);
+
+export default router;
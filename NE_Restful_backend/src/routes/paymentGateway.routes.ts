@@ -0,0 +1,145 @@
+import express from 'express';
+import { confirmPayment, refundPayment, handlePaymentWebhook } from '../controllers/payment.controller';
+import { authenticateWithApiKey, requirePermission } from '../middlewares/auth.middleware';
+import { requireOwnerOrPermission } from '../middlewares/ownership.middleware';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Receive payment status events from a payment provider
+ *     description: Called by the provider, authenticated by the signature of the raw body. Events received before are acknowledged and ignored.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: mock
+ *     responses:
+ *       200:
+ *         description: Event received
+ *       400:
+ *         description: Malformed event
+ *       401:
+ *         description: Missing or invalid signature
+ *       404:
+ *         description: Unknown provider
+ *       500:
+ *         description: Server error
+ */
+router.post('/webhooks/:provider', handlePaymentWebhook);
+
+/**
+ * @swagger
+ * /api/payments/{id}/confirm:
+ *   post:
+ *     summary: Confirm a pending online payment with the provider (reservation owner, or payment:collect)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paymentToken
+ *             properties:
+ *               paymentToken:
+ *                 type: string
+ *                 description: Card or wallet token from the provider's client SDK (mock_success, mock_decline or mock_delayed with the mock provider)
+ *     responses:
+ *       200:
+ *         description: Payment completed, or still processing until the provider's webhook
+ *       400:
+ *         description: Not an online payment or refused by the provider
+ *       401:
+ *         description: Not authenticated
+ *       402:
+ *         description: Payment declined
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payment not found, or owned by someone else
+ *       409:
+ *         description: Payment is not pending
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/confirm',
+  [
+    authenticateWithApiKey,
+    param('id').notEmpty().withMessage('Payment ID is required'),
+    body('paymentToken').isString().notEmpty().withMessage('Payment token is required'),
+    validateRequest,
+    requireOwnerOrPermission('payment', 'payment:collect')
+  ],
+  confirmPayment
+);
+
+/**
+ * @swagger
+ * /api/payments/{id}/refund:
+ *   post:
+ *     summary: Refund a completed payment, through its provider for online payments
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment refunded, or refund processing with the provider
+ *       400:
+ *         description: Refused by the provider
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: Payment is not completed
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/refund',
+  [
+    authenticateWithApiKey,
+    requirePermission('payment:refund'),
+    param('id').notEmpty().withMessage('Payment ID is required'),
+    body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters'),
+    validateRequest
+  ],
+  refundPayment
+);
+
+export default router;
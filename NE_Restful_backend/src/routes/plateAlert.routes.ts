@@ -0,0 +1,107 @@
+import express from 'express';
+import { getPlateAlerts, resolvePlateAlert } from '../controllers/plateAlert.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/plate-alerts:
+ *   get:
+ *     summary: Get alerts raised when a plate entered a parking while still parked at another one
+ *     tags: [Plate Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, RESOLVED]
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [REJECTED, WARNED, AUTO_CLOSED]
+ *       - in: query
+ *         name: plateNumber
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of plate alerts
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  [
+    authenticate,
+    requirePermission('alert:read'),
+    query('status').optional().isIn(['OPEN', 'RESOLVED']).withMessage('Invalid status'),
+    query('action').optional().isIn(['REJECTED', 'WARNED', 'AUTO_CLOSED']).withMessage('Invalid action'),
+    validateRequest
+  ],
+  getPlateAlerts
+);
+
+/**
+ * @swagger
+ * /api/plate-alerts/{id}/resolve:
+ *   post:
+ *     summary: Mark a plate alert as reviewed
+ *     tags: [Plate Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *                 description: What the review found, e.g. a missed exit or a cloned plate
+ *     responses:
+ *       200:
+ *         description: Plate alert resolved successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Plate alert not found
+ *       409:
+ *         description: Plate alert is already resolved
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/resolve',
+  [
+    authenticate,
+    requirePermission('alert:resolve'),
+    param('id').isUUID().withMessage('Invalid plate alert ID'),
+    body('resolution').optional().isString().trim().isLength({ max: 500 }).withMessage('Resolution must be at most 500 characters'),
+    validateRequest
+  ],
+  resolvePlateAlert
+);
+
+export default router;
@@ -6,7 +6,7 @@ import {
   getRevenueReport,
   generateEntriesReport
 } from '../controllers/report.controller';
-import { authenticate, authorizeAdmin } from '../middlewares/auth.middleware';
+import { authenticate, authenticateWithApiKey, requirePermission } from '../middlewares/auth.middleware';
 import { query } from 'express-validator';
 import { validateRequest } from '../middlewares/validation.middleware';
 import { body, param } from 'express-validator';
@@ -52,7 +52,7 @@ router.get(
   '/outgoing',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('report:entries'),
     query('startDate').notEmpty().withMessage('Start date is required'),
     query('endDate').notEmpty().withMessage('End date is required'),
     validateRequest
@@ -99,7 +99,7 @@ router.get(
   '/incoming',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('report:entries'),
     query('startDate').notEmpty().withMessage('Start date is required'),
     query('endDate').notEmpty().withMessage('End date is required'),
     validateRequest
@@ -115,6 +115,7 @@ router.get(
  *     tags: [Reports]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: Parking occupancy report generated successfully
@@ -128,8 +129,8 @@ router.get(
 router.get(
   '/occupancy',
   [
-    authenticate,
-    authorizeAdmin
+    authenticateWithApiKey,
+    requirePermission('report:occupancy')
   ],
   getParkingOccupancyReport
 );
@@ -180,7 +181,7 @@ router.get(
   '/revenue',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('report:revenue'),
     query('startDate').notEmpty().withMessage('Start date is required'),
     query('endDate').notEmpty().withMessage('End date is required'),
     query('groupBy').optional().isIn(['parking', 'day']).withMessage('Group by must be either parking or day'),
@@ -260,7 +261,7 @@ router.get(
   '/entries',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('report:entries'),
     query('startDate').notEmpty().isDate().withMessage('Valid start date is required'),
     query('endDate').notEmpty().isDate().withMessage('Valid end date is required'),
     validateRequest
@@ -0,0 +1,293 @@
+import express from 'express';
+import {
+  createReservation,
+  getReservations,
+  getReservationById,
+  cancelReservation
+} from '../controllers/reservation.controller';
+import { getReservationPayments, createReservationPaymentIntent } from '../controllers/payment.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { requireOwnerOrPermission } from '../middlewares/ownership.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+import { ONLINE_PAYMENT_METHODS } from '../utils/paymentProvider';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/reservations:
+ *   post:
+ *     summary: Book a parking for a time window
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parkingCode
+ *               - plateNumber
+ *               - startTime
+ *               - endTime
+ *             properties:
+ *               parkingCode:
+ *                 type: string
+ *               plateNumber:
+ *                 type: string
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Reservation created, its code is used at the entry gate
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Parking not found
+ *       409:
+ *         description: Parking fully booked, or the vehicle already has a reservation during this time
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  [
+    authenticate,
+    body('parkingCode').notEmpty().withMessage('Parking code is required'),
+    body('plateNumber').isString().trim().notEmpty().withMessage('Plate number is required'),
+    body('startTime').isISO8601().withMessage('Start time must be a valid date'),
+    body('endTime').isISO8601().withMessage('End time must be a valid date'),
+    validateRequest
+  ],
+  createReservation
+);
+
+/**
+ * @swagger
+ * /api/reservations:
+ *   get:
+ *     summary: Get reservations (own reservations, or every reservation of the caller's parkings with reservation:read)
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: parkingCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [BOOKED, FULFILLED, CANCELLED, NO_SHOW]
+ *       - in: query
+ *         name: plateNumber
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of reservations
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not assigned to the parking
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  [
+    authenticate,
+    query('status')
+      .optional()
+      .isIn(['BOOKED', 'FULFILLED', 'CANCELLED', 'NO_SHOW'])
+      .withMessage('Status must be one of BOOKED, FULFILLED, CANCELLED, NO_SHOW'),
+    validateRequest
+  ],
+  getReservations
+);
+
+/**
+ * @swagger
+ * /api/reservations/{id}:
+ *   get:
+ *     summary: Get reservation by ID (owner, or reservation:read)
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reservation details
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Reservation not found, or owned by someone else
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  [
+    authenticate,
+    param('id').notEmpty().withMessage('Reservation ID is required'),
+    validateRequest,
+    requireOwnerOrPermission('reservation', 'reservation:read')
+  ],
+  getReservationById
+);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/cancel:
+ *   post:
+ *     summary: Cancel a reservation (owner, or reservation:manage)
+ *     description: Gives its held space back and refunds what was paid ahead for it through the payment provider.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reservation cancelled, any space held for it is released
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Reservation not found, or owned by someone else
+ *       409:
+ *         description: Reservation is not booked any more
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/cancel',
+  [
+    authenticate,
+    param('id').notEmpty().withMessage('Reservation ID is required'),
+    validateRequest,
+    requireOwnerOrPermission('reservation', 'reservation:manage')
+  ],
+  cancelReservation
+);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/payments:
+ *   get:
+ *     summary: Get what was paid ahead for a reservation (owner, or reservation:read)
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payments, amount due, amount paid and balance
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Reservation not found, or owned by someone else
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/payments',
+  [
+    authenticate,
+    param('id').notEmpty().withMessage('Reservation ID is required'),
+    validateRequest,
+    requireOwnerOrPermission('reservation', 'reservation:read')
+  ],
+  getReservationPayments
+);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/payments/intents:
+ *   post:
+ *     summary: Pay a booked reservation or its no-show fee ahead with the payment provider (owner, or payment:collect)
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - method
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [CARD, MOBILE_MONEY, WALLET]
+ *               amount:
+ *                 type: number
+ *                 description: Defaults to the whole balance
+ *     responses:
+ *       201:
+ *         description: Pending payment and the client secret to complete it with the provider
+ *       400:
+ *         description: Invalid input, more than the balance or refused by the provider
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Reservation not found, or owned by someone else
+ *       409:
+ *         description: Reservation can't be paid, nothing left to pay, or a concurrent payment changed the balance
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/payments/intents',
+  [
+    authenticate,
+    param('id').notEmpty().withMessage('Reservation ID is required'),
+    body('method').isIn(ONLINE_PAYMENT_METHODS).withMessage('Method must be CARD, MOBILE_MONEY or WALLET'),
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be a positive number'),
+    validateRequest,
+    requireOwnerOrPermission('reservation', 'payment:collect')
+  ],
+  createReservationPaymentIntent
+);
+
+export default router;
@@ -0,0 +1,81 @@
+import express from 'express';
+import { getSettings, updateSetting } from '../controllers/setting.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/settings:
+ *   get:
+ *     summary: Get system settings
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current settings, including defaults for settings never changed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/', authenticate, requirePermission('settings:manage'), getSettings);
+
+/**
+ * @swagger
+ * /api/settings/{key}:
+ *   put:
+ *     summary: Update a system setting
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [requireAdminTwoFactor, reservationGraceMinutes, reservationNoShowFee, crossFacilityEntryPolicy]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - value
+ *             properties:
+ *               value:
+ *                 description: New value, of the same type as the setting's default
+ *     responses:
+ *       200:
+ *         description: Setting updated successfully
+ *       400:
+ *         description: Invalid value
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Setting not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  '/:key',
+  [
+    authenticate,
+    requirePermission('settings:manage'),
+    param('key').notEmpty().withMessage('Setting key is required'),
+    body('value').exists().withMessage('Value is required'),
+    validateRequest
+  ],
+  updateSetting
+);
+
+export default router;
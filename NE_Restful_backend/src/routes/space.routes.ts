@@ -0,0 +1,254 @@
+import express from 'express';
+import {
+  getParkingSpaces,
+  createParkingSpace,
+  updateParkingSpace,
+  deleteParkingSpace
+} from '../controllers/space.controller';
+import { authenticate, authenticateWithApiKey, requirePermission } from '../middlewares/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+
+// Mounted under /api/parkings/:code/spaces
+const router = express.Router({ mergeParams: true });
+
+const SPACE_TYPES = ['STANDARD', 'EV', 'DISABLED', 'MOTORCYCLE'];
+// OCCUPIED is only ever set by a vehicle entry
+const EDITABLE_STATUSES = ['AVAILABLE', 'OUT_OF_SERVICE'];
+
+/**
+ * @swagger
+ * /api/parkings/{code}/spaces:
+ *   get:
+ *     summary: Get the spaces of a parking
+ *     tags: [Parking Spaces]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [STANDARD, EV, DISABLED, MOTORCYCLE]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [AVAILABLE, OCCUPIED, OUT_OF_SERVICE]
+ *     responses:
+ *       200:
+ *         description: List of parking spaces
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  [
+    authenticateWithApiKey,
+    requirePermission('parking:read'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    query('type').optional().isIn(SPACE_TYPES).withMessage(`Type must be one of ${SPACE_TYPES.join(', ')}`),
+    query('status').optional().isIn([...EDITABLE_STATUSES, 'OCCUPIED']).withMessage('Invalid status'),
+    validateRequest
+  ],
+  getParkingSpaces
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/spaces:
+ *   post:
+ *     summary: Add a space to a parking
+ *     tags: [Parking Spaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - number
+ *             properties:
+ *               number:
+ *                 type: string
+ *               level:
+ *                 type: string
+ *               zone:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [STANDARD, EV, DISABLED, MOTORCYCLE]
+ *               status:
+ *                 type: string
+ *                 enum: [AVAILABLE, OUT_OF_SERVICE]
+ *     responses:
+ *       201:
+ *         description: Parking space created successfully
+ *       400:
+ *         description: Invalid input or the parking already has all of its spaces
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       409:
+ *         description: Space number already exists
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  [
+    authenticate,
+    requirePermission('parking:update'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    body('number').isString().trim().notEmpty().withMessage('Space number is required'),
+    body('level').optional().isString().trim(),
+    body('zone').optional().isString().trim(),
+    body('type').optional().isIn(SPACE_TYPES).withMessage(`Type must be one of ${SPACE_TYPES.join(', ')}`),
+    body('status').optional().isIn(EDITABLE_STATUSES).withMessage(`Status must be one of ${EDITABLE_STATUSES.join(', ')}`),
+    validateRequest
+  ],
+  createParkingSpace
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/spaces/{spaceId}:
+ *   put:
+ *     summary: Update a parking space
+ *     tags: [Parking Spaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               number:
+ *                 type: string
+ *               level:
+ *                 type: string
+ *               zone:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [STANDARD, EV, DISABLED, MOTORCYCLE]
+ *               status:
+ *                 type: string
+ *                 enum: [AVAILABLE, OUT_OF_SERVICE]
+ *     responses:
+ *       200:
+ *         description: Parking space updated successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking or space not found
+ *       409:
+ *         description: Space number already exists, or the space is occupied
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  '/:spaceId',
+  [
+    authenticate,
+    requirePermission('parking:update'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    param('spaceId').isUUID().withMessage('Invalid space ID'),
+    body('number').optional().isString().trim().notEmpty().withMessage('Space number cannot be empty'),
+    body('level').optional().isString().trim(),
+    body('zone').optional().isString().trim(),
+    body('type').optional().isIn(SPACE_TYPES).withMessage(`Type must be one of ${SPACE_TYPES.join(', ')}`),
+    body('status').optional().isIn(EDITABLE_STATUSES).withMessage(`Status must be one of ${EDITABLE_STATUSES.join(', ')}`),
+    validateRequest
+  ],
+  updateParkingSpace
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/spaces/{spaceId}:
+ *   delete:
+ *     summary: Delete a parking space
+ *     tags: [Parking Spaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: spaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Parking space deleted successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking or space not found
+ *       409:
+ *         description: Space is occupied
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:spaceId',
+  [
+    authenticate,
+    requirePermission('parking:update'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    param('spaceId').isUUID().withMessage('Invalid space ID'),
+    validateRequest
+  ],
+  deleteParkingSpace
+);
+
+export default router;
@@ -0,0 +1,308 @@
+import express from 'express';
+import { getParkingTariff, getTariffVersions, scheduleTariff, deleteTariffVersion, getParkingQuote } from '../controllers/tariff.controller';
+import { authenticate, authenticateWithApiKey, requirePermission } from '../middlewares/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+import { isValidTimeOfDay, isValidTimeZone } from '../utils/pricing';
+
+// Mounted under /api/parkings/:code
+const router = express.Router({ mergeParams: true });
+
+// Optional rates may be left out or set to null to remove them
+const optionalRate = (field: string) =>
+  body(field).optional({ values: 'null' }).isFloat({ min: 0 }).withMessage(`${field} must be a positive number`);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/tariff:
+ *   get:
+ *     summary: Get the tariff version of a parking in force at a time (the flat hourly fee when there is none)
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: at
+ *         description: Defaults to now
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Tariff rules
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/tariff',
+  [
+    authenticateWithApiKey,
+    requirePermission('parking:read'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    query('at').optional().isISO8601().withMessage('At must be a valid date'),
+    validateRequest
+  ],
+  getParkingTariff
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/tariffs:
+ *   get:
+ *     summary: Get every tariff version of a parking, past and scheduled
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tariff versions ordered by effectiveFrom
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/tariffs',
+  [
+    authenticateWithApiKey,
+    requirePermission('parking:read'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    validateRequest
+  ],
+  getTariffVersions
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/tariffs:
+ *   post:
+ *     summary: Schedule a tariff version of a parking, now or from a future date
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - hourlyRate
+ *             properties:
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now. The version applies until the next scheduled one starts.
+ *               name:
+ *                 type: string
+ *               timezone:
+ *                 type: string
+ *                 description: IANA time zone for night, weekend and holiday rules (defaults to UTC)
+ *               graceMinutes:
+ *                 type: integer
+ *                 description: Stays up to this long are free
+ *               hourlyRate:
+ *                 type: number
+ *               firstHourRate:
+ *                 type: number
+ *               bands:
+ *                 type: array
+ *                 description: Stepped rates, each applying from a zero-based hour of the stay
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     fromHour:
+ *                       type: integer
+ *                     rate:
+ *                       type: number
+ *               dailyCap:
+ *                 type: number
+ *                 description: Maximum charged for each 24 hours of a stay
+ *               nightRate:
+ *                 type: number
+ *               nightStart:
+ *                 type: string
+ *                 example: '22:00'
+ *               nightEnd:
+ *                 type: string
+ *                 example: '06:00'
+ *               weekendRate:
+ *                 type: number
+ *               holidayRate:
+ *                 type: number
+ *                 description: Defaults to the weekend rate on holidays
+ *               holidayCalendar:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Tariff version scheduled successfully
+ *       400:
+ *         description: Invalid input or start in the past
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       409:
+ *         description: A version already starts at this time
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/tariffs',
+  [
+    authenticate,
+    requirePermission('parking:update'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    body('effectiveFrom').optional().isISO8601().withMessage('Effective from must be a valid date'),
+    body('name').isString().trim().notEmpty().withMessage('Tariff name is required'),
+    body('timezone').optional().custom(isValidTimeZone).withMessage('Timezone must be a valid IANA time zone'),
+    body('graceMinutes').optional().isInt({ min: 0 }).withMessage('Grace minutes must be a positive integer'),
+    body('hourlyRate').isFloat({ min: 0 }).withMessage('Hourly rate must be a positive number'),
+    optionalRate('firstHourRate'),
+    body('bands').optional().isArray().withMessage('Bands must be an array'),
+    body('bands.*.fromHour').isInt({ min: 0 }).withMessage('Band fromHour must be a positive integer'),
+    body('bands.*.rate').isFloat({ min: 0 }).withMessage('Band rate must be a positive number'),
+    optionalRate('dailyCap'),
+    optionalRate('nightRate'),
+    body('nightStart').optional({ values: 'null' }).custom(isValidTimeOfDay).withMessage('Night start must be a time like 22:00'),
+    body('nightEnd').optional({ values: 'null' }).custom(isValidTimeOfDay).withMessage('Night end must be a time like 06:00'),
+    optionalRate('weekendRate'),
+    optionalRate('holidayRate'),
+    body('holidayCalendar').optional({ values: 'null' }).isString().trim().notEmpty().withMessage('Holiday calendar cannot be empty'),
+    validateRequest
+  ],
+  scheduleTariff
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/tariffs/{tariffId}:
+ *   delete:
+ *     summary: Delete a scheduled tariff version that has not taken effect yet
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: tariffId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tariff version deleted successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking or tariff version not found
+ *       409:
+ *         description: The version has already taken effect
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/tariffs/:tariffId',
+  [
+    authenticate,
+    requirePermission('parking:update'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    param('tariffId').isUUID().withMessage('Invalid tariff ID'),
+    validateRequest
+  ],
+  deleteTariffVersion
+);
+
+/**
+ * @swagger
+ * /api/parkings/{code}/quote:
+ *   get:
+ *     summary: Price a stay at a parking with the tariff version in force when it starts
+ *     tags: [Tariffs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Defaults to now
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Itemised price of the stay
+ *       400:
+ *         description: Invalid dates
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Parking not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/quote',
+  [
+    authenticateWithApiKey,
+    requirePermission('parking:read'),
+    param('code').notEmpty().withMessage('Parking code is required'),
+    query('from').isISO8601().withMessage('From must be a valid date'),
+    query('to').optional().isISO8601().withMessage('To must be a valid date'),
+    validateRequest
+  ],
+  getParkingQuote
+);
+
+export default router;
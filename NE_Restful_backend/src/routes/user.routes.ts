@@ -1,8 +1,12 @@
 import express from 'express';
-import { getAllUsers, getUserById, updateUser, changePassword, deleteUser } from '../controllers/user.controller';
-import { authenticate, authorizeAdmin } from '../middlewares/auth.middleware';
+import { getAllUsers, getUserById, updateUser, changePassword, unlockUser, getUserParkings, setUserParkings, deleteUser, restoreUser } from '../controllers/user.controller';
+import { getUserSessions, revokeUserSession, revokeAllUserSessions } from '../controllers/session.controller';
+import { exportUserData, eraseUser } from '../controllers/privacy.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { requireOwnerOrPermission } from '../middlewares/ownership.middleware';
 import { body, param } from 'express-validator';
 import { validateRequest } from '../middlewares/validation.middleware';
+import { ROLES } from '../utils/permissions';
 import { generateEntriesReport } from '../controllers/report.controller';
 
 const router = express.Router();
@@ -15,6 +19,12 @@ const router = express.Router();
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *         description: Also list deleted users (requires user:delete)
  *     responses:
  *       200:
  *         description: List of users
@@ -25,13 +35,14 @@ const router = express.Router();
  *       500:
  *         description: Server error
  */
-router.get('/', authenticate, authorizeAdmin, getAllUsers);
+router.get('/', authenticate, requirePermission('user:read'), getAllUsers);
 
 /**
  * @swagger
  * /api/users/{id}:
  *   get:
  *     summary: Get user by ID
+ *     description: Users can read their own record, other records require the user:read permission.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -49,7 +60,7 @@ router.get('/', authenticate, authorizeAdmin, getAllUsers);
  *       403:
  *         description: Not authorized
  *       404:
- *         description: User not found
+ *         description: User not found, or owned by someone else
  *       500:
  *         description: Server error
  */
@@ -58,7 +69,8 @@ router.get(
   [
     authenticate,
     param('id').notEmpty().withMessage('User ID is required'),
-    validateRequest
+    validateRequest,
+    requireOwnerOrPermission('user', 'user:read')
   ],
   getUserById
 );
@@ -93,7 +105,7 @@ router.get(
  *                 format: email
  *               role:
  *                 type: string
- *                 enum: [ADMIN, USER]
+ *                 enum: [ADMIN, MANAGER, ATTENDANT, AUDITOR, USER]
  *     responses:
  *       200:
  *         description: User updated successfully
@@ -110,12 +122,12 @@ router.put(
   '/:id',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('user:update'),
     param('id').notEmpty().withMessage('User ID is required'),
     body('firstName').optional(),
     body('lastName').optional(),
     body('email').optional().isEmail().withMessage('Valid email is required'),
-    body('role').optional().isIn(['ADMIN', 'USER']).withMessage('Role must be either ADMIN or USER'),
+    body('role').optional().isIn(ROLES).withMessage(`Role must be one of ${ROLES.join(', ')}`),
     validateRequest
   ],
   updateUser
@@ -156,8 +168,10 @@ router.put(
  *         description: Invalid input or current password is incorrect
  *       401:
  *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
  *       404:
- *         description: User not found
+ *         description: User not found, or owned by someone else
  *       500:
  *         description: Server error
  */
@@ -168,16 +182,345 @@ router.put(
     param('id').notEmpty().withMessage('User ID is required'),
     body('currentPassword').notEmpty().withMessage('Current password is required'),
     body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters long'),
-    validateRequest
+    validateRequest,
+    requireOwnerOrPermission('user', 'user:update')
   ],
   changePassword
 );
 
+/**
+ * @swagger
+ * /api/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock an account locked after failed login attempts
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User unlocked successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/unlock',
+  [
+    authenticate,
+    requirePermission('user:unlock'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    validateRequest
+  ],
+  unlockUser
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/parkings:
+ *   get:
+ *     summary: Get the parkings a staff member is assigned to
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of parking assignments
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/parkings',
+  [
+    authenticate,
+    requirePermission('user:assign'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    validateRequest
+  ],
+  getUserParkings
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/parkings:
+ *   put:
+ *     summary: Replace the parkings a staff member is assigned to
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parkingCodes
+ *             properties:
+ *               parkingCodes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Parking assignments updated successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User or parking not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  '/:id/parkings',
+  [
+    authenticate,
+    requirePermission('user:assign'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    body('parkingCodes').isArray().withMessage('Parking codes must be an array'),
+    body('parkingCodes.*').isString().notEmpty().withMessage('Parking codes must be strings'),
+    validateRequest
+  ],
+  setUserParkings
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/sessions:
+ *   get:
+ *     summary: List a user's active sessions
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active sessions of the user
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/sessions',
+  [
+    authenticate,
+    requirePermission('session:manage'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    validateRequest
+  ],
+  getUserSessions
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/sessions:
+ *   delete:
+ *     summary: Log a user out of every session
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions revoked successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id/sessions',
+  [
+    authenticate,
+    requirePermission('session:manage'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    validateRequest
+  ],
+  revokeAllUserSessions
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of a user's sessions
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id/sessions/:sessionId',
+  [
+    authenticate,
+    requirePermission('session:manage'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    param('sessionId').notEmpty().withMessage('Session ID is required'),
+    validateRequest
+  ],
+  revokeUserSession
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/export:
+ *   get:
+ *     summary: Export everything held on a user as a JSON download
+ *     description: Profile, vehicles, entries and bills of their plates, sessions, login attempts and audit log rows.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User data export
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/export',
+  [
+    authenticate,
+    requirePermission('user:export'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    validateRequest
+  ],
+  exportUserData
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/erase:
+ *   post:
+ *     summary: Erase a user's personal data
+ *     description: >
+ *       Anonymises the account instead of deleting it. Entries of the user's plates get a random
+ *       plate alias, personal values in audit log rows are redacted, and sessions, tokens, vehicles
+ *       and login attempts are deleted. Entries, bills and log rows themselves are kept.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User data erased
+ *       400:
+ *         description: Cannot erase your own account
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User data already erased
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/erase',
+  [
+    authenticate,
+    requirePermission('user:erase'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    validateRequest
+  ],
+  eraseUser
+);
+
 /**
  * @swagger
  * /api/users/{id}:
  *   delete:
- *     summary: Delete user
+ *     summary: Delete user (soft delete, it can be restored)
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -203,11 +546,50 @@ router.delete(
   '/:id',
   [
     authenticate,
-    authorizeAdmin,
+    requirePermission('user:delete'),
     param('id').notEmpty().withMessage('User ID is required'),
     validateRequest
   ],
   deleteUser
 );
 
+/**
+ * @swagger
+ * /api/users/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted user
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User restored successfully
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is not deleted
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/restore',
+  [
+    authenticate,
+    requirePermission('user:delete'),
+    param('id').notEmpty().withMessage('User ID is required'),
+    validateRequest
+  ],
+  restoreUser
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,143 @@
+import express from 'express';
+import { getMyVehicles, addVehicle, getVehicleById, removeVehicle } from '../controllers/vehicle.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { requireOwnerOrPermission } from '../middlewares/ownership.middleware';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middlewares/validation.middleware';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/vehicles:
+ *   get:
+ *     summary: Get the vehicles registered by the current user
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of vehicles
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.get('/', authenticate, getMyVehicles);
+
+/**
+ * @swagger
+ * /api/vehicles:
+ *   post:
+ *     summary: Register a vehicle for the current user
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - plateNumber
+ *             properties:
+ *               plateNumber:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Vehicle registered
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       409:
+ *         description: Vehicle already registered
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  [
+    authenticate,
+    body('plateNumber').isString().trim().notEmpty().withMessage('Plate number is required'),
+    validateRequest
+  ],
+  addVehicle
+);
+
+/**
+ * @swagger
+ * /api/vehicles/{id}:
+ *   get:
+ *     summary: Get vehicle by ID (owner, or user:read)
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Vehicle details
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Vehicle not found, or owned by someone else
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  [
+    authenticate,
+    param('id').notEmpty().withMessage('Vehicle ID is required'),
+    validateRequest,
+    requireOwnerOrPermission('vehicle', 'user:read')
+  ],
+  getVehicleById
+);
+
+/**
+ * @swagger
+ * /api/vehicles/{id}:
+ *   delete:
+ *     summary: Remove a vehicle (owner, or user:update)
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Vehicle removed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Vehicle not found, or owned by someone else
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id',
+  [
+    authenticate,
+    param('id').notEmpty().withMessage('Vehicle ID is required'),
+    validateRequest,
+    requireOwnerOrPermission('vehicle', 'user:update')
+  ],
+  removeVehicle
+);
+
+export default router;
@@ -15,19 +15,45 @@ import userRoutes from './routes/user.routes';
 import parkingRoutes from './routes/parking.routes';
 import entryRoutes from './routes/entry.routes';
 import reportRoutes from './routes/report.routes';
+import settingRoutes from './routes/setting.routes';
+import invitationRoutes from './routes/invitation.routes';
+import apiKeyRoutes from './routes/apiKey.routes';
+import logRoutes from './routes/log.routes';
+import vehicleRoutes from './routes/vehicle.routes';
+import spaceRoutes from './routes/space.routes';
+import reservationRoutes from './routes/reservation.routes';
+import tariffRoutes from './routes/tariff.routes';
+import holidayRoutes from './routes/holiday.routes';
+import plateAlertRoutes from './routes/plateAlert.routes';
+import paymentRoutes from './routes/payment.routes';
+import paymentGatewayRoutes from './routes/paymentGateway.routes';
+import { rateLimitGroup } from './middlewares/rateLimit.middleware';
+import { assignRequestId } from './middlewares/requestId.middleware';
+import { startReservationJob } from './jobs/reservation.job';
+import { assertPaymentConfig } from './utils/payments';
+
+// Refuse to start with a payment configuration that can't take payments or verify webhooks
+assertPaymentConfig();
 
 // Initialize express app
 const app = express();
 
+// Number of proxies in front of the API, so that req.ip (used by rate limiting) is the client address
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '0'));
+
 // Middleware
 app.use(cors( 
   {
     origin : ["http://localhost:5173"],
-    credentials: true
+    credentials: true,
+    exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'X-Request-Id']
   }
 ));
+app.use(assignRequestId);
 app.use(helmet());
 app.use(morgan('dev'));
+// Provider webhooks are signed over the exact bytes sent, so they are kept raw instead of parsed
+app.use('/api/payments/webhooks', express.raw({ type: 'application/json' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -46,6 +72,20 @@ const swaggerOptions = {
         description: 'Development server',
       },
     ],
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+        },
+      },
+    },
   },
   apis: ['./src/routes/*.ts'],
 };
@@ -54,11 +94,23 @@ const swaggerDocs = swaggerJsDoc(swaggerOptions);
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerDocs));
 
 // Routes
-app.use('/api/auth', authRoutes);
+app.use('/api/auth', rateLimitGroup('auth'), authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/parkings', parkingRoutes);
-app.use('/api/entries', entryRoutes);
-app.use('/api/reports', reportRoutes);
+app.use('/api/parkings/:code/spaces', spaceRoutes);
+app.use('/api/parkings/:code', tariffRoutes);
+app.use('/api/entries', rateLimitGroup('entries'), entryRoutes);
+app.use('/api/entries/:id/payments', paymentRoutes);
+app.use('/api/payments', paymentGatewayRoutes);
+app.use('/api/reports', rateLimitGroup('reports'), reportRoutes);
+app.use('/api/settings', settingRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/logs', logRoutes);
+app.use('/api/vehicles', vehicleRoutes);
+app.use('/api/reservations', reservationRoutes);
+app.use('/api/holidays', holidayRoutes);
+app.use('/api/plate-alerts', plateAlertRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -69,6 +121,7 @@ app.get('/health', (req, res) => {
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startReservationJob();
 });
 
 export default app;
\ No newline at end of file
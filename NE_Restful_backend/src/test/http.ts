@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+
+// Minimal Express request for calling controllers and middlewares directly
+export const mockRequest = (overrides: Record<string, unknown> = {}): Request => {
+  return {
+    body: {},
+    params: {},
+    query: {},
+    headers: {},
+    ip: '127.0.0.1',
+    get: () => undefined,
+    header: () => undefined,
+    ...overrides
+  } as unknown as Request;
+};
+
+export interface MockResponse extends Response {
+  statusCode: number;
+  body: any;
+}
+
+// Response that records the status and JSON body it was given
+export const mockResponse = (): MockResponse => {
+  const res = { statusCode: 200, body: undefined, headers: {} as Record<string, string> } as unknown as MockResponse & {
+    headers: Record<string, string>;
+  };
+
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  }) as never;
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  }) as never;
+  res.set = jest.fn((field: string, value: string) => {
+    res.headers[field] = value;
+    return res;
+  }) as never;
+  res.setHeader = res.set as never;
+
+  return res;
+};
@@ -0,0 +1,47 @@
+// Stand-in for the Prisma client in tests, no database needed. Model methods (prismaMock.user.findUnique, ...)
+// are jest.fn created on first use, tests give them results with mockResolvedValue and check their calls.
+// $transaction runs its callback with the same stand-in, or resolves its array of queries.
+type ModelMock = Record<string, jest.Mock>;
+
+let models = new Map<string, ModelMock>();
+
+const createModelMock = (): ModelMock => {
+  const methods: ModelMock = {};
+
+  return new Proxy(methods, {
+    get: (target, method: string) => {
+      if (!target[method]) {
+        target[method] = jest.fn();
+      }
+      return target[method];
+    }
+  });
+};
+
+const createTransactionMock = () =>
+  jest.fn((queries: unknown) => (Array.isArray(queries) ? Promise.all(queries) : (queries as (tx: unknown) => unknown)(prismaMock)));
+
+let transactionMock = createTransactionMock();
+
+export const prismaMock: Record<string, ModelMock> & { $transaction: jest.Mock } = new Proxy({} as never, {
+  get: (_, property: string) => {
+    if (property === '$transaction') {
+      return transactionMock;
+    }
+
+    // Not a promise, so it can be returned from async functions
+    if (property === 'then') {
+      return undefined;
+    }
+
+    if (!models.has(property)) {
+      models.set(property, createModelMock());
+    }
+    return models.get(property);
+  }
+});
+
+export const resetPrismaMock = () => {
+  models = new Map();
+  transactionMock = createTransactionMock();
+};
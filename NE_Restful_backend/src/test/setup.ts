@@ -0,0 +1,13 @@
+import { resetPrismaMock } from './prismaMock';
+
+process.env.JWT_SECRET = 'test-secret';
+process.env.PAYMENT_PROVIDER = 'mock';
+process.env.MOCK_PAYMENT_WEBHOOK_SECRET = 'test-webhook-secret';
+
+beforeEach(() => {
+  resetPrismaMock();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
@@ -0,0 +1,106 @@
+import { Request } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type AuditTargetType = 'User' | 'Parking' | 'Entry' | 'Vehicle' | 'Invitation' | 'ApiKey' | 'Setting' | 'Session' | 'ParkingSpace' | 'Reservation' | 'Tariff' | 'Holiday' | 'PlateAlert' | 'Payment';
+
+export interface AuditEvent {
+  action: string;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  // Defaults to the authenticated user, set it for events like login where nobody is authenticated yet
+  actorId?: string | null;
+}
+
+// Secrets never end up in the audit trail, not even hashed
+const REDACTED_FIELDS = ['password', 'twoFactorSecret', 'keyHash', 'tokenHash'];
+const IGNORED_FIELDS = ['updatedAt'];
+
+// Plain JSON copy of a record (dates as ISO strings, decimals as strings) without secret fields
+const toAuditRecord = (record: object | null | undefined): Record<string, unknown> => {
+  if (!record) {
+    return {};
+  }
+
+  const copy = JSON.parse(JSON.stringify(record));
+  for (const field of REDACTED_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+};
+
+// Field-level diff: { field: { before, after } } for every field that changed.
+// A created record diffs against nothing and a deleted one against nothing after it.
+export const diffRecords = (before?: object | null, after?: object | null) => {
+  const previous = toAuditRecord(before);
+  const next = toAuditRecord(after);
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+    if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      changes[field] = { before: previous[field] ?? null, after: next[field] ?? null };
+    }
+  }
+
+  return changes;
+};
+
+export interface LogDetails {
+  targetType?: AuditTargetType;
+  targetId?: string | null;
+  changes?: Prisma.InputJsonValue;
+  ipAddress?: string;
+  requestId?: string;
+  apiKeyId?: string;
+}
+
+// Append a row to the audit log. Every audit event, from a request or from the system, is written through here.
+export const logAction = async (userId: string | null, action: string, details: LogDetails = {}) => {
+  await prisma.log.create({
+    data: {
+      userId,
+      action,
+      ...details,
+      createdAt: new Date()
+    }
+  });
+};
+
+// Write an audit event for a request. Failures are only logged, the mutation itself already happened.
+export const recordAudit = async (req: Request, event: AuditEvent) => {
+  const changes = event.before || event.after ? diffRecords(event.before, event.after) : undefined;
+
+  try {
+    await logAction(event.actorId !== undefined ? event.actorId : req.user?.id ?? null, event.action, {
+      targetType: event.targetType,
+      targetId: event.targetId,
+      changes: changes as Prisma.InputJsonValue | undefined,
+      ipAddress: req.ip,
+      requestId: req.requestId,
+      apiKeyId: req.apiKey?.id
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+};
+
+// Write an audit event for something the system did on its own, like a scheduled job
+export const recordSystemAudit = async (event: Omit<AuditEvent, 'actorId'>) => {
+  const changes = event.before || event.after ? diffRecords(event.before, event.after) : undefined;
+
+  try {
+    await logAction(null, event.action, {
+      targetType: event.targetType,
+      targetId: event.targetId,
+      changes: changes as Prisma.InputJsonValue | undefined
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+};
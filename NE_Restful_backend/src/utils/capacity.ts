@@ -0,0 +1,55 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Thrown inside a transaction to roll it back when a parking doesn't have the space it needs
+export class CapacityError extends Error {}
+
+// Take one space out of a parking. The database checks that one is left in the same statement,
+// so concurrent gates can't overbook the parking or push the counter below zero.
+export const takeSpace = async (tx: Prisma.TransactionClient, parkingCode: string): Promise<boolean> => {
+  const { count } = await tx.parking.updateMany({
+    where: { code: parkingCode, availableSpaces: { gt: 0 } },
+    data: { availableSpaces: { decrement: 1 } }
+  });
+
+  return count === 1;
+};
+
+// Give a space back to a parking, never beyond its capacity
+export const releaseSpace = async (tx: Prisma.TransactionClient, parkingCode: string) => {
+  await tx.parking.updateMany({
+    where: { code: parkingCode, availableSpaces: { lt: prisma.parking.fields.totalSpaces } },
+    data: { availableSpaces: { increment: 1 } }
+  });
+};
+
+// Recompute availableSpaces from the vehicles parked and the reservations holding a space.
+// Serializable, so an entry or exit running meanwhile can't be counted on the wrong side.
+export const reconcileCapacity = (parkingCode: string) => {
+  return prisma.$transaction(
+    async (tx) => {
+      const parking = await tx.parking.findUniqueOrThrow({
+        where: { code: parkingCode }
+      });
+
+      const openEntries = await tx.entry.count({
+        where: { parkingCode, exitDateTime: null }
+      });
+
+      const heldReservations = await tx.reservation.count({
+        where: { parkingCode, status: 'BOOKED', capacityHeld: true }
+      });
+
+      const availableSpaces = Math.max(0, parking.totalSpaces - openEntries - heldReservations);
+
+      const reconciledParking = await tx.parking.update({
+        where: { code: parkingCode },
+        data: { availableSpaces }
+      });
+
+      return { before: parking, after: reconciledParking, openEntries, heldReservations };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+};
@@ -0,0 +1,89 @@
+import { getLoginRetryAfter, isAccountLocked, registerFailedLogin } from './lockout';
+import { sendEmail } from './email';
+import { prismaMock } from '../test/prismaMock';
+import { mockRequest } from '../test/http';
+
+jest.mock('./email');
+
+const MINUTE_IN_MS = 60 * 1000;
+
+const attempt = (successful: boolean, secondsAgo: number) => ({
+  successful,
+  createdAt: new Date(Date.now() - secondsAgo * 1000)
+});
+
+describe('getLoginRetryAfter', () => {
+  beforeEach(() => {
+    prismaMock.loginAttempt.findMany.mockResolvedValue([]);
+  });
+
+  it('lets the first failures through without delay', async () => {
+    prismaMock.loginAttempt.findMany.mockResolvedValueOnce([attempt(false, 1), attempt(false, 2)]);
+
+    expect(await getLoginRetryAfter('jane@example.com', '10.0.0.1')).toBe(0);
+  });
+
+  it('doubles the delay with every failure past the free attempts', async () => {
+    // 5 failures with 3 free attempts: 2^2 = 4 seconds after the last one
+    prismaMock.loginAttempt.findMany.mockResolvedValueOnce([1, 2, 3, 4, 5].map((n) => attempt(false, n === 1 ? 0 : n)));
+
+    expect(await getLoginRetryAfter('jane@example.com', '10.0.0.1')).toBe(4);
+  });
+
+  it('only counts failures since the last successful login', async () => {
+    prismaMock.loginAttempt.findMany.mockResolvedValueOnce([
+      attempt(false, 0),
+      attempt(false, 1),
+      attempt(true, 2),
+      attempt(false, 3),
+      attempt(false, 4)
+    ]);
+
+    expect(await getLoginRetryAfter('jane@example.com', '10.0.0.1')).toBe(0);
+  });
+
+  it('blocks an IP address that reached the failure limit for the rest of the window', async () => {
+    const failures = Array.from({ length: 20 }, (_, n) => attempt(false, n === 19 ? 14 * 60 : n));
+    prismaMock.loginAttempt.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce(failures);
+
+    // The oldest failure was 14 minutes ago in a 15 minute window
+    expect(await getLoginRetryAfter('someone-else@example.com', '10.0.0.1')).toBe(60);
+  });
+});
+
+describe('registerFailedLogin', () => {
+  const user = { id: 'user-1', email: 'jane@example.com', firstName: 'Jane' };
+
+  it('only counts the failure below the threshold', async () => {
+    prismaMock.user.update.mockResolvedValue({ failedLoginAttempts: 4 });
+
+    expect(await registerFailedLogin(mockRequest(), user)).toBeNull();
+    expect(prismaMock.user.update).toHaveBeenCalledTimes(1);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('locks the account, records it and tells the owner once the threshold is reached', async () => {
+    prismaMock.user.update.mockResolvedValueOnce({ failedLoginAttempts: 5 }).mockResolvedValueOnce({});
+    prismaMock.log.create.mockResolvedValue({});
+
+    const lockedUntil = await registerFailedLogin(mockRequest(), user);
+
+    expect(lockedUntil!.getTime()).toBeGreaterThan(Date.now() + 14 * MINUTE_IN_MS);
+    expect(prismaMock.user.update).toHaveBeenLastCalledWith({
+      where: { id: user.id },
+      data: { lockedUntil, failedLoginAttempts: 0 }
+    });
+    expect(prismaMock.log.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'ACCOUNT_LOCKED', targetId: user.id, userId: null })
+    });
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: user.email }));
+  });
+});
+
+describe('isAccountLocked', () => {
+  it('is locked until lockedUntil has passed', () => {
+    expect(isAccountLocked({ lockedUntil: new Date(Date.now() + MINUTE_IN_MS) })).toBe(true);
+    expect(isAccountLocked({ lockedUntil: new Date(Date.now() - MINUTE_IN_MS) })).toBe(false);
+    expect(isAccountLocked({ lockedUntil: null })).toBe(false);
+  });
+});
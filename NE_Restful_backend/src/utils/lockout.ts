@@ -0,0 +1,117 @@
+import { Request } from 'express';
+import { PrismaClient, User } from '@prisma/client';
+import { sendEmail } from './email';
+import { recordAudit } from './audit';
+
+const prisma = new PrismaClient();
+
+const MINUTE_IN_MS = 60 * 1000;
+
+export const recordLoginAttempt = async (email: string, ipAddress: string | undefined, successful: boolean) => {
+  await prisma.loginAttempt.create({
+    data: { email, ipAddress, successful }
+  });
+};
+
+// Returns how many seconds the client has to wait before another login attempt, 0 if it may try now.
+// Consecutive failures for an email get an exponentially growing delay, and an IP address
+// is blocked for the rest of the window once it reaches the failure limit.
+export const getLoginRetryAfter = async (email: string, ipAddress: string | undefined): Promise<number> => {
+  const windowMs = parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15') * MINUTE_IN_MS;
+  const freeAttempts = parseInt(process.env.LOGIN_DELAY_AFTER_ATTEMPTS || '3');
+  const maxDelaySeconds = parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || '30');
+  const maxFailuresPerIp = parseInt(process.env.LOGIN_MAX_FAILURES_PER_IP || '20');
+  const now = Date.now();
+  const windowStart = new Date(now - windowMs);
+
+  const recentAttempts = await prisma.loginAttempt.findMany({
+    where: { email, createdAt: { gte: windowStart } },
+    orderBy: { createdAt: 'desc' },
+    take: 50
+  });
+
+  // Only failures since the last successful login count
+  const lastSuccess = recentAttempts.findIndex((attempt) => attempt.successful);
+  const failures = lastSuccess === -1 ? recentAttempts : recentAttempts.slice(0, lastSuccess);
+
+  let retryAfter = 0;
+
+  if (failures.length >= freeAttempts) {
+    const delaySeconds = Math.min(2 ** (failures.length - freeAttempts), maxDelaySeconds);
+    const elapsedSeconds = (now - failures[0].createdAt.getTime()) / 1000;
+    retryAfter = Math.max(0, Math.ceil(delaySeconds - elapsedSeconds));
+  }
+
+  if (ipAddress) {
+    const ipFailures = await prisma.loginAttempt.findMany({
+      where: { ipAddress, successful: false, createdAt: { gte: windowStart } },
+      orderBy: { createdAt: 'desc' },
+      take: maxFailuresPerIp
+    });
+
+    if (ipFailures.length >= maxFailuresPerIp) {
+      const oldest = ipFailures[ipFailures.length - 1];
+      const ipRetryAfter = Math.ceil((oldest.createdAt.getTime() + windowMs - now) / 1000);
+      retryAfter = Math.max(retryAfter, ipRetryAfter);
+    }
+  }
+
+  return retryAfter;
+};
+
+export const isAccountLocked = (user: Pick<User, 'lockedUntil'>): boolean => {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+};
+
+// Count a wrong password against the account and lock it once the threshold is reached.
+// Returns the end of the lock when this failure locked the account, null otherwise.
+export const registerFailedLogin = async (req: Request, user: Pick<User, 'id' | 'email' | 'firstName'>): Promise<Date | null> => {
+  const threshold = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5');
+  const lockoutMinutes = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true }
+  });
+
+  if (failedLoginAttempts < threshold) {
+    return null;
+  }
+
+  const lockedUntil = new Date(Date.now() + lockoutMinutes * MINUTE_IN_MS);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lockedUntil, failedLoginAttempts: 0 }
+  });
+
+  // Nobody is authenticated during a failed login, so the lock is recorded without an actor
+  await recordAudit(req, {
+    action: 'ACCOUNT_LOCKED',
+    targetType: 'User',
+    targetId: user.id,
+    actorId: null,
+    after: { lockedUntil }
+  });
+
+  try {
+    await sendEmail({
+      to: user.email,
+      subject: 'Your XWYZ Parking account has been locked',
+      text: `Hello ${user.firstName}, your account was locked for ${lockoutMinutes} minutes after ${threshold} failed login attempts. If this wasn't you, reset your password to unlock it or contact an administrator.`,
+      html: `<p>Hello ${user.firstName},</p><p>Your account was locked for ${lockoutMinutes} minutes after ${threshold} failed login attempts.</p><p>If this wasn't you, reset your password to unlock it or contact an administrator.</p>`
+    });
+  } catch (emailError) {
+    console.error('Error sending account locked email:', emailError);
+  }
+
+  return lockedUntil;
+};
+
+export const resetFailedLogins = async (userId: string) => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockedUntil: null }
+  });
+};
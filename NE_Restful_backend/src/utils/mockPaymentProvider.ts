@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentStatus } from '@prisma/client';
+import { generateToken } from './token';
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderPayment,
+  ProviderWebhookEvent,
+  WebhookSignatureError
+} from './paymentProvider';
+
+// Local stand-in for a card and mobile money gateway, for development and tests. It never moves money,
+// so it is not available in production unless PAYMENT_MOCK_ENABLED is set (see getPaymentProvider):
+// the outcome of a payment is picked by the token it is confirmed with, like the test cards of real gateways.
+//   mock_success  completes straight away
+//   mock_decline  fails straight away
+//   mock_delayed  stays pending, then completes through a webhook after MOCK_PAYMENT_WEBHOOK_DELAY_SECONDS
+// Like a real gateway, every status change is also sent to the webhook endpoint, signed.
+export const MOCK_PAYMENT_TOKENS = ['mock_success', 'mock_decline', 'mock_delayed'];
+
+const SIGNATURE_HEADER = 'x-mock-signature';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const WEBHOOK_SECRET_VARIABLE = 'MOCK_PAYMENT_WEBHOOK_SECRET';
+
+// Checked at startup when the mock is the configured provider. Without a secret no webhook is trusted.
+const getWebhookSecret = (): string => {
+  const secret = process.env[WEBHOOK_SECRET_VARIABLE];
+
+  if (!secret) {
+    throw new WebhookSignatureError(`${WEBHOOK_SECRET_VARIABLE} is not set`);
+  }
+
+  return secret;
+};
+
+// Refunded so far per payment, kept in memory like the rest of the mock's state would be at a gateway
+const refundedAmounts = new Map<string, number>();
+
+const getWebhookUrl = () =>
+  process.env.MOCK_PAYMENT_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3000}/api/payments/webhooks/mock`;
+
+const getWebhookDelayMs = () => parseInt(process.env.MOCK_PAYMENT_WEBHOOK_DELAY_SECONDS || '5') * 1000;
+
+// HMAC-SHA256 of "<timestamp>.<body>", the timestamp keeps captured webhooks from being replayed later
+const sign = (timestamp: number, body: string | Buffer): string => {
+  return crypto.createHmac('sha256', getWebhookSecret()).update(`${timestamp}.`).update(body).digest('hex');
+};
+
+const sendWebhook = (type: string, payment: ProviderPayment, delayMs = 0) => {
+  const event: ProviderWebhookEvent = {
+    eventId: `mock_evt_${generateToken(12)}`,
+    type,
+    providerPaymentId: payment.providerPaymentId,
+    status: payment.status,
+    failureReason: payment.failureReason,
+    amountRefunded: payment.amountRefunded
+  };
+
+  const timer = setTimeout(async () => {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(getWebhookUrl(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [SIGNATURE_HEADER]: `t=${timestamp},v1=${sign(timestamp, body)}`
+        },
+        body
+      });
+
+      if (!response.ok) {
+        console.error(`Mock payment webhook ${event.eventId} was answered with ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Mock payment webhook error:', error);
+    }
+  }, delayMs);
+  timer.unref();
+};
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+  webhookSecretVariable: WEBHOOK_SECRET_VARIABLE,
+
+  async createIntent() {
+    return {
+      providerPaymentId: `mock_pi_${generateToken(12)}`,
+      status: 'PENDING',
+      clientSecret: `mock_secret_${generateToken(12)}`
+    };
+  },
+
+  async confirm(providerPaymentId, paymentToken) {
+    if (!MOCK_PAYMENT_TOKENS.includes(paymentToken)) {
+      throw new PaymentProviderError(`Unknown mock payment token, use one of: ${MOCK_PAYMENT_TOKENS.join(', ')}`);
+    }
+
+    if (paymentToken === 'mock_delayed') {
+      sendWebhook('payment.succeeded', { providerPaymentId, status: 'COMPLETED' }, getWebhookDelayMs());
+      return { providerPaymentId, status: 'PENDING' };
+    }
+
+    const payment: ProviderPayment =
+      paymentToken === 'mock_decline'
+        ? { providerPaymentId, status: 'FAILED', failureReason: 'Card declined' }
+        : { providerPaymentId, status: 'COMPLETED' };
+
+    sendWebhook(payment.status === 'FAILED' ? 'payment.failed' : 'payment.succeeded', payment);
+    return payment;
+  },
+
+  async refund(providerPaymentId, amount) {
+    const amountRefunded = Math.round(((refundedAmounts.get(providerPaymentId) ?? 0) + amount) * 100) / 100;
+    refundedAmounts.set(providerPaymentId, amountRefunded);
+
+    const payment: ProviderPayment = { providerPaymentId, status: 'REFUNDED', amountRefunded };
+
+    sendWebhook('payment.refunded', payment);
+    return payment;
+  },
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    const header = headers[SIGNATURE_HEADER];
+    const parts = new Map(
+      (typeof header === 'string' ? header : '').split(',').map((part) => part.split('=') as [string, string])
+    );
+    const timestamp = parseInt(parts.get('t') || '');
+    const signature = parts.get('v1') || '';
+
+    if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new WebhookSignatureError('Webhook timestamp missing or too old');
+    }
+
+    const expected = Buffer.from(sign(timestamp, rawBody), 'hex');
+    const received = Buffer.from(signature, 'hex');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new WebhookSignatureError('Invalid webhook signature');
+    }
+
+    let event: ProviderWebhookEvent;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new PaymentProviderError('Malformed webhook event');
+    }
+
+    if (
+      !event.eventId ||
+      !event.providerPaymentId ||
+      !Object.values(PaymentStatus).includes(event.status) ||
+      (event.amountRefunded !== undefined && typeof event.amountRefunded !== 'number')
+    ) {
+      throw new PaymentProviderError('Malformed webhook event');
+    }
+
+    return event;
+  }
+};
@@ -0,0 +1,55 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod, PaymentStatus } from '@prisma/client';
+
+// Methods paid through a provider rather than at the gate
+export const ONLINE_PAYMENT_METHODS: PaymentMethod[] = ['CARD', 'MOBILE_MONEY', 'WALLET'];
+
+// A payment as the provider sees it, with its status mapped onto ours
+export interface ProviderPayment {
+  providerPaymentId: string;
+  status: PaymentStatus;
+  // Handed to the client to collect card or wallet details with the provider's SDK, never stored
+  clientSecret?: string;
+  failureReason?: string;
+  // Total refunded so far once a refund went through, which may be only part of the payment
+  amountRefunded?: number;
+}
+
+export interface ProviderWebhookEvent {
+  // Providers redeliver events until they are acknowledged, the id tells the copies apart from new events
+  eventId: string;
+  type: string;
+  providerPaymentId: string;
+  status: PaymentStatus;
+  failureReason?: string;
+  // Total refunded so far, on refund events
+  amountRefunded?: number;
+}
+
+export interface PaymentIntentRequest {
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  // Our payment id, shown in the provider's dashboard
+  reference: string;
+}
+
+// What a gateway integration implements. Outcomes may be final straight away or only come later
+// through a webhook, so callers apply whichever status they get and expect it to change afterwards.
+export interface PaymentProvider {
+  name: string;
+  // Environment variable holding the secret its webhooks are signed with, required at startup
+  webhookSecretVariable: string;
+  createIntent(request: PaymentIntentRequest): Promise<ProviderPayment>;
+  confirm(providerPaymentId: string, paymentToken: string): Promise<ProviderPayment>;
+  // Refund part or all of a completed payment: REFUNDED with the total refunded so far once it went
+  // through, PENDING while the provider processes it
+  refund(providerPaymentId: string, amount: number): Promise<ProviderPayment>;
+  // Check the webhook's signature against the raw body before trusting any of it
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderWebhookEvent;
+}
+
+// The provider refused a request, e.g. an unknown payment or a token it doesn't accept
+export class PaymentProviderError extends Error {}
+
+export class WebhookSignatureError extends Error {}
@@ -0,0 +1,172 @@
+import { applyPaymentRefund, assertPaymentConfig, getPaymentProvider, refundReservationPrepayments } from './payments';
+import { mockPaymentProvider } from './mockPaymentProvider';
+import { PaymentProviderError } from './paymentProvider';
+import { prismaMock } from '../test/prismaMock';
+
+const withEnv = (env: Record<string, string | undefined>, run: () => void) => {
+  const previous = Object.fromEntries(Object.keys(env).map((key) => [key, process.env[key]]));
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+
+  apply(env);
+  try {
+    run();
+  } finally {
+    apply(previous);
+  }
+};
+
+describe('getPaymentProvider', () => {
+  it('offers the mock provider outside production', () => {
+    expect(getPaymentProvider('mock')?.name).toBe('mock');
+  });
+
+  it('hides the mock provider in production unless it is enabled', () => {
+    withEnv({ NODE_ENV: 'production' }, () => {
+      expect(getPaymentProvider('mock')).toBeNull();
+    });
+
+    withEnv({ NODE_ENV: 'production', PAYMENT_MOCK_ENABLED: 'true' }, () => {
+      expect(getPaymentProvider('mock')?.name).toBe('mock');
+    });
+  });
+
+  it('has no default provider', () => {
+    withEnv({ PAYMENT_PROVIDER: undefined }, () => {
+      expect(getPaymentProvider()).toBeNull();
+    });
+  });
+});
+
+describe('assertPaymentConfig', () => {
+  it('accepts an available provider with its webhook secret', () => {
+    expect(() => assertPaymentConfig()).not.toThrow();
+  });
+
+  it('fails without PAYMENT_PROVIDER', () => {
+    withEnv({ PAYMENT_PROVIDER: undefined }, () => {
+      expect(() => assertPaymentConfig()).toThrow('PAYMENT_PROVIDER is not set');
+    });
+  });
+
+  it('fails with a provider that is not available', () => {
+    withEnv({ PAYMENT_PROVIDER: 'stripe' }, () => {
+      expect(() => assertPaymentConfig()).toThrow("Payment provider 'stripe' is not available");
+    });
+
+    withEnv({ NODE_ENV: 'production' }, () => {
+      expect(() => assertPaymentConfig()).toThrow('set PAYMENT_MOCK_ENABLED=true to allow it');
+    });
+  });
+
+  it("fails without the provider's webhook secret", () => {
+    withEnv({ MOCK_PAYMENT_WEBHOOK_SECRET: undefined }, () => {
+      expect(() => assertPaymentConfig()).toThrow('MOCK_PAYMENT_WEBHOOK_SECRET is not set');
+    });
+  });
+});
+
+const prepayment = (id: string, amount: number, refundedAmount = 0) => ({
+  id,
+  reservationId: 'reservation-1',
+  entryId: null,
+  amount,
+  refundedAmount,
+  status: 'COMPLETED',
+  provider: 'mock',
+  providerPaymentId: `mock_pi_${id}`
+});
+
+describe('applyPaymentRefund', () => {
+  it('keeps a partly refunded payment completed for the rest', async () => {
+    prismaMock.payment.findUniqueOrThrow.mockResolvedValue(prepayment('payment-1', 10));
+    prismaMock.payment.updateMany.mockResolvedValue({ count: 1 });
+
+    await applyPaymentRefund(prismaMock as never, 'payment-1', 6.5);
+
+    expect(prismaMock.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'payment-1', status: 'COMPLETED', refundedAmount: { lt: 6.5 } },
+      data: { refundedAmount: 6.5, status: undefined, refundedAt: expect.any(Date) }
+    });
+  });
+
+  it('marks the payment refunded once all of it was handed back', async () => {
+    prismaMock.payment.findUniqueOrThrow.mockResolvedValue(prepayment('payment-1', 10, 6.5));
+    prismaMock.payment.updateMany.mockResolvedValue({ count: 1 });
+
+    await applyPaymentRefund(prismaMock as never, 'payment-1');
+
+    expect(prismaMock.payment.updateMany.mock.calls[0][0].data).toMatchObject({ refundedAmount: 10, status: 'REFUNDED' });
+  });
+});
+
+describe('refundReservationPrepayments', () => {
+  // Two prepayments of $10 and $5, the newest last
+  const givenPrepayments = () => {
+    const payments = [prepayment('payment-2', 5), prepayment('payment-1', 10)];
+
+    prismaMock.payment.findMany.mockResolvedValue(payments);
+    prismaMock.payment.aggregate.mockResolvedValue({ _sum: { amount: 15, refundedAmount: 0 } });
+    prismaMock.payment.findUniqueOrThrow.mockImplementation(({ where }) =>
+      Promise.resolve(payments.find((payment) => payment.id === where.id))
+    );
+    prismaMock.payment.updateMany.mockResolvedValue({ count: 1 });
+
+    return jest
+      .spyOn(mockPaymentProvider, 'refund')
+      .mockImplementation(async (providerPaymentId, amount) => ({ providerPaymentId, status: 'REFUNDED', amountRefunded: amount }));
+  };
+
+  it('refunds everything paid ahead for a cancelled reservation', async () => {
+    const refund = givenPrepayments();
+
+    const { refunds, outstanding } = await refundReservationPrepayments('reservation-1', 0);
+
+    expect(refund.mock.calls).toEqual([
+      ['mock_pi_payment-2', 5],
+      ['mock_pi_payment-1', 10]
+    ]);
+    expect(refunds).toHaveLength(2);
+    expect(outstanding).toBe(0);
+  });
+
+  it('keeps the fee of a no-show and refunds the rest, partly refunding a payment', async () => {
+    const refund = givenPrepayments();
+
+    await refundReservationPrepayments('reservation-1', 4);
+
+    expect(refund.mock.calls).toEqual([
+      ['mock_pi_payment-2', 5],
+      ['mock_pi_payment-1', 6]
+    ]);
+    expect(prismaMock.payment.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'payment-1', status: 'COMPLETED', refundedAmount: { lt: 6 } },
+      data: { refundedAmount: 6, status: undefined, refundedAt: expect.any(Date) }
+    });
+  });
+
+  it('refunds nothing when the fee takes all of the prepayment', async () => {
+    const refund = givenPrepayments();
+
+    await expect(refundReservationPrepayments('reservation-1', 20)).resolves.toEqual({ refunds: [], outstanding: 0 });
+    expect(refund).not.toHaveBeenCalled();
+  });
+
+  it('reports what the provider refused to refund', async () => {
+    const refund = givenPrepayments();
+    refund.mockRejectedValueOnce(new PaymentProviderError('Unknown payment'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { refunds, outstanding } = await refundReservationPrepayments('reservation-1', 0);
+
+    expect(refunds).toHaveLength(1);
+    expect(outstanding).toBe(5);
+  });
+});
@@ -0,0 +1,324 @@
+import { PrismaClient, Prisma, Entry, Parking, Payment, PaymentStatus, Reservation } from '@prisma/client';
+import { quoteStay } from './pricing';
+import { PaymentProvider, ProviderWebhookEvent } from './paymentProvider';
+import { mockPaymentProvider } from './mockPaymentProvider';
+
+const prisma = new PrismaClient();
+
+const MINUTE_IN_MS = 60 * 1000;
+
+// Gateways payments can go through, by the name used in PAYMENT_PROVIDER and in their webhook URL
+const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+  mock: mockPaymentProvider
+};
+
+// The mock accepts any payment without moving money, so production only offers it when explicitly enabled
+const isProviderEnabled = (name: string): boolean => {
+  return name !== 'mock' || process.env.NODE_ENV !== 'production' || process.env.PAYMENT_MOCK_ENABLED === 'true';
+};
+
+export const getPaymentProvider = (name: string | undefined = process.env.PAYMENT_PROVIDER): PaymentProvider | null => {
+  if (!name || !isProviderEnabled(name)) {
+    return null;
+  }
+
+  return PAYMENT_PROVIDERS[name] ?? null;
+};
+
+// Called at startup, so a missing or unusable payment configuration stops the server instead of
+// surfacing on the first payment or webhook
+export const assertPaymentConfig = () => {
+  const name = process.env.PAYMENT_PROVIDER;
+
+  if (!name) {
+    throw new Error('PAYMENT_PROVIDER is not set');
+  }
+
+  const provider = getPaymentProvider(name);
+
+  if (!provider) {
+    throw new Error(`Payment provider '${name}' is not available${name === 'mock' ? ' in production, set PAYMENT_MOCK_ENABLED=true to allow it' : ''}`);
+  }
+
+  if (!process.env[provider.webhookSecretVariable]) {
+    throw new Error(`${provider.webhookSecretVariable} is not set, it is required by the '${name}' payment provider`);
+  }
+};
+
+export const getPaymentCurrency = (): string => process.env.PAYMENT_CURRENCY || 'USD';
+
+// Amounts are compared in cents to avoid floating point leftovers
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// What the payments add up to, less what was refunded of them
+const sumPayments = async (where: Prisma.PaymentWhereInput, client: Prisma.TransactionClient = prisma): Promise<number> => {
+  const { _sum } = await client.payment.aggregate({
+    where,
+    _sum: { amount: true, refundedAmount: true }
+  });
+
+  return (toCents(Number(_sum.amount ?? 0)) - toCents(Number(_sum.refundedAmount ?? 0))) / 100;
+};
+
+// Sum of the completed payments made against an entry
+export const getAmountPaid = (entryId: string, client: Prisma.TransactionClient = prisma): Promise<number> => {
+  return sumPayments({ entryId, status: 'COMPLETED' }, client);
+};
+
+// Sums of the completed payments made against several entries at once, by entry id
+export const getAmountsPaid = async (entryIds: string[]): Promise<Map<string, number>> => {
+  const sums = await prisma.payment.groupBy({
+    by: ['entryId'],
+    where: { entryId: { in: entryIds }, status: 'COMPLETED' },
+    _sum: { amount: true, refundedAmount: true }
+  });
+
+  return new Map(
+    sums.map((sum) => [
+      sum.entryId as string,
+      (toCents(Number(sum._sum.amount ?? 0)) - toCents(Number(sum._sum.refundedAmount ?? 0))) / 100
+    ])
+  );
+};
+
+// Sum of the completed payments made ahead for a reservation, less what was refunded of them
+export const getReservationAmountPaid = (reservationId: string, client: Prisma.TransactionClient = prisma): Promise<number> => {
+  return sumPayments({ reservationId, status: 'COMPLETED' }, client);
+};
+
+// Online payments still being processed count against the balance, so a stay isn't paid twice meanwhile.
+// Intents that were never confirmed stop counting after PAYMENT_INTENT_HOLD_MINUTES.
+export const getAmountPending = (
+  target: { entryId: string } | { reservationId: string },
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const holdMs = parseInt(process.env.PAYMENT_INTENT_HOLD_MINUTES || '30') * MINUTE_IN_MS;
+
+  return sumPayments({ ...target, status: 'PENDING', createdAt: { gt: new Date(Date.now() - holdMs) } }, client);
+};
+
+// What is left to pay once the completed payments and the online ones still being processed are taken off
+export const getOpenBalance = async (
+  target: { entryId: string } | { reservationId: string },
+  amountDue: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const amountPaid =
+    'entryId' in target ? await getAmountPaid(target.entryId, client) : await getReservationAmountPaid(target.reservationId, client);
+
+  return getBalance(amountDue, amountPaid + (await getAmountPending(target, client)));
+};
+
+// What is left to refund of a completed payment
+export const getRefundableAmount = (payment: Pick<Payment, 'amount' | 'refundedAmount'>): number => {
+  return (toCents(Number(payment.amount)) - toCents(Number(payment.refundedAmount))) / 100;
+};
+
+export const getBalance = (amountDue: number, amountPaid: number): number => {
+  return Math.max(0, toCents(amountDue) - toCents(amountPaid)) / 100;
+};
+
+// What an entry owes: its charge once closed, or the stay priced up to now while the vehicle is parked
+export const getAmountDue = async (entry: Entry & { parking: Parking }): Promise<number> => {
+  if (entry.exitDateTime) {
+    return Number(entry.chargedAmount ?? 0);
+  }
+
+  const quote = await quoteStay(entry.parking, entry.entryDateTime, new Date());
+  return quote.total;
+};
+
+// What can be paid ahead for a reservation: the booked window while it is booked, its fee once it
+// is a no-show. Arrived reservations are paid on their entry, cancelled ones owe nothing.
+export const getReservationAmountDue = async (reservation: Reservation & { parking: Parking }): Promise<number> => {
+  if (reservation.status === 'BOOKED') {
+    const quote = await quoteStay(reservation.parking, reservation.startTime, reservation.endTime);
+    return quote.total;
+  }
+
+  if (reservation.status === 'NO_SHOW') {
+    return Number(reservation.noShowFee ?? 0);
+  }
+
+  return 0;
+};
+
+// A closed entry is settled once its completed payments cover the charge. Recomputed whenever its
+// payments change, so a late payment settles it and a refund reopens it.
+export const syncEntrySettlement = async (tx: Prisma.TransactionClient, entryId: string) => {
+  const entry = await tx.entry.findUniqueOrThrow({
+    where: { id: entryId }
+  });
+
+  if (!entry.exitDateTime) {
+    return entry;
+  }
+
+  const settled = getBalance(Number(entry.chargedAmount ?? 0), await getAmountPaid(entryId, tx)) === 0;
+
+  if (settled === !!entry.settledAt) {
+    return entry;
+  }
+
+  return tx.entry.update({
+    where: { id: entryId },
+    data: { settledAt: settled ? new Date() : null }
+  });
+};
+
+// Statuses a payment can move to, from the statuses it may be in. A change reported twice or out of
+// order (e.g. a late "succeeded" after the refund) doesn't match and leaves the payment as it is.
+// Refunds, which may be partial, go through applyPaymentRefund instead.
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: [],
+  COMPLETED: ['PENDING'],
+  FAILED: ['PENDING'],
+  REFUNDED: []
+};
+
+// Move a payment to a new status if it still can, keeping its entry's settlement in step
+export const applyPaymentStatus = async (
+  tx: Prisma.TransactionClient,
+  paymentId: string,
+  status: PaymentStatus,
+  failureReason?: string
+) => {
+  const { count } = await tx.payment.updateMany({
+    where: { id: paymentId, status: { in: PAYMENT_TRANSITIONS[status] ?? [] } },
+    data: {
+      status,
+      failureReason: status === 'FAILED' ? failureReason ?? null : undefined,
+      refundedAt: status === 'REFUNDED' ? new Date() : undefined
+    }
+  });
+
+  const payment = await tx.payment.findUniqueOrThrow({
+    where: { id: paymentId }
+  });
+
+  if (count === 1 && payment.entryId) {
+    await syncEntrySettlement(tx, payment.entryId);
+  }
+
+  return { payment, changed: count === 1 };
+};
+
+// Record how much of a completed payment was refunded so far, all of it by default. Refunds only add up,
+// so a total reported twice or late changes nothing. The payment is REFUNDED once nothing is left of it.
+export const applyPaymentRefund = async (tx: Prisma.TransactionClient, paymentId: string, amountRefunded?: number) => {
+  const current = await tx.payment.findUniqueOrThrow({
+    where: { id: paymentId }
+  });
+
+  const amount = Number(current.amount);
+  const refunded = Math.min(toCents(amountRefunded ?? amount), toCents(amount)) / 100;
+
+  const { count } = await tx.payment.updateMany({
+    where: { id: paymentId, status: 'COMPLETED', refundedAmount: { lt: refunded } },
+    data: {
+      refundedAmount: refunded,
+      status: toCents(refunded) === toCents(amount) ? 'REFUNDED' : undefined,
+      refundedAt: new Date()
+    }
+  });
+
+  const payment = await tx.payment.findUniqueOrThrow({
+    where: { id: paymentId }
+  });
+
+  if (count === 1 && payment.entryId) {
+    await syncEntrySettlement(tx, payment.entryId);
+  }
+
+  return { payment, changed: count === 1 };
+};
+
+// Record a provider's webhook event and apply it. Providers deliver events at least once: a copy of
+// an event already received is skipped, and the transition rules absorb events arriving out of order.
+export const processPaymentEvent = (providerName: string, event: ProviderWebhookEvent) => {
+  return prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findUnique({
+      where: { provider_providerPaymentId: { provider: providerName, providerPaymentId: event.providerPaymentId } }
+    });
+
+    // skipDuplicates rather than catching the unique violation, which would abort the transaction
+    const { count } = await tx.paymentEvent.createMany({
+      data: {
+        provider: providerName,
+        eventId: event.eventId,
+        type: event.type,
+        paymentId: payment?.id ?? null,
+        payload: event as unknown as Prisma.InputJsonValue
+      },
+      skipDuplicates: true
+    });
+
+    if (count === 0 || !payment) {
+      return { duplicate: count === 0, before: payment, payment, changed: false };
+    }
+
+    const result =
+      event.status === 'REFUNDED'
+        ? await applyPaymentRefund(tx, payment.id, event.amountRefunded)
+        : await applyPaymentStatus(tx, payment.id, event.status, event.failureReason);
+
+    return { duplicate: false, before: payment, ...result };
+  });
+};
+
+// Hand back what was paid ahead for a reservation beyond what it still owes: everything once it is
+// cancelled, what exceeds its fee once it is a no-show. The newest payments are refunded first, through
+// their provider. Refunds the provider still processes are completed by its webhook; whatever couldn't
+// be refunded (provider unavailable or refusing) is returned as `outstanding` for staff to follow up.
+export const refundReservationPrepayments = async (reservationId: string, amountOwed: number) => {
+  const payments = await prisma.payment.findMany({
+    where: { reservationId, status: 'COMPLETED' },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  let excessCents = Math.max(0, toCents(await getReservationAmountPaid(reservationId)) - toCents(amountOwed));
+  let outstandingCents = 0;
+  const refunds: { before: Payment; after: Payment }[] = [];
+
+  for (const payment of payments) {
+    if (excessCents === 0) {
+      break;
+    }
+
+    const refundCents = Math.min(excessCents, toCents(getRefundableAmount(payment)));
+    excessCents -= refundCents;
+
+    if (refundCents === 0) {
+      continue;
+    }
+
+    const provider = payment.provider ? getPaymentProvider(payment.provider) : null;
+
+    if (!provider || !payment.providerPaymentId) {
+      outstandingCents += refundCents;
+      continue;
+    }
+
+    try {
+      const result = await provider.refund(payment.providerPaymentId, refundCents / 100);
+
+      if (result.status !== 'REFUNDED') {
+        continue;
+      }
+
+      const refundedTotal = result.amountRefunded ?? (toCents(Number(payment.refundedAmount)) + refundCents) / 100;
+      const { payment: refundedPayment, changed } = await prisma.$transaction((tx) =>
+        applyPaymentRefund(tx, payment.id, refundedTotal)
+      );
+
+      if (changed) {
+        refunds.push({ before: payment, after: refundedPayment });
+      }
+    } catch (error) {
+      console.error('Reservation refund error:', error);
+      outstandingCents += refundCents;
+    }
+  }
+
+  return { refunds, outstanding: outstandingCents / 100 };
+};
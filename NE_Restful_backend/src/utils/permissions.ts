@@ -0,0 +1,111 @@
+import { Role } from '@prisma/client';
+
+// Every action that can be authorised. Routes ask for one of these through requirePermission().
+// 'parking:all-sites' isn't checked by routes: without it, data is limited to the caller's assigned parkings.
+export const PERMISSIONS = [
+  'user:read',
+  'user:update',
+  'user:delete',
+  'user:unlock',
+  'user:invite',
+  'user:assign',
+  'user:export',
+  'user:erase',
+  'session:manage',
+  'parking:read',
+  'parking:create',
+  'parking:update',
+  'parking:delete',
+  'parking:reconcile',
+  'parking:all-sites',
+  'entry:read',
+  'entry:create',
+  'entry:exit',
+  'payment:collect',
+  'payment:override',
+  'payment:refund',
+  'reservation:read',
+  'reservation:manage',
+  'alert:read',
+  'alert:resolve',
+  'report:entries',
+  'report:occupancy',
+  'report:revenue',
+  'settings:manage',
+  'apikey:manage',
+  'log:read'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  MANAGER: [
+    'user:read',
+    'parking:read',
+    'parking:update',
+    'entry:read',
+    'entry:create',
+    'entry:exit',
+    'payment:collect',
+    'payment:override',
+    'payment:refund',
+    'reservation:read',
+    'reservation:manage',
+    'alert:read',
+    'alert:resolve',
+    'report:entries',
+    'report:occupancy',
+    'report:revenue'
+  ],
+  ATTENDANT: [
+    'parking:read',
+    'entry:read',
+    'entry:create',
+    'entry:exit',
+    'payment:collect',
+    'reservation:read',
+    'alert:read',
+    'report:occupancy'
+  ],
+  AUDITOR: [
+    'user:read',
+    'parking:read',
+    'entry:read',
+    'reservation:read',
+    'alert:read',
+    'report:entries',
+    'report:occupancy',
+    'report:revenue',
+    'parking:all-sites',
+    'log:read'
+  ],
+  USER: [
+    'parking:read',
+    'parking:all-sites'
+  ]
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+// Roles that can only be granted through an invitation or by an admin
+export const STAFF_ROLES: Role[] = ['ADMIN', 'MANAGER', 'ATTENDANT', 'AUDITOR'];
+
+// Permissions that can be granted to an API key
+export const API_KEY_SCOPES: Permission[] = [
+  'parking:read',
+  'entry:read',
+  'entry:create',
+  'entry:exit',
+  'payment:collect',
+  'reservation:read',
+  'report:occupancy'
+];
+
+export const getRolePermissions = (role: Role): readonly Permission[] => {
+  return ROLE_PERMISSIONS[role] || [];
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean => {
+  return getRolePermissions(role).includes(permission);
+};
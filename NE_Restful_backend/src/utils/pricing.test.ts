@@ -0,0 +1,132 @@
+import { calculatePrice, quoteStay, TariffRules } from './pricing';
+import { prismaMock } from '../test/prismaMock';
+
+const rules = (overrides: Partial<TariffRules> = {}): TariffRules => ({
+  id: 'tariff-1',
+  name: 'City centre',
+  timezone: 'UTC',
+  graceMinutes: 0,
+  hourlyRate: 2,
+  firstHourRate: null,
+  bands: [],
+  dailyCap: null,
+  nightRate: null,
+  nightStart: null,
+  nightEnd: null,
+  weekendRate: null,
+  holidayRate: null,
+  holidayCalendar: null,
+  ...overrides
+});
+
+// 2025-06-23 is a Monday
+const at = (time: string) => new Date(`2025-06-${time}Z`);
+
+describe('calculatePrice', () => {
+  it('charges every started hour', () => {
+    const quote = calculatePrice(rules(), at('23T09:00:00'), at('23T11:01:00'));
+
+    expect(quote.billableHours).toBe(3);
+    expect(quote.total).toBe(6);
+    expect(quote.lines).toEqual([expect.objectContaining({ description: 'Standard rate', hours: 3, amount: 6 })]);
+  });
+
+  it('charges nothing within the grace period', () => {
+    const quote = calculatePrice(rules({ graceMinutes: 10 }), at('23T09:00:00'), at('23T09:10:00'));
+
+    expect(quote.total).toBe(0);
+    expect(quote.lines[0].description).toBe('Grace period (10 min)');
+  });
+
+  it('charges the first hour and the stepped bands at their own rates', () => {
+    const quote = calculatePrice(
+      rules({ firstHourRate: 3, bands: [{ fromHour: 2, rate: 1.5 }] }),
+      at('23T09:00:00'),
+      at('23T13:00:00')
+    );
+
+    expect(quote.lines.map((line) => [line.description, line.hours, line.amount])).toEqual([
+      ['First hour', 1, 3],
+      ['Standard rate', 1, 2],
+      ['From hour 3', 2, 3]
+    ]);
+    expect(quote.total).toBe(8);
+  });
+
+  it("charges the night rate by the tariff's time zone", () => {
+    // 19:00 to 22:00 UTC is 21:00 to midnight in Kigali (UTC+2)
+    const quote = calculatePrice(
+      rules({ timezone: 'Africa/Kigali', nightRate: 0.5, nightStart: '22:00', nightEnd: '06:00' }),
+      at('23T19:00:00'),
+      at('23T22:00:00')
+    );
+
+    expect(quote.lines.map((line) => [line.description, line.hours])).toEqual([
+      ['Standard rate', 1],
+      ['Night rate', 2]
+    ]);
+    expect(quote.total).toBe(3);
+  });
+
+  it('prefers holidays over weekends and weekends over nights', () => {
+    const weekendRules = rules({ weekendRate: 4, holidayRate: 5, nightRate: 1, nightStart: '00:00', nightEnd: '06:00' });
+
+    const saturday = calculatePrice(weekendRules, at('28T01:00:00'), at('28T02:00:00'));
+    const holiday = calculatePrice(weekendRules, at('28T01:00:00'), at('28T02:00:00'), new Set(['2025-06-28']));
+
+    expect(saturday.lines[0]).toMatchObject({ description: 'Weekend rate', amount: 4 });
+    expect(holiday.lines[0]).toMatchObject({ description: 'Holiday rate', amount: 5 });
+  });
+
+  it('caps each 24 hours of the stay at the daily cap', () => {
+    const quote = calculatePrice(rules({ dailyCap: 20 }), at('23T09:00:00'), at('24T11:00:00'));
+
+    expect(quote.billableHours).toBe(26);
+    expect(quote.lines.map((line) => [line.description, line.amount])).toEqual([
+      ['Standard rate', 48],
+      ['Daily cap (day 1)', -28],
+      ['Standard rate', 4]
+    ]);
+    expect(quote.total).toBe(24);
+  });
+
+  it('adds rates up in cents', () => {
+    const quote = calculatePrice(rules({ hourlyRate: 0.1 }), at('23T09:00:00'), at('23T12:00:00'));
+
+    expect(quote.total).toBe(0.3);
+  });
+});
+
+describe('quoteStay', () => {
+  it('prices the stay with the tariff version in force when it started', async () => {
+    prismaMock.tariff.findFirst.mockResolvedValue({
+      id: 'tariff-1',
+      name: 'Summer',
+      timezone: 'UTC',
+      graceMinutes: 0,
+      hourlyRate: '3.00',
+      firstHourRate: null,
+      bands: null,
+      dailyCap: null,
+      nightRate: null,
+      nightStart: null,
+      nightEnd: null,
+      weekendRate: null,
+      holidayRate: null,
+      holidayCalendar: null
+    });
+
+    const quote = await quoteStay({ code: 'P-001', hourlyFee: 2 as never }, at('23T09:00:00'), at('23T11:00:00'));
+
+    expect(prismaMock.tariff.findFirst.mock.calls[0][0].where.effectiveFrom).toEqual({ lte: at('23T09:00:00') });
+    expect(quote).toMatchObject({ tariffId: 'tariff-1', tariffName: 'Summer', total: 6 });
+  });
+
+  it("falls back to the parking's hourly fee without a tariff", async () => {
+    prismaMock.tariff.findFirst.mockResolvedValue(null);
+
+    const quote = await quoteStay({ code: 'P-001', hourlyFee: 2 as never }, at('23T09:00:00'), at('23T11:00:00'));
+
+    expect(quote).toMatchObject({ tariffId: null, tariffName: 'Standard hourly rate', total: 4 });
+  });
+});
@@ -0,0 +1,387 @@
+import { PrismaClient, Prisma, Tariff, Parking, Entry, ParkingSpace, Payment } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const MINUTE_IN_MS = 60 * 1000;
+const HOUR_IN_MS = 60 * MINUTE_IN_MS;
+const DAY_IN_MS = 24 * HOUR_IN_MS;
+const HOURS_PER_CAP_PERIOD = 24;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_TARIFF_NAME = 'Standard hourly rate';
+
+export interface TariffBand {
+  // Zero-based hour of the stay the band starts at
+  fromHour: number;
+  rate: number;
+}
+
+// A tariff reduced to plain numbers, the only input of the calculation besides the stay
+export interface TariffRules {
+  id: string | null;
+  name: string;
+  timezone: string;
+  graceMinutes: number;
+  hourlyRate: number;
+  firstHourRate: number | null;
+  bands: TariffBand[];
+  dailyCap: number | null;
+  nightRate: number | null;
+  nightStart: string | null;
+  nightEnd: string | null;
+  weekendRate: number | null;
+  holidayRate: number | null;
+  holidayCalendar: string | null;
+}
+
+export interface BillLine {
+  description: string;
+  from: Date;
+  to: Date;
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+export interface PriceQuote {
+  tariffId: string | null;
+  tariffName: string;
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  billableHours: number;
+  lines: BillLine[];
+  total: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+const toNumber = (value: Prisma.Decimal | null) => (value === null ? null : Number(value));
+
+// "HH:MM" to minutes since midnight
+const parseTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isValidTimeOfDay = (time: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Calendar date, weekday and time of day of an instant in the tariff's time zone
+const getLocalTime = (date: Date, timeZone: string) => {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short'
+  });
+
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+};
+
+// The night window may wrap around midnight, e.g. 22:00 to 06:00
+const isNightTime = (minuteOfDay: number, nightStart: string, nightEnd: string) => {
+  const start = parseTimeOfDay(nightStart);
+  const end = parseTimeOfDay(nightEnd);
+  return start <= end ? minuteOfDay >= start && minuteOfDay < end : minuteOfDay >= start || minuteOfDay < end;
+};
+
+// Rate of one started hour of the stay. Holidays win over weekends, weekends over nights,
+// and time-based rates over the first hour and stepped bands.
+const getHourRate = (rules: TariffRules, hourIndex: number, start: Date, holidays: Set<string>) => {
+  const local = getLocalTime(start, rules.timezone);
+  const holidayRate = rules.holidayRate ?? rules.weekendRate;
+
+  if (holidayRate !== null && holidays.has(local.date)) {
+    return { description: 'Holiday rate', rate: holidayRate };
+  }
+  if (rules.weekendRate !== null && (local.weekday === 0 || local.weekday === 6)) {
+    return { description: 'Weekend rate', rate: rules.weekendRate };
+  }
+  if (rules.nightRate !== null && rules.nightStart && rules.nightEnd && isNightTime(local.minuteOfDay, rules.nightStart, rules.nightEnd)) {
+    return { description: 'Night rate', rate: rules.nightRate };
+  }
+  if (hourIndex === 0 && rules.firstHourRate !== null) {
+    return { description: 'First hour', rate: rules.firstHourRate };
+  }
+
+  const band = [...rules.bands].reverse().find((candidate) => candidate.fromHour <= hourIndex);
+  if (band) {
+    return { description: `From hour ${band.fromHour + 1}`, rate: band.rate };
+  }
+
+  return { description: 'Standard rate', rate: rules.hourlyRate };
+};
+
+// Price a stay. Every started hour is charged at the rate in force when it starts, consecutive hours
+// at the same rate are grouped into one line, and each 24 hours of the stay are capped at the daily cap.
+export const calculatePrice = (rules: TariffRules, from: Date, to: Date, holidays: Set<string> = new Set()): PriceQuote => {
+  const durationMs = Math.max(0, to.getTime() - from.getTime());
+  const durationMinutes = Math.ceil(durationMs / MINUTE_IN_MS);
+  const quote = { tariffId: rules.id, tariffName: rules.name, from, to, durationMinutes };
+
+  if (durationMs === 0 || durationMinutes <= rules.graceMinutes) {
+    return {
+      ...quote,
+      billableHours: 0,
+      lines: [{ description: `Grace period (${rules.graceMinutes} min)`, from, to, hours: 0, rate: 0, amount: 0 }],
+      total: 0
+    };
+  }
+
+  const billableHours = Math.ceil(durationMs / HOUR_IN_MS);
+  const lines: BillLine[] = [];
+  let totalCents = 0;
+
+  for (let periodStart = 0; periodStart < billableHours; periodStart += HOURS_PER_CAP_PERIOD) {
+    const periodEnd = Math.min(periodStart + HOURS_PER_CAP_PERIOD, billableHours);
+    let periodCents = 0;
+
+    for (let hourIndex = periodStart; hourIndex < periodEnd; hourIndex++) {
+      const start = new Date(from.getTime() + hourIndex * HOUR_IN_MS);
+      const end = new Date(Math.min(start.getTime() + HOUR_IN_MS, to.getTime()));
+      const { description, rate } = getHourRate(rules, hourIndex, start, holidays);
+      const previous = lines[lines.length - 1];
+
+      // Lines never span two cap periods, so each cap sits right after the hours it applies to
+      if (previous && hourIndex !== periodStart && previous.description === description && previous.rate === rate) {
+        previous.to = end;
+        previous.hours += 1;
+        previous.amount = fromCents(toCents(previous.amount) + toCents(rate));
+      } else {
+        lines.push({ description, from: start, to: end, hours: 1, rate, amount: rate });
+      }
+
+      periodCents += toCents(rate);
+    }
+
+    if (rules.dailyCap !== null && periodCents > toCents(rules.dailyCap)) {
+      const day = periodStart / HOURS_PER_CAP_PERIOD + 1;
+      lines.push({
+        description: `Daily cap (day ${day})`,
+        from: new Date(from.getTime() + periodStart * HOUR_IN_MS),
+        to: new Date(Math.min(from.getTime() + periodEnd * HOUR_IN_MS, to.getTime())),
+        hours: 0,
+        rate: rules.dailyCap,
+        amount: fromCents(toCents(rules.dailyCap) - periodCents)
+      });
+      periodCents = toCents(rules.dailyCap);
+    }
+
+    totalCents += periodCents;
+  }
+
+  return { ...quote, billableHours, lines, total: fromCents(totalCents) };
+};
+
+// Parkings without a tariff keep the flat hourly fee they were created with
+export const toTariffRules = (tariff: Tariff | null, parking: Pick<Parking, 'hourlyFee'>): TariffRules => {
+  if (!tariff) {
+    return {
+      id: null,
+      name: DEFAULT_TARIFF_NAME,
+      timezone: 'UTC',
+      graceMinutes: 0,
+      hourlyRate: Number(parking.hourlyFee),
+      firstHourRate: null,
+      bands: [],
+      dailyCap: null,
+      nightRate: null,
+      nightStart: null,
+      nightEnd: null,
+      weekendRate: null,
+      holidayRate: null,
+      holidayCalendar: null
+    };
+  }
+
+  const bands = ((tariff.bands as TariffBand[] | null) ?? [])
+    .map((band) => ({ fromHour: Number(band.fromHour), rate: Number(band.rate) }))
+    .sort((a, b) => a.fromHour - b.fromHour);
+
+  return {
+    id: tariff.id,
+    name: tariff.name,
+    timezone: tariff.timezone,
+    graceMinutes: tariff.graceMinutes,
+    hourlyRate: Number(tariff.hourlyRate),
+    firstHourRate: toNumber(tariff.firstHourRate),
+    bands,
+    dailyCap: toNumber(tariff.dailyCap),
+    nightRate: toNumber(tariff.nightRate),
+    nightStart: tariff.nightStart,
+    nightEnd: tariff.nightEnd,
+    weekendRate: toNumber(tariff.weekendRate),
+    holidayRate: toNumber(tariff.holidayRate),
+    holidayCalendar: tariff.holidayCalendar
+  };
+};
+
+// Holiday dates (YYYY-MM-DD) of a calendar around a stay, with a day of margin for time zones
+const loadHolidays = async (calendar: string | null, from: Date, to: Date) => {
+  if (!calendar) {
+    return new Set<string>();
+  }
+
+  const holidays = await prisma.holiday.findMany({
+    where: {
+      calendar,
+      date: { gte: new Date(from.getTime() - DAY_IN_MS), lte: new Date(to.getTime() + DAY_IN_MS) }
+    }
+  });
+
+  return new Set(holidays.map((holiday) => holiday.date.toISOString().slice(0, 10)));
+};
+
+// Version of a parking's tariff in force at an instant, if any
+export const findTariffInForce = (parkingCode: string, at: Date, client: Prisma.TransactionClient = prisma) =>
+  client.tariff.findFirst({
+    where: {
+      parkingCode,
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }]
+    },
+    orderBy: { effectiveFrom: 'desc' }
+  });
+
+export const getTariffRules = async (parking: Pick<Parking, 'code' | 'hourlyFee'>, at: Date = new Date()) => {
+  const tariff = await findTariffInForce(parking.code, at);
+
+  return toTariffRules(tariff, parking);
+};
+
+// Price a stay at a parking with the tariff version in force when it started, so a price change
+// never applies to vehicles already parked. Used for exit billing and quotes alike.
+export const quoteStay = async (parking: Pick<Parking, 'code' | 'hourlyFee'>, from: Date, to: Date) => {
+  const rules = await getTariffRules(parking, from);
+  const holidays = await loadHolidays(rules.holidayCalendar, from, to);
+
+  return calculatePrice(rules, from, to, holidays);
+};
+
+export type TariffVersionData = Omit<Prisma.TariffUncheckedCreateInput, 'id' | 'parkingCode' | 'effectiveFrom' | 'effectiveTo' | 'createdAt' | 'updatedAt'>;
+
+// Insert a version into a parking's timeline. The version before it now ends where it starts,
+// and it runs until the next scheduled version, if any.
+export const scheduleTariffVersion = async (
+  tx: Prisma.TransactionClient,
+  parkingCode: string,
+  data: TariffVersionData,
+  effectiveFrom: Date
+) => {
+  const nextVersion = await tx.tariff.findFirst({
+    where: { parkingCode, effectiveFrom: { gt: effectiveFrom } },
+    orderBy: { effectiveFrom: 'asc' }
+  });
+
+  await tx.tariff.updateMany({
+    where: {
+      parkingCode,
+      effectiveFrom: { lt: effectiveFrom },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: effectiveFrom } }]
+    },
+    data: { effectiveTo: effectiveFrom }
+  });
+
+  return tx.tariff.create({
+    data: { ...data, parkingCode, effectiveFrom, effectiveTo: nextVersion?.effectiveFrom ?? null }
+  });
+};
+
+// Remove a version that hasn't started yet. The version before it takes over its period.
+export const unscheduleTariffVersion = async (tx: Prisma.TransactionClient, tariff: Tariff) => {
+  await tx.tariff.delete({
+    where: { id: tariff.id }
+  });
+
+  await tx.tariff.updateMany({
+    where: { parkingCode: tariff.parkingCode, effectiveTo: tariff.effectiveFrom },
+    data: { effectiveTo: tariff.effectiveTo }
+  });
+};
+
+// Changing a parking's hourly fee starts a new version, a copy of the rules in force with the new
+// hourly rate, so stays that started before the change keep their price.
+export const recordHourlyFeeChange = async (tx: Prisma.TransactionClient, parking: Parking, hourlyFee: number, at: Date) => {
+  const currentVersion = await findTariffInForce(parking.code, at, tx);
+
+  if (!currentVersion) {
+    // The old fee becomes the first version, covering the parking's history
+    await scheduleTariffVersion(tx, parking.code, { name: DEFAULT_TARIFF_NAME, hourlyRate: parking.hourlyFee }, parking.createdAt);
+  }
+
+  const rules: TariffVersionData = currentVersion
+    ? {
+        name: currentVersion.name,
+        timezone: currentVersion.timezone,
+        graceMinutes: currentVersion.graceMinutes,
+        hourlyRate: hourlyFee,
+        firstHourRate: currentVersion.firstHourRate,
+        bands: (currentVersion.bands ?? undefined) as Prisma.InputJsonValue | undefined,
+        dailyCap: currentVersion.dailyCap,
+        nightRate: currentVersion.nightRate,
+        nightStart: currentVersion.nightStart,
+        nightEnd: currentVersion.nightEnd,
+        weekendRate: currentVersion.weekendRate,
+        holidayRate: currentVersion.holidayRate,
+        holidayCalendar: currentVersion.holidayCalendar
+      }
+    : { name: DEFAULT_TARIFF_NAME, hourlyRate: hourlyFee };
+
+  return scheduleTariffVersion(tx, parking.code, rules, at);
+};
+
+// Bill of a closed entry, from the breakdown stored when it was charged, with the payments made against it.
+// Entries closed before itemised billing only have their total.
+export const buildBill = (entry: Entry & { parking: Parking; space?: ParkingSpace | null; payments: Payment[] }) => {
+  const breakdown = entry.chargeBreakdown as unknown as PriceQuote | null;
+  const exitTime = entry.exitDateTime ?? new Date();
+  const paidCents = entry.payments
+    .filter((payment) => payment.status === 'COMPLETED')
+    .reduce((sum, payment) => sum + toCents(Number(payment.amount)) - toCents(Number(payment.refundedAmount)), 0);
+
+  return {
+    billNumber: entry.id,
+    plateNumber: entry.plateNumber,
+    parkingName: entry.parking.name,
+    spaceNumber: entry.space?.number ?? null,
+    entryDateTime: entry.entryDateTime,
+    exitDateTime: entry.exitDateTime,
+    durationInHours: breakdown?.billableHours ?? Math.ceil((exitTime.getTime() - entry.entryDateTime.getTime()) / HOUR_IN_MS),
+    tariffName: breakdown?.tariffName ?? null,
+    lines: breakdown?.lines ?? [],
+    totalAmount: entry.chargedAmount,
+    payments: entry.payments.map((payment) => ({
+      id: payment.id,
+      method: payment.method,
+      amount: Number(payment.amount),
+      refundedAmount: Number(payment.refundedAmount),
+      status: payment.status,
+      reference: payment.reference,
+      createdAt: payment.createdAt
+    })),
+    amountPaid: fromCents(paidCents),
+    balanceDue: fromCents(Math.max(0, toCents(Number(entry.chargedAmount ?? 0)) - paidCents)),
+    exitOverrideReason: entry.exitOverrideReason
+  };
+};
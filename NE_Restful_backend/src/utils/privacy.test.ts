@@ -0,0 +1,72 @@
+import { anonymizeUser, collectUserData } from './privacy';
+import { prismaMock } from '../test/prismaMock';
+
+const user = {
+  id: 'user-1',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  email: 'jane@example.com',
+  password: 'hash',
+  twoFactorSecret: null,
+  vehicles: [{ id: 'vehicle-1', plateNumber: 'RAB123A' }],
+  reservations: [],
+  parkingAssignments: [],
+  sessions: []
+};
+
+const invitationLog = {
+  id: 'log-1',
+  userId: 'admin-1',
+  targetType: 'Invitation',
+  targetId: 'invitation-1',
+  ipAddress: '10.0.0.9',
+  changes: { email: { before: null, after: 'jane@example.com' }, role: { before: null, after: 'ATTENDANT' } }
+};
+
+beforeEach(() => {
+  prismaMock.user.findUnique.mockResolvedValue(user);
+  prismaMock.vehicle.findMany.mockResolvedValue([]);
+  prismaMock.entry.findMany.mockResolvedValue([]);
+  prismaMock.plateAlert.findMany.mockResolvedValue([]);
+  prismaMock.loginAttempt.findMany.mockResolvedValue([]);
+  prismaMock.invitation.findMany.mockResolvedValue([{ id: 'invitation-1' }]);
+  prismaMock.log.findMany.mockResolvedValue([invitationLog]);
+});
+
+describe('anonymizeUser', () => {
+  it('redacts the email in audit events about invitations sent to the user', async () => {
+    await anonymizeUser(user.id);
+
+    expect(prismaMock.invitation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { email: { equals: user.email, mode: 'insensitive' } } })
+    );
+    expect(prismaMock.log.findMany.mock.calls[0][0].where.OR).toContainEqual({
+      targetType: 'Invitation',
+      targetId: { in: ['invitation-1'] }
+    });
+    expect(prismaMock.log.update).toHaveBeenCalledWith({
+      where: { id: 'log-1' },
+      data: {
+        // Someone else performed the event, their IP address is kept
+        ipAddress: '10.0.0.9',
+        changes: { email: { before: null, after: '[erased]' }, role: { before: null, after: 'ATTENDANT' } }
+      }
+    });
+    expect(prismaMock.invitation.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['invitation-1'] } },
+      data: { email: `erased-${user.id}@anonymized.invalid` }
+    });
+  });
+});
+
+describe('collectUserData', () => {
+  it('includes the audit events about invitations sent to the user', async () => {
+    const data = await collectUserData(user.id);
+
+    expect(data?.auditLogs).toEqual([invitationLog]);
+    expect(prismaMock.log.findMany.mock.calls[0][0].where.OR).toContainEqual({
+      targetType: 'Invitation',
+      targetId: { in: ['invitation-1'] }
+    });
+  });
+});
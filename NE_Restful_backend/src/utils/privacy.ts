@@ -0,0 +1,251 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import { generateToken } from './token';
+import { buildBill } from './pricing';
+
+const prisma = new PrismaClient();
+
+// Values of these fields are replaced in the audit trail when a user is erased
+const PERSONAL_FIELDS = ['firstName', 'lastName', 'email'];
+const ERASED_VALUE = '[erased]';
+
+type LogChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Entries are linked to a user as their owner or through the plates of their vehicles
+const findUserEntries = async (userId: string, plateNumbers: string[]) => {
+  return prisma.entry.findMany({
+    where: { OR: [{ userId }, { plateNumber: { in: plateNumbers, mode: 'insensitive' } }] },
+    include: { parking: true, space: true, payments: true },
+    orderBy: { entryDateTime: 'asc' }
+  });
+};
+
+// Staff invitations sent to the user's email address, whether or not they were accepted
+const findUserInvitations = (email: string) => {
+  return prisma.invitation.findMany({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    select: { id: true }
+  });
+};
+
+// Everything held on a user, for data subject access requests
+export const collectUserData = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      vehicles: true,
+      reservations: { orderBy: { startTime: 'asc' } },
+      parkingAssignments: { select: { parkingCode: true, createdAt: true } },
+      sessions: {
+        select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastActiveAt: true, revokedAt: true }
+      }
+    }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const { password: _, twoFactorSecret: __, vehicles, reservations, parkingAssignments, sessions, ...profile } = user;
+
+  const entries = await findUserEntries(userId, vehicles.map((vehicle) => vehicle.plateNumber));
+
+  // Bills are rebuilt the same way registerExit presents them
+  const bills = entries.filter((entry) => entry.exitDateTime).map(buildBill);
+
+  const loginAttempts = await prisma.loginAttempt.findMany({
+    where: { email: user.email },
+    select: { ipAddress: true, successful: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const invitations = await findUserInvitations(user.email);
+
+  // Events performed by the user, about the user, or about their entries, reservations and invitations
+  const auditLogs = await prisma.log.findMany({
+    where: {
+      OR: [
+        { userId },
+        { targetType: 'User', targetId: userId },
+        { targetType: 'Entry', targetId: { in: entries.map((entry) => entry.id) } },
+        { targetType: 'Reservation', targetId: { in: reservations.map((reservation) => reservation.id) } },
+        { targetType: 'Invitation', targetId: { in: invitations.map((invitation) => invitation.id) } }
+      ]
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return {
+    exportedAt: new Date(),
+    profile,
+    parkingAssignments,
+    vehicles,
+    reservations,
+    entries: entries.map(({ parking, space, ...entry }) => ({ ...entry, parkingName: parking.name, spaceNumber: space?.number ?? null })),
+    bills,
+    sessions,
+    loginAttempts,
+    auditLogs
+  };
+};
+
+// Replace personal values in a log's changes. Only the values change: the row, its actor,
+// action, target and timestamp stay as they were so the trail keeps its meaning.
+const redactChanges = (changes: LogChanges, plateAliases: Map<string, string>): LogChanges => {
+  const redacted: LogChanges = {};
+
+  for (const [field, change] of Object.entries(changes)) {
+    const redactValue = (value: unknown) => {
+      if (value === null || value === undefined) {
+        return value;
+      }
+      if (field === 'plateNumber' && typeof value === 'string') {
+        return plateAliases.get(value.toUpperCase()) ?? value;
+      }
+      return PERSONAL_FIELDS.includes(field) ? ERASED_VALUE : value;
+    };
+
+    redacted[field] = { before: redactValue(change.before), after: redactValue(change.after) };
+  }
+
+  return redacted;
+};
+
+// Erase a user's personal data while keeping the rows that financial and audit records point to.
+// Plates on the user's entries are replaced with a random alias, shared by every entry of the same plate.
+export const anonymizeUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { vehicles: true, reservations: true }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  // A plate other users have registered too is still theirs, so its history is left alone, except for the stays the user owns
+  const plateNumbers = user.vehicles.map((vehicle) => vehicle.plateNumber);
+  const sharedVehicles = await prisma.vehicle.findMany({
+    where: { userId: { not: userId }, plateNumber: { in: plateNumbers, mode: 'insensitive' } },
+    select: { plateNumber: true }
+  });
+  const sharedPlates = sharedVehicles.map((vehicle) => vehicle.plateNumber.toUpperCase());
+
+  const entries = await findUserEntries(userId, plateNumbers.filter((plate) => !sharedPlates.includes(plate.toUpperCase())));
+
+  const plateAliases = new Map<string, string>();
+  for (const entry of entries) {
+    const plate = entry.plateNumber.toUpperCase();
+    if (!plateAliases.has(plate)) {
+      plateAliases.set(plate, `ERASED-${generateToken(4).toUpperCase()}`);
+    }
+  }
+
+  // The user's own reservations are always aliased, whoever else has the plate
+  for (const reservation of user.reservations) {
+    const plate = reservation.plateNumber.toUpperCase();
+    if (!plateAliases.has(plate)) {
+      plateAliases.set(plate, `ERASED-${generateToken(4).toUpperCase()}`);
+    }
+  }
+
+  // Alerts are always about one of the entries' plates
+  const plateAlerts = await prisma.plateAlert.findMany({
+    where: { conflictingEntryId: { in: entries.map((entry) => entry.id) } }
+  });
+
+  // Nobody knows this password, so the account can't be logged into any more
+  const unusablePassword = await bcrypt.hash(generateToken(), 10);
+  const anonymizedAt = new Date();
+
+  const invitations = await findUserInvitations(user.email);
+
+  const logs = await prisma.log.findMany({
+    where: {
+      OR: [
+        { userId },
+        { targetType: 'User', targetId: userId },
+        { targetType: 'Invitation', targetId: { in: invitations.map((invitation) => invitation.id) } },
+        { targetType: 'Entry', targetId: { in: entries.map((entry) => entry.id) } },
+        { targetType: 'Reservation', targetId: { in: user.reservations.map((reservation) => reservation.id) } },
+        { targetType: 'PlateAlert', targetId: { in: plateAlerts.map((alert) => alert.id) } }
+      ]
+    }
+  });
+
+  await prisma.$transaction(async (tx) => {
+    for (const entry of entries) {
+      const alias = plateAliases.get(entry.plateNumber.toUpperCase()) as string;
+
+      await tx.entry.update({
+        where: { id: entry.id },
+        data: { plateNumber: alias, openPlateNumber: entry.openPlateNumber ? alias : null }
+      });
+    }
+
+    for (const reservation of user.reservations) {
+      await tx.reservation.update({
+        where: { id: reservation.id },
+        data: { plateNumber: plateAliases.get(reservation.plateNumber.toUpperCase()) as string }
+      });
+    }
+
+    for (const alert of plateAlerts) {
+      await tx.plateAlert.update({
+        where: { id: alert.id },
+        data: { plateNumber: plateAliases.get(alert.plateNumber.toUpperCase()) ?? alert.plateNumber }
+      });
+    }
+
+    for (const log of logs) {
+      await tx.log.update({
+        where: { id: log.id },
+        data: {
+          // The IP address is the user's own only on events they performed
+          ipAddress: log.userId === userId ? null : log.ipAddress,
+          changes: log.changes
+            ? (redactChanges(log.changes as LogChanges, plateAliases) as Prisma.InputJsonValue)
+            : undefined
+        }
+      });
+    }
+
+    await tx.invitation.updateMany({
+      where: { id: { in: invitations.map((invitation) => invitation.id) } },
+      data: { email: `erased-${user.id}@anonymized.invalid` }
+    });
+    await tx.loginAttempt.deleteMany({ where: { email: user.email } });
+    await tx.session.deleteMany({ where: { userId } });
+    await tx.passwordResetToken.deleteMany({ where: { userId } });
+    await tx.emailVerificationToken.deleteMany({ where: { userId } });
+    await tx.recoveryCode.deleteMany({ where: { userId } });
+    await tx.parkingAssignment.deleteMany({ where: { userId } });
+    await tx.vehicle.deleteMany({ where: { userId } });
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        firstName: 'Erased',
+        lastName: 'User',
+        email: `erased-${user.id}@anonymized.invalid`,
+        password: unusablePassword,
+        role: 'USER',
+        emailVerified: false,
+        emailVerifiedAt: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        anonymizedAt
+      }
+    });
+  });
+
+  return {
+    anonymizedAt,
+    erasedVehicles: user.vehicles.length,
+    anonymizedEntries: entries.length,
+    anonymizedReservations: user.reservations.length,
+    redactedLogs: logs.length
+  };
+};
@@ -0,0 +1,51 @@
+// Storage for rate limit counters. The middleware only talks to this interface,
+// so the in-memory store can be replaced by a shared one (Redis, database...)
+// when the API runs on more than one instance.
+export interface RateLimitStore {
+  // Count a hit for the key and return the hits in the current window
+  increment(key: string, windowMs: number): Promise<{ count: number; resetTime: Date }>;
+  reset(key: string): Promise<void>;
+}
+
+interface MemoryEntry {
+  count: number;
+  resetTime: number;
+}
+
+// Fixed window counters kept in process memory
+export class MemoryStore implements RateLimitStore {
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(cleanupIntervalMs: number = 60 * 1000) {
+    // Drop expired windows so the map doesn't grow with every client ever seen
+    const timer = setInterval(() => this.removeExpired(), cleanupIntervalMs);
+    timer.unref();
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    let entry = this.entries.get(key);
+
+    if (!entry || entry.resetTime <= now) {
+      entry = { count: 0, resetTime: now + windowMs };
+      this.entries.set(key, entry);
+    }
+
+    entry.count += 1;
+
+    return { count: entry.count, resetTime: new Date(entry.resetTime) };
+  }
+
+  async reset(key: string) {
+    this.entries.delete(key);
+  }
+
+  private removeExpired() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.resetTime <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { processReservations } from './reservations';
+import { prismaMock } from '../test/prismaMock';
+
+jest.mock('./email');
+
+const now = new Date('2025-06-25T09:00:00Z');
+
+const startedReservation = (overrides: object = {}) => ({
+  id: 'reservation-1',
+  code: '3F9A1C07',
+  parkingCode: 'P-001',
+  plateNumber: 'RAB123A',
+  startTime: new Date('2025-06-25T08:55:00Z'),
+  endTime: new Date('2025-06-25T11:00:00Z'),
+  status: 'BOOKED',
+  capacityHeld: false,
+  capacityHoldFailedAt: null,
+  ...overrides
+});
+
+// The job looks for no-shows first, then for reservations that have started
+const givenStartedReservation = (reservation: ReturnType<typeof startedReservation>, parkingIsFull: boolean) => {
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.reservation.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([reservation]);
+  prismaMock.reservation.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.parking.updateMany.mockResolvedValue({ count: parkingIsFull ? 0 : 1 });
+  prismaMock.reservation.update.mockImplementation(({ data }) => Promise.resolve({ ...reservation, ...data }));
+  prismaMock.reservation.findUnique.mockResolvedValue({ ...reservation, capacityHeld: true, capacityHoldFailedAt: null });
+  prismaMock.log.create.mockResolvedValue({});
+};
+
+describe('processReservations', () => {
+  it('holds a space for a reservation that has started', async () => {
+    givenStartedReservation(startedReservation(), false);
+
+    await expect(processReservations(now)).resolves.toEqual({ released: 0, held: 1, failed: 0 });
+    expect(prismaMock.log.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'RESERVATION_CAPACITY_HELD', targetId: 'reservation-1' })
+    });
+  });
+
+  it('flags and audits a reservation whose parking is full', async () => {
+    givenStartedReservation(startedReservation(), true);
+
+    await expect(processReservations(now)).resolves.toEqual({ released: 0, held: 0, failed: 1 });
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'reservation-1' },
+      data: { capacityHeld: false, capacityHoldFailedAt: now }
+    });
+    expect(prismaMock.log.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'RESERVATION_HOLD_FAILED', targetId: 'reservation-1' })
+    });
+  });
+
+  it('retries a failed hold without auditing it again', async () => {
+    const firstFailure = new Date('2025-06-25T08:56:00Z');
+    givenStartedReservation(startedReservation({ capacityHoldFailedAt: firstFailure }), true);
+
+    await expect(processReservations(now)).resolves.toEqual({ released: 0, held: 0, failed: 1 });
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'reservation-1' },
+      data: { capacityHeld: false, capacityHoldFailedAt: firstFailure }
+    });
+    expect(prismaMock.log.create).not.toHaveBeenCalled();
+  });
+
+  it('clears the flag once a space could be held', async () => {
+    givenStartedReservation(startedReservation({ capacityHoldFailedAt: new Date('2025-06-25T08:56:00Z') }), false);
+
+    await expect(processReservations(now)).resolves.toEqual({ released: 0, held: 1, failed: 0 });
+    expect(prismaMock.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'reservation-1', status: 'BOOKED', capacityHeld: false },
+      data: { capacityHeld: true, capacityHoldFailedAt: null }
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { PrismaClient, Prisma, Reservation } from '@prisma/client';
+import { generateToken } from './token';
+import { getSetting } from './settings';
+import { recordSystemAudit } from './audit';
+import { sendEmail } from './email';
+import { releaseSpace, takeSpace } from './capacity';
+import { refundReservationPrepayments } from './payments';
+
+const prisma = new PrismaClient();
+
+const MINUTE_IN_MS = 60 * 1000;
+
+// Short code the driver shows at the gate, e.g. 3F9A1C07
+export const generateReservationCode = (): string => {
+  return generateToken(4).toUpperCase();
+};
+
+// How early before its start a reservation can be used to enter
+export const getEarlyArrivalMs = (): number => {
+  return parseInt(process.env.RESERVATION_EARLY_ARRIVAL_MINUTES || '15') * MINUTE_IN_MS;
+};
+
+// Thrown inside the booking transaction to roll it back when the reservation can't be made
+export class BookingConflictError extends Error {}
+
+// Reservations still booked for any part of the window. Counting every overlap is stricter than
+// the peak number of concurrent bookings, so a parking is never promised more spaces than it has.
+export const countOverlappingReservations = (
+  parkingCode: string,
+  startTime: Date,
+  endTime: Date,
+  client: Prisma.TransactionClient = prisma
+) => {
+  return client.reservation.count({
+    where: {
+      parkingCode,
+      status: 'BOOKED',
+      startTime: { lt: endTime },
+      endTime: { gt: startTime }
+    }
+  });
+};
+
+// Move a booked reservation to its final status and give its held space back. Guarded on the status, so of a
+// concurrent cancellation, fulfilment or no-show release only the first one changes it; false for the others
+export const endBookedReservation = async (
+  tx: Prisma.TransactionClient,
+  reservation: Pick<Reservation, 'id' | 'parkingCode'>,
+  data: Prisma.ReservationUpdateManyMutationInput
+): Promise<boolean> => {
+  // The hold job may have taken a space since the reservation was read, so whether one is held is decided by the update itself
+  const held = await tx.reservation.updateMany({
+    where: { id: reservation.id, status: 'BOOKED', capacityHeld: true },
+    data: { ...data, capacityHeld: false }
+  });
+
+  if (held.count > 0) {
+    await releaseSpace(tx, reservation.parkingCode);
+    return true;
+  }
+
+  const { count } = await tx.reservation.updateMany({
+    where: { id: reservation.id, status: 'BOOKED' },
+    data: { ...data, capacityHeld: false }
+  });
+
+  return count > 0;
+};
+
+// Take a space out of availableSpaces for every reservation whose window has started.
+// A parking that is full at that moment is retried on the next run; the reservation is flagged
+// with capacityHoldFailedAt and audited the first time, so staff can see it isn't guaranteed a space.
+const holdStartedReservations = async (now: Date) => {
+  const startedReservations = await prisma.reservation.findMany({
+    where: {
+      status: 'BOOKED',
+      capacityHeld: false,
+      startTime: { lte: now },
+      endTime: { gt: now }
+    }
+  });
+
+  let held = 0;
+  let failed = 0;
+
+  for (const reservation of startedReservations) {
+    const heldReservation = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.reservation.updateMany({
+        where: { id: reservation.id, status: 'BOOKED', capacityHeld: false },
+        data: { capacityHeld: true, capacityHoldFailedAt: null }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      if (!(await takeSpace(tx, reservation.parkingCode))) {
+        return tx.reservation.update({
+          where: { id: reservation.id },
+          data: { capacityHeld: false, capacityHoldFailedAt: reservation.capacityHoldFailedAt ?? now }
+        });
+      }
+
+      return tx.reservation.findUnique({ where: { id: reservation.id } });
+    });
+
+    if (!heldReservation) {
+      continue;
+    }
+
+    if (heldReservation.capacityHeld) {
+      held++;
+    } else {
+      failed++;
+
+      // Only the first failed attempt is audited, the next runs retry quietly
+      if (reservation.capacityHoldFailedAt) {
+        continue;
+      }
+    }
+
+    await recordSystemAudit({
+      action: heldReservation.capacityHeld ? 'RESERVATION_CAPACITY_HELD' : 'RESERVATION_HOLD_FAILED',
+      targetType: 'Reservation',
+      targetId: reservation.id,
+      before: reservation,
+      after: heldReservation
+    });
+  }
+
+  return { held, failed };
+};
+
+const sendNoShowEmail = async (reservation: Reservation, fee: number, refunded: number) => {
+  if (!reservation.userId) {
+    return;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: reservation.userId, deletedAt: null, anonymizedAt: null }
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const feeText =
+    (fee > 0 ? ` A no-show fee of $${fee} has been charged.` : '') +
+    (refunded > 0 ? ` $${refunded.toFixed(2)} you paid ahead has been refunded.` : '');
+
+  try {
+    await sendEmail({
+      to: user.email,
+      subject: 'Your XWYZ Parking reservation was released',
+      text: `Hello ${user.firstName}, your reservation ${reservation.code} for ${reservation.plateNumber} was released because the vehicle didn't arrive in time.${feeText}`,
+      html: `<p>Hello ${user.firstName},</p><p>Your reservation <strong>${reservation.code}</strong> for ${reservation.plateNumber} was released because the vehicle didn't arrive in time.${feeText}</p>`
+    });
+  } catch (emailError) {
+    console.error('Error sending no-show email:', emailError);
+  }
+};
+
+// Release reservations nobody showed up for once the grace period after their start has passed
+const releaseNoShows = async (now: Date) => {
+  const graceMinutes = await getSetting('reservationGraceMinutes');
+  const noShowFee = await getSetting('reservationNoShowFee');
+
+  const expiredReservations = await prisma.reservation.findMany({
+    where: {
+      status: 'BOOKED',
+      startTime: { lte: new Date(now.getTime() - graceMinutes * MINUTE_IN_MS) }
+    }
+  });
+
+  let released = 0;
+
+  for (const reservation of expiredReservations) {
+    const releasedReservation = await prisma.$transaction(async (tx) => {
+      const ended = await endBookedReservation(tx, reservation, {
+        status: 'NO_SHOW',
+        noShowFee: noShowFee > 0 ? noShowFee : null
+      });
+
+      if (!ended) {
+        return null;
+      }
+
+      return tx.reservation.findUnique({ where: { id: reservation.id } });
+    });
+
+    if (!releasedReservation) {
+      continue;
+    }
+
+    released++;
+
+    await recordSystemAudit({
+      action: 'RESERVATION_NO_SHOW',
+      targetType: 'Reservation',
+      targetId: reservation.id,
+      before: reservation,
+      after: releasedReservation
+    });
+
+    // The prepayment covers the fee, the rest of it goes back to the driver
+    const { refunds, outstanding } = await refundReservationPrepayments(reservation.id, noShowFee > 0 ? noShowFee : 0);
+    let refunded = 0;
+
+    for (const refund of refunds) {
+      refunded += Number(refund.after.refundedAmount) - Number(refund.before.refundedAmount);
+
+      await recordSystemAudit({
+        action: 'PAYMENT_REFUNDED',
+        targetType: 'Payment',
+        targetId: refund.after.id,
+        before: refund.before,
+        after: refund.after
+      });
+    }
+
+    if (outstanding > 0) {
+      await recordSystemAudit({
+        action: 'RESERVATION_REFUND_FAILED',
+        targetType: 'Reservation',
+        targetId: reservation.id,
+        after: { outstanding }
+      });
+    }
+
+    await sendNoShowEmail(releasedReservation, noShowFee, refunded);
+  }
+
+  return released;
+};
+
+// One pass of the reservation job. No-shows are released first so that their spaces
+// can go to reservations starting at the same time.
+export const processReservations = async (now: Date = new Date()) => {
+  const released = await releaseNoShows(now);
+  const { held, failed } = await holdStartedReservations(now);
+
+  return { released, held, failed };
+};
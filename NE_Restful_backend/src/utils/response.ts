@@ -25,6 +25,10 @@ export default class ServerResponse {
     return res.status(401).json({ success: false, message });
   }
 
+  static paymentRequired(res: Response, message: string = 'Payment required') {
+    return res.status(402).json({ success: false, message });
+  }
+
   static forbidden(res: Response, message: string = 'Forbidden') {
     return res.status(403).json({ success: false, message });
   }
@@ -32,4 +36,12 @@ export default class ServerResponse {
   static notFound(res: Response, message: string = 'Resource not found') {
     return res.status(404).json({ success: false, message });
   }
+
+  static locked(res: Response, message: string = 'Locked') {
+    return res.status(423).json({ success: false, message });
+  }
+
+  static tooManyRequests(res: Response, message: string = 'Too many requests') {
+    return res.status(429).json({ success: false, message });
+  }
 }
\ No newline at end of file
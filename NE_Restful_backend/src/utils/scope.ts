@@ -0,0 +1,23 @@
+import { Request } from 'express';
+
+// Staff without the 'parking:all-sites' permission only see the parkings they are assigned to.
+// `authenticate` resolves the assignments into req.user.parkingCodes (null when unrestricted),
+// and API keys carry their allowed parking codes the same way.
+
+export const getParkingScope = (req: Request): string[] | null => {
+  if (req.apiKey) {
+    return req.apiKey.parkingCodes;
+  }
+  return req.user?.parkingCodes ?? null;
+};
+
+export const canAccessParking = (req: Request, parkingCode: string): boolean => {
+  const scope = getParkingScope(req);
+  return !scope || scope.includes(parkingCode);
+};
+
+// Prisma filter for a parking code column, undefined (no filter) for unrestricted callers
+export const parkingCodeFilter = (req: Request) => {
+  const scope = getParkingScope(req);
+  return scope ? { in: scope } : undefined;
+};
@@ -0,0 +1,72 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// What happens when a plate enters while it still has an open entry at another parking
+export const CROSS_FACILITY_ENTRY_POLICIES = ['reject', 'warn', 'auto-close'] as const;
+export type CrossFacilityEntryPolicy = typeof CROSS_FACILITY_ENTRY_POLICIES[number];
+
+// System-wide settings that admins can change at runtime, with their defaults.
+// The type of each default is also the type a stored value must have.
+export const SETTING_DEFAULTS = {
+  requireAdminTwoFactor: false,
+  // Minutes after the start of a reservation before it is released as a no-show
+  reservationGraceMinutes: 15,
+  // Charged for a reservation nobody showed up for, 0 to disable
+  reservationNoShowFee: 0,
+  // reject the entry, let it in with a warning, or close the stale entry at the other parking
+  crossFacilityEntryPolicy: 'reject' as CrossFacilityEntryPolicy
+};
+
+// Settings limited to a fixed set of values
+export const SETTING_CHOICES: Partial<Record<SettingKey, readonly unknown[]>> = {
+  crossFacilityEntryPolicy: CROSS_FACILITY_ENTRY_POLICIES
+};
+
+export type SettingKey = keyof typeof SETTING_DEFAULTS;
+export type Settings = typeof SETTING_DEFAULTS;
+
+export const isSettingKey = (key: string): key is SettingKey => {
+  return Object.prototype.hasOwnProperty.call(SETTING_DEFAULTS, key);
+};
+
+export const isValidSettingValue = (key: SettingKey, value: unknown): boolean => {
+  if (typeof value !== typeof SETTING_DEFAULTS[key]) {
+    return false;
+  }
+
+  const choices = SETTING_CHOICES[key];
+  if (choices) {
+    return choices.includes(value);
+  }
+
+  // Numeric settings are durations and amounts, which can't be negative
+  return typeof value !== 'number' || (Number.isFinite(value) && value >= 0);
+};
+
+export const getSetting = async <K extends SettingKey>(key: K): Promise<Settings[K]> => {
+  const setting = await prisma.setting.findUnique({
+    where: { key }
+  });
+
+  return setting ? (setting.value as Settings[K]) : SETTING_DEFAULTS[key];
+};
+
+export const getAllSettings = async (): Promise<Settings> => {
+  const stored = await prisma.setting.findMany();
+
+  return stored.reduce((acc: any, setting) => {
+    if (isSettingKey(setting.key)) {
+      acc[setting.key] = setting.value;
+    }
+    return acc;
+  }, { ...SETTING_DEFAULTS });
+};
+
+export const setSetting = async <K extends SettingKey>(key: K, value: Settings[K], updatedById?: string) => {
+  return prisma.setting.upsert({
+    where: { key },
+    update: { value: value as Prisma.InputJsonValue, updatedById },
+    create: { key, value: value as Prisma.InputJsonValue, updatedById }
+  });
+};
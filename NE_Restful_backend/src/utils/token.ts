@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { PrismaClient, Prisma, User } from '@prisma/client';
+import { getRolePermissions } from './permissions';
+
+const prisma = new PrismaClient();
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Generate a random opaque token (used for refresh tokens and emailed links)
+export const generateToken = (bytes: number = 48): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+// Tokens are only ever stored as SHA-256 hashes
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export const generateAccessToken = (user: Pick<User, 'id' | 'role' | 'email'>, sessionId?: string): string => {
+  const expiresIn = (process.env.JWT_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+
+  // Permissions are only included for the client's UI, the API checks them against the current role.
+  // The session id lets `authenticate` reject access tokens of revoked sessions.
+  return jwt.sign(
+    { id: user.id, role: user.role, email: user.email, permissions: getRolePermissions(user.role), sid: sessionId },
+    process.env.JWT_SECRET as string,
+    { expiresIn }
+  );
+};
+
+// Device details recorded with each session
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Issue a refresh token in a session. Rotated tokens stay in the session of the token they replace,
+// so that reuse of an old token can revoke every descendant at once.
+export const issueRefreshToken = async (userId: string, sessionId: string, client: Prisma.TransactionClient = prisma) => {
+  const token = generateToken();
+  const expiresInDays = parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || '7');
+
+  const refreshToken = await client.refreshToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      sessionId,
+      userId,
+      expiresAt: new Date(Date.now() + expiresInDays * DAY_IN_MS)
+    }
+  });
+
+  return { token, refreshToken };
+};
+
+// Start a new session after a successful login and issue its access/refresh token pair
+export const issueAuthTokens = async (user: Pick<User, 'id' | 'role' | 'email'>, client: SessionClient = {}) => {
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress
+    }
+  });
+
+  const accessToken = generateAccessToken(user, session.id);
+  const { token: refreshToken } = await issueRefreshToken(user.id, session.id);
+
+  return { token: accessToken, refreshToken, sessionId: session.id };
+};
+
+export const revokeSession = async (sessionId: string) => {
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: now }
+    }),
+    prisma.refreshToken.updateMany({
+      where: { sessionId, revokedAt: null },
+      data: { revokedAt: now }
+    })
+  ]);
+};
+
+// Log a user out everywhere, optionally keeping the session making the request
+export const revokeUserSessions = async (userId: string, exceptSessionId?: string) => {
+  const now = new Date();
+  const sessionFilter = exceptSessionId ? { not: exceptSessionId } : undefined;
+
+  const [{ count }] = await prisma.$transaction([
+    prisma.session.updateMany({
+      where: { userId, id: sessionFilter, revokedAt: null },
+      data: { revokedAt: now }
+    }),
+    prisma.refreshToken.updateMany({
+      where: { userId, sessionId: sessionFilter, revokedAt: null },
+      data: { revokedAt: now }
+    })
+  ]);
+
+  return count;
+};
+
+// Short-lived tokens returned by login while a second factor is still pending.
+// They carry a purpose claim, which `authenticate` refuses, so they can't be used as access tokens.
+export type ChallengePurpose = 'two-factor' | 'two-factor-setup';
+
+export interface ChallengeClaims {
+  userId: string;
+  jti: string;
+  expiresAt: Date;
+}
+
+export const generateChallengeToken = (userId: string, purpose: ChallengePurpose): string => {
+  return jwt.sign({ id: userId, purpose }, process.env.JWT_SECRET as string, { expiresIn: '5m', jwtid: generateToken(16) });
+};
+
+// Returns the claims of a valid challenge token for the given purpose, null otherwise or once it completed a login
+export const verifyChallengeToken = async (token: string, purpose: ChallengePurpose): Promise<ChallengeClaims | null> => {
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET as string);
+  } catch (error) {
+    return null;
+  }
+
+  if (decoded.purpose !== purpose || !decoded.jti) {
+    return null;
+  }
+
+  const used = await prisma.usedChallengeToken.findUnique({
+    where: { jti: decoded.jti }
+  });
+
+  return used ? null : { userId: decoded.id, jti: decoded.jti, expiresAt: new Date(decoded.exp * 1000) };
+};
+
+// Mark a challenge token as used by the login it completed. Returns false if another request used it first.
+export const consumeChallengeToken = async (challenge: ChallengeClaims): Promise<boolean> => {
+  // Used tokens only need to be remembered until they expire
+  await prisma.usedChallengeToken.deleteMany({
+    where: { expiresAt: { lt: new Date() } }
+  });
+
+  const { count } = await prisma.usedChallengeToken.createMany({
+    data: { jti: challenge.jti, userId: challenge.userId, expiresAt: challenge.expiresAt },
+    skipDuplicates: true
+  });
+
+  return count === 1;
+};
+
+// Recovery codes are shown to the user once, formatted as xxxxx-xxxxx
+export const generateRecoveryCodes = (count: number = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+};
+
+export const hashRecoveryCode = (code: string): string => {
+  return hashToken(code.replace(/[\s-]/g, '').toLowerCase());
+};
@@ -0,0 +1,28 @@
+import { findTotpStep, generateTotp, generateTotpSecret } from './totp';
+
+const STEP_MS = 30 * 1000;
+
+describe('findTotpStep', () => {
+  const secret = generateTotpSecret();
+  const currentStep = () => Math.floor(Date.now() / STEP_MS);
+
+  it('returns the time step of a current code', () => {
+    expect(findTotpStep(secret, generateTotp(secret))).toBe(currentStep());
+  });
+
+  it('accepts codes of the neighbouring steps for clock drift', () => {
+    expect(findTotpStep(secret, generateTotp(secret, Date.now() - STEP_MS))).toBe(currentStep() - 1);
+    expect(findTotpStep(secret, generateTotp(secret, Date.now() + STEP_MS))).toBe(currentStep() + 1);
+  });
+
+  it('refuses codes outside the window and malformed codes', () => {
+    expect(findTotpStep(secret, generateTotp(secret, Date.now() - 3 * STEP_MS))).toBeNull();
+    expect(findTotpStep(secret, 'abcdef')).toBeNull();
+    expect(findTotpStep(secret, '12345')).toBeNull();
+  });
+
+  it('ignores spaces in the code', () => {
+    const code = generateTotp(secret);
+    expect(findTotpStep(secret, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(currentStep());
+  });
+});